@@ -8,8 +8,16 @@ import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { MainLayout } from "@/components/layout/MainLayout";
 import Dashboard from "@/pages/Dashboard";
 import Transactions from "@/pages/Transactions";
+import CreditCards from "@/pages/CreditCards";
+import Recurring from "@/pages/Recurring";
+import Budgets from "@/pages/Budgets";
+import Goals from "@/pages/Goals";
+import Investments from "@/pages/Investments";
+import Loans from "@/pages/Loans";
+import Payees from "@/pages/Payees";
 import Import from "@/pages/Import";
 import Settings from "@/pages/Settings";
+import Trash from "@/pages/Trash";
 import Auth from "@/pages/Auth";
 import NotFound from "@/pages/NotFound";
 
@@ -63,7 +71,15 @@ const App = () => (
               <Route path="/login" element={<PublicRoute><Auth /></PublicRoute>} />
               <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
               <Route path="/lancamentos" element={<ProtectedRoute><Transactions /></ProtectedRoute>} />
+              <Route path="/recorrencias" element={<ProtectedRoute><Recurring /></ProtectedRoute>} />
+              <Route path="/orcamentos" element={<ProtectedRoute><Budgets /></ProtectedRoute>} />
+              <Route path="/metas" element={<ProtectedRoute><Goals /></ProtectedRoute>} />
+              <Route path="/investimentos" element={<ProtectedRoute><Investments /></ProtectedRoute>} />
+              <Route path="/financiamentos" element={<ProtectedRoute><Loans /></ProtectedRoute>} />
+              <Route path="/favorecidos" element={<ProtectedRoute><Payees /></ProtectedRoute>} />
+              <Route path="/faturas" element={<ProtectedRoute><CreditCards /></ProtectedRoute>} />
               <Route path="/importacao" element={<ProtectedRoute><Import /></ProtectedRoute>} />
+              <Route path="/lixeira" element={<ProtectedRoute><Trash /></ProtectedRoute>} />
               <Route path="/configuracoes" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
               <Route path="*" element={<NotFound />} />
             </Routes>
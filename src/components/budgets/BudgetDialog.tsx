@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { getCategoryColor, getCategoryIcon } from '@/lib/categories';
+import { Budget } from '@/lib/budgets';
+
+const paymentMethods = [
+  { value: 'pix', label: 'Pix' },
+  { value: 'boleto', label: 'Boleto' },
+  { value: 'credito', label: 'Crédito' },
+  { value: 'debito', label: 'Débito' },
+  { value: 'dinheiro', label: 'Dinheiro' },
+  { value: 'transferencia', label: 'Transferência' },
+] as const;
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
+  amount: z.string().min(1, 'Valor é obrigatório').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num > 0;
+  }, 'Valor deve ser maior que zero'),
+  payment_method: z.string().optional(),
+  account_id: z.string().optional(),
+  category_id: z.string().optional(),
+  keywords: z.string().max(500, 'Palavras-chave muito longas').optional(),
+});
+
+export type BudgetFormData = z.infer<typeof formSchema>;
+
+const ANY = 'none';
+
+const emptyValues = (): BudgetFormData => ({
+  name: '',
+  amount: '',
+  payment_method: '',
+  account_id: '',
+  category_id: '',
+  keywords: '',
+});
+
+interface BudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  budget?: Budget | null;
+  onSubmit: (data: BudgetFormData) => Promise<void>;
+}
+
+export function BudgetDialog({
+  open,
+  onOpenChange,
+  budget,
+  onSubmit,
+}: BudgetDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { selectedProfile } = useProfiles();
+  const { categories, categoriesById } = useCategories(selectedProfile?.id);
+  const { accounts } = useAccounts(selectedProfile?.id);
+  const expenseCategories = categories.filter(c => c.type === 'expense');
+
+  const form = useForm<BudgetFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues(),
+  });
+
+  useEffect(() => {
+    if (budget) {
+      form.reset({
+        name: budget.name,
+        amount: Number(budget.amount).toString().replace('.', ','),
+        payment_method: budget.payment_method || '',
+        account_id: budget.account_id || '',
+        category_id: budget.category_id || '',
+        keywords: budget.keywords.join(', '),
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+  }, [budget, form, open]);
+
+  const handleSubmit = async (data: BudgetFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {budget ? 'Editar Orçamento' : 'Novo Orçamento'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Mercado, Lazer..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Planejado (R$)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0,00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Despesas do mês que atendem a todos os filtros preenchidos contam para este orçamento.
+              </p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="payment_method"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Forma de Pagamento</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === ANY ? '' : value)}
+                        value={field.value || ANY}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Qualquer</SelectItem>
+                          {paymentMethods.map((method) => (
+                            <SelectItem key={method.value} value={method.value}>
+                              {method.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="account_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Conta</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === ANY ? '' : value)}
+                        value={field.value || ANY}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Qualquer</SelectItem>
+                          {accounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              <span className="flex items-center gap-2">
+                                <span
+                                  className="w-2.5 h-2.5 rounded-full"
+                                  style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+                                />
+                                {account.name}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === ANY ? '' : value)}
+                      value={field.value || ANY}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Qualquer</SelectItem>
+                        {expenseCategories.map((category) => {
+                          const CategoryIcon = getCategoryIcon(category, categoriesById);
+                          return (
+                            <SelectItem key={category.id} value={category.id}>
+                              <span className={cn('flex items-center gap-2', category.parent_id && 'pl-5')}>
+                                <CategoryIcon
+                                  className="h-4 w-4"
+                                  style={{ color: getCategoryColor(category, categoriesById) }}
+                                />
+                                {category.name}
+                              </span>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="keywords"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Palavras-chave na descrição</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: mercado, padaria, ifood" {...field} />
+                    </FormControl>
+                    <FormDescription>Separe por vírgula. Basta conter uma delas.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { Account, DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { CreditCardStatement, getStatementLabel } from '@/lib/creditCards';
+
+const formSchema = z.object({
+  account_id: z.string().min(1, 'Conta de pagamento é obrigatória'),
+  amount: z.string().min(1, 'Valor é obrigatório').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num > 0;
+  }, 'Valor deve ser maior que zero'),
+  payment_date: z.date(),
+});
+
+export type PayStatementFormData = z.infer<typeof formSchema>;
+
+interface PayStatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card: Account;
+  statement: CreditCardStatement | null;
+  accounts: Account[];
+  onSubmit: (data: PayStatementFormData) => Promise<void>;
+}
+
+export function PayStatementDialog({
+  open,
+  onOpenChange,
+  card,
+  statement,
+  accounts,
+  onSubmit,
+}: PayStatementDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const paymentAccounts = accounts.filter(a => a.type !== 'credit');
+
+  const form = useForm<PayStatementFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      account_id: '',
+      amount: '',
+      payment_date: new Date(),
+    },
+  });
+
+  useEffect(() => {
+    if (!statement) return;
+    form.reset({
+      account_id: accounts.find(a => a.type === 'checking')?.id || '',
+      amount: statement.total.toFixed(2).replace('.', ','),
+      payment_date: new Date(),
+    });
+  }, [statement, accounts, form, open]);
+
+  const handleSubmit = async (data: PayStatementFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Pagar Fatura</DialogTitle>
+          {statement && (
+            <DialogDescription>
+              {card.name} · fatura de {getStatementLabel(statement)}, vencimento em{' '}
+              {format(statement.dueDate, 'dd/MM/yyyy')}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="account_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pagar com</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecionar conta" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {paymentAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full"
+                              style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+                            />
+                            {account.name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor (R$)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0,00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="payment_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data do pagamento</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn(
+                              'w-full pl-3 text-left font-normal',
+                              !field.value && 'text-muted-foreground'
+                            )}
+                          >
+                            {field.value ? format(field.value, 'dd/MM/yyyy') : 'Selecionar data'}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          initialFocus
+                          className="pointer-events-auto"
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Pagando...' : 'Pagar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BudgetProgress } from '@/lib/budgets';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface BudgetAlertProps {
+  progress: BudgetProgress[];
+  currency?: string;
+}
+
+export function BudgetAlert({ progress, currency = DEFAULT_CURRENCY }: BudgetAlertProps) {
+  const overBudget = progress.filter(p => p.isOver);
+
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  if (overBudget.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {overBudget.length === 1
+          ? '1 orçamento estourado neste mês'
+          : `${overBudget.length} orçamentos estourados neste mês`}
+      </AlertTitle>
+      <AlertDescription>
+        {overBudget
+          .map(p => `${p.budget.name} (${formatCurrency(-p.remaining)} acima)`)
+          .join(', ')}
+        .{' '}
+        <Link to="/orcamentos" className="font-medium underline">Ver orçamentos</Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
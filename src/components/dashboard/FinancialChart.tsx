@@ -1,5 +1,6 @@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, formatMoney } from '@/lib/currency';
 
 interface ChartData {
   month: string;
@@ -9,17 +10,13 @@ interface ChartData {
 
 interface FinancialChartProps {
   data: ChartData[];
+  currency?: string;
+  locale?: string;
 }
 
-export function FinancialChart({ data }: FinancialChartProps) {
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-      notation: 'compact',
-      maximumFractionDigits: 1,
-    }).format(value);
-  };
+export function FinancialChart({ data, currency = DEFAULT_CURRENCY, locale = DEFAULT_LOCALE }: FinancialChartProps) {
+  const formatCurrency = (value: number) =>
+    formatMoney(value, currency, locale, { notation: 'compact', maximumFractionDigits: 1 });
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
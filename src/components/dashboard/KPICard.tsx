@@ -1,6 +1,7 @@
 import { ReactNode } from 'react';
 import { cn } from '@/lib/utils';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, formatMoney } from '@/lib/currency';
 
 interface KPICardProps {
   title: string;
@@ -8,15 +9,23 @@ interface KPICardProps {
   icon: ReactNode;
   type: 'income' | 'expense' | 'balance';
   trend?: number;
+  currency?: string;
+  locale?: string;
+  // Value including planned entries; `value` is what was realized
+  projected?: number;
 }
 
-export function KPICard({ title, value, icon, type, trend }: KPICardProps) {
-  const formatCurrency = (val: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(val);
-  };
+export function KPICard({
+  title,
+  value,
+  icon,
+  type,
+  trend,
+  currency = DEFAULT_CURRENCY,
+  locale = DEFAULT_LOCALE,
+  projected,
+}: KPICardProps) {
+  const formatCurrency = (val: number) => formatMoney(val, currency, locale);
 
   const isPositive = value >= 0;
   const trendIcon = trend && trend > 0 
@@ -56,6 +65,11 @@ export function KPICard({ title, value, icon, type, trend }: KPICardProps) {
       )}>
         {formatCurrency(value)}
       </p>
+      {projected !== undefined && (
+        <p className="text-sm text-muted-foreground mt-1.5">
+          Projetado: <span className="font-medium text-foreground">{formatCurrency(projected)}</span>
+        </p>
+      )}
     </div>
   );
 }
@@ -6,12 +6,15 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
+import { DEFAULT_MONTH_START, MonthStart, formatPeriod, getMonthPeriod, getPeriodMonth, isCalendarMonth } from '@/lib/period';
 
 interface MonthYearPickerProps {
   selectedMonth: number;
   selectedYear: number;
   onMonthChange: (month: number) => void;
   onYearChange: (year: number) => void;
+  // Start of the profile's financial month; months are shown with their boundaries when it isn't the 1st
+  monthStart?: MonthStart;
 }
 
 const months = [
@@ -24,9 +27,18 @@ export function MonthYearPicker({
   selectedMonth, 
   selectedYear, 
   onMonthChange, 
-  onYearChange 
+  onYearChange,
+  monthStart = DEFAULT_MONTH_START,
 }: MonthYearPickerProps) {
   const currentYear = new Date().getFullYear();
+  const showBoundaries = !isCalendarMonth(monthStart);
+  const current = getPeriodMonth(new Date(), monthStart);
+  const isCurrent = current.month === selectedMonth && current.year === selectedYear;
+
+  const handleCurrentMonth = () => {
+    onMonthChange(current.month);
+    onYearChange(current.year);
+  };
   const years = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i);
 
   const handlePrevMonth = () => {
@@ -55,10 +67,17 @@ export function MonthYearPicker({
       
       <Popover>
         <PopoverTrigger asChild>
-          <Button variant="outline" className="min-w-[200px] justify-center gap-2">
+          <Button variant="outline" className={cn('min-w-[200px] justify-center gap-2', showBoundaries && 'h-auto py-1.5')}>
             <Calendar className="h-4 w-4" />
-            <span className="font-medium">
-              {months[selectedMonth]} {selectedYear}
+            <span className="flex flex-col items-center leading-tight">
+              <span className="font-medium">
+                {months[selectedMonth]} {selectedYear}
+              </span>
+              {showBoundaries && (
+                <span className="text-xs text-muted-foreground font-normal">
+                  {formatPeriod(getMonthPeriod(selectedMonth, selectedYear, monthStart))}
+                </span>
+              )}
             </span>
           </Button>
         </PopoverTrigger>
@@ -90,6 +109,7 @@ export function MonthYearPicker({
                   key={month}
                   variant={selectedMonth === index ? 'default' : 'ghost'}
                   size="sm"
+                  title={showBoundaries ? formatPeriod(getMonthPeriod(index, selectedYear, monthStart)) : undefined}
                   onClick={() => onMonthChange(index)}
                   className={cn(
                     'h-9',
@@ -100,6 +120,12 @@ export function MonthYearPicker({
                 </Button>
               ))}
             </div>
+
+            {!isCurrent && (
+              <Button variant="outline" size="sm" className="w-full" onClick={handleCurrentMonth}>
+                Mês atual
+              </Button>
+            )}
           </div>
         </PopoverContent>
       </Popover>
@@ -0,0 +1,62 @@
+import { Split } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { SplitTotal, UNSPLIT_LABEL } from '@/lib/splits';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface SplitReportProps {
+  totals: SplitTotal[];
+  currency?: string;
+}
+
+export function SplitReport({ totals, currency = DEFAULT_CURRENCY }: SplitReportProps) {
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const total = totals.reduce((sum, t) => sum + t.amount, 0);
+
+  return (
+    <Card className="card-finance">
+      <CardHeader>
+        <CardTitle className="font-display flex items-center gap-2">
+          <Split className="h-5 w-5 text-muted-foreground" />
+          Despesas por Finalidade
+        </CardTitle>
+        <CardDescription>Despesas do mês agrupadas pelas linhas de divisão dos lançamentos</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Finalidade</TableHead>
+              <TableHead className="text-right">Linhas</TableHead>
+              <TableHead className="text-right">Valor</TableHead>
+              <TableHead className="text-right">%</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {totals.map(({ label, amount, count }) => (
+              <TableRow key={label}>
+                <TableCell className={cn(label === UNSPLIT_LABEL && 'text-muted-foreground italic')}>
+                  {label}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">{count}</TableCell>
+                <TableCell className="text-right text-expense font-medium">{formatCurrency(amount)}</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {total > 0 ? `${Math.round((amount / total) * 100)}%` : '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
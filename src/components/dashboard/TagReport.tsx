@@ -0,0 +1,71 @@
+import { Tags } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DEFAULT_TAG_COLOR, TagTotal } from '@/lib/tags';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface TagReportProps {
+  totals: TagTotal[];
+  currency?: string;
+}
+
+export function TagReport({ totals, currency = DEFAULT_CURRENCY }: TagReportProps) {
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  return (
+    <Card className="card-finance">
+      <CardHeader>
+        <CardTitle className="font-display flex items-center gap-2">
+          <Tags className="h-5 w-5 text-muted-foreground" />
+          Totais por Tag
+        </CardTitle>
+        <CardDescription>Lançamentos do mês agrupados por tag; um lançamento conta em cada uma de suas tags</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {totals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum lançamento com tag neste mês.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead className="text-right">Lançamentos</TableHead>
+                <TableHead className="text-right">Receitas</TableHead>
+                <TableHead className="text-right">Despesas</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {totals.map(({ tag, income, expense, count }) => (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="w-2.5 h-2.5 rounded-full"
+                        style={{ backgroundColor: tag.color || DEFAULT_TAG_COLOR }}
+                      />
+                      #{tag.name}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{count}</TableCell>
+                  <TableCell className="text-right text-income font-medium">
+                    {income > 0 ? formatCurrency(income) : '-'}
+                  </TableCell>
+                  <TableCell className="text-right text-expense font-medium">
+                    {expense > 0 ? formatCurrency(expense) : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
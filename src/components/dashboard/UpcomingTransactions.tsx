@@ -0,0 +1,54 @@
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Link } from 'react-router-dom';
+import { CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Occurrence } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface UpcomingTransactionsProps {
+  occurrences: Occurrence[];
+  days: number;
+  currency?: string;
+}
+
+export function UpcomingTransactions({ occurrences, days, currency = DEFAULT_CURRENCY }: UpcomingTransactionsProps) {
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  return (
+    <Card className="card-finance">
+      <CardHeader>
+        <CardTitle className="font-display flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-muted-foreground" />
+          Próximos Lançamentos
+        </CardTitle>
+        <CardDescription>Recorrências previstas para os próximos {days} dias</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {occurrences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nada previsto.{' '}
+            <Link to="/recorrencias" className="text-primary hover:underline">Cadastrar recorrência</Link>
+          </p>
+        ) : (
+          <div className="divide-y">
+            {occurrences.map(({ rule, date }) => (
+              <div key={`${rule.id}-${date}`} className="flex items-center justify-between py-2.5 text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-muted-foreground w-14 shrink-0">
+                    {format(parseISO(date), 'dd MMM', { locale: ptBR })}
+                  </span>
+                  <span className="truncate text-foreground">{rule.description}</span>
+                </div>
+                <span className={cn('font-semibold shrink-0', rule.type === 'income' ? 'text-income' : 'text-expense')}>
+                  {rule.type === 'income' ? '+' : '-'} {formatCurrency(Number(rule.amount))}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addYears, format, parseISO } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { DEFAULT_GOAL_COLOR, Goal } from '@/lib/goals';
+
+const colors = [
+  DEFAULT_GOAL_COLOR,
+  '#0891b2', // Cyan
+  '#2563eb', // Blue
+  '#7c3aed', // Purple
+  '#db2777', // Pink
+  '#ea580c', // Orange
+  '#ca8a04', // Yellow
+  '#475569', // Gray
+];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
+  target_amount: z.string().min(1, 'Valor é obrigatório').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num > 0;
+  }, 'Valor deve ser maior que zero'),
+  target_date: z.date({ required_error: 'Data é obrigatória' }),
+  color: z.string(),
+  notes: z.string().max(1000, 'Observação muito longa').optional(),
+});
+
+export type GoalFormData = z.infer<typeof formSchema>;
+
+const emptyValues = (): GoalFormData => ({
+  name: '',
+  target_amount: '',
+  target_date: addYears(new Date(), 1),
+  color: colors[0],
+  notes: '',
+});
+
+interface GoalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  goal?: Goal | null;
+  onSubmit: (data: GoalFormData) => Promise<void>;
+}
+
+export function GoalDialog({
+  open,
+  onOpenChange,
+  goal,
+  onSubmit,
+}: GoalDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<GoalFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues(),
+  });
+
+  useEffect(() => {
+    if (goal) {
+      form.reset({
+        name: goal.name,
+        target_amount: Number(goal.target_amount).toString().replace('.', ','),
+        target_date: parseISO(goal.target_date),
+        color: goal.color || colors[0],
+        notes: goal.notes || '',
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+  }, [goal, form, open]);
+
+  const handleSubmit = async (data: GoalFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {goal ? 'Editar Meta' : 'Nova Meta'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Reserva de emergência, Viagem..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="target_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor alvo (R$)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0,00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="target_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data alvo</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn('w-full pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}
+                          >
+                            {field.value ? format(field.value, 'dd/MM/yyyy') : 'Selecionar data'}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          initialFocus
+                          className="pointer-events-auto"
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observação</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Notas adicionais (opcional)" rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cor</FormLabel>
+                  <FormControl>
+                    <div className="flex flex-wrap gap-2">
+                      {colors.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => field.onChange(color)}
+                          className={`w-8 h-8 rounded-full transition-all ${
+                            field.value === color
+                              ? 'ring-2 ring-offset-2 ring-primary scale-110'
+                              : 'hover:scale-105'
+                          }`}
+                          style={{ backgroundColor: color }}
+                        />
+                      ))}
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ASSET_CLASS_LABELS, AssetClass, InvestmentAsset } from '@/lib/investments';
+import { CURRENCIES } from '@/lib/currency';
+
+const assetClasses = Object.keys(ASSET_CLASS_LABELS) as [AssetClass, ...AssetClass[]];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
+  ticker: z.string().trim().max(20, 'Código muito longo').optional(),
+  asset_class: z.enum(assetClasses),
+  currency: z.string().regex(/^[A-Z]{3}$/),
+  notes: z.string().max(500, 'Observação muito longa').optional(),
+});
+
+export type AssetFormData = z.infer<typeof formSchema>;
+
+interface AssetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  asset?: InvestmentAsset | null;
+  defaultCurrency: string;
+  onSubmit: (data: AssetFormData) => Promise<void>;
+}
+
+export function AssetDialog({
+  open,
+  onOpenChange,
+  asset,
+  defaultCurrency,
+  onSubmit,
+}: AssetDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<AssetFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      ticker: '',
+      asset_class: 'acao',
+      currency: defaultCurrency,
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    form.reset({
+      name: asset?.name ?? '',
+      ticker: asset?.ticker ?? '',
+      asset_class: asset?.asset_class ?? 'acao',
+      currency: asset?.currency ?? defaultCurrency,
+      notes: asset?.notes ?? '',
+    });
+  }, [asset, form, open, defaultCurrency]);
+
+  const handleSubmit = async (data: AssetFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {asset ? 'Editar Ativo' : 'Novo Ativo'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Petrobras PN, CDB Banco X 2028" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="ticker"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ex: PETR4"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="asset_class"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Classe</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {assetClasses.map((assetClass) => (
+                          <SelectItem key={assetClass} value={assetClass}>
+                            {ASSET_CLASS_LABELS[assetClass]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Moeda</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CURRENCIES.map((c) => (
+                        <SelectItem key={c.code} value={c.code}>{c.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observação</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: vencimento, taxa contratada" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,391 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { formatMoney } from '@/lib/currency';
+import { InvestmentAsset, MOVEMENT_TYPE_LABELS, MovementType, movementAmount } from '@/lib/investments';
+
+const NO_TRANSACTION = 'none';
+
+const movementTypes = Object.keys(MOVEMENT_TYPE_LABELS) as [MovementType, ...MovementType[]];
+
+const parseNumber = (val: string | undefined) => parseFloat((val || '').replace(',', '.'));
+
+const formSchema = z.object({
+  type: z.enum(movementTypes),
+  movement_date: z.date(),
+  quantity: z.string().optional(),
+  unit_price: z.string().optional(),
+  fees: z.string().optional(),
+  amount: z.string().optional(),
+  transaction_id: z.string(),
+  notes: z.string().max(500, 'Observação muito longa').optional(),
+}).superRefine((data, ctx) => {
+  if (data.type === 'dividend') {
+    const amount = parseNumber(data.amount);
+    if (isNaN(amount) || amount <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: 'Valor deve ser maior que zero' });
+    }
+    return;
+  }
+  const quantity = parseNumber(data.quantity);
+  if (isNaN(quantity) || quantity <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quantity'], message: 'Quantidade deve ser maior que zero' });
+  }
+  const unitPrice = parseNumber(data.unit_price);
+  if (isNaN(unitPrice) || unitPrice <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['unit_price'], message: 'Preço deve ser maior que zero' });
+  }
+  const fees = data.fees ? parseNumber(data.fees) : 0;
+  if (isNaN(fees) || fees < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fees'], message: 'Taxas inválidas' });
+  }
+});
+
+export type MovementFormData = z.infer<typeof formSchema>;
+
+// Cash amount of the movement as stored in investment_movements.amount
+function getMovementFormAmount(data: MovementFormData): number {
+  if (data.type === 'dividend') return parseNumber(data.amount);
+  return movementAmount(
+    data.type,
+    parseNumber(data.quantity),
+    parseNumber(data.unit_price),
+    data.fees ? parseNumber(data.fees) : 0
+  );
+}
+
+interface LinkableTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  transaction_date: string;
+  type: 'income' | 'expense' | 'transfer';
+}
+
+interface MovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  asset: InvestmentAsset | null;
+  profileId: string | undefined;
+  onSubmit: (data: MovementFormData) => Promise<void>;
+}
+
+export function MovementDialog({
+  open,
+  onOpenChange,
+  asset,
+  profileId,
+  onSubmit,
+}: MovementDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<MovementFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: 'buy',
+      movement_date: new Date(),
+      quantity: '',
+      unit_price: '',
+      fees: '',
+      amount: '',
+      transaction_id: '',
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    form.reset({
+      type: 'buy',
+      movement_date: new Date(),
+      quantity: '',
+      unit_price: '',
+      fees: '',
+      amount: '',
+      transaction_id: '',
+      notes: '',
+    });
+  }, [asset, form, open]);
+
+  // Recent transactions that can back the movement: the purchase expense or the sale/dividend income
+  const { data: transactions = [] } = useQuery({
+    queryKey: ['transactions', 'investment_links', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, description, amount, currency, transaction_date, type')
+        .is('deleted_at', null)
+        .eq('profile_id', profileId)
+        .order('transaction_date', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return data as LinkableTransaction[];
+    },
+    enabled: open && !!profileId,
+  });
+
+  const type = form.watch('type');
+  const linkable = transactions.filter(t => type === 'buy' ? t.type !== 'income' : t.type !== 'expense');
+  const currency = asset?.currency;
+
+  const getPreview = () => {
+    if (type === 'dividend') return null;
+    const amount = getMovementFormAmount(form.watch());
+    return isNaN(amount) || amount <= 0 ? null : amount;
+  };
+  const preview = getPreview();
+
+  const handleLink = (value: string) => {
+    const id = value === NO_TRANSACTION ? '' : value;
+    form.setValue('transaction_id', id);
+    const transaction = transactions.find(t => t.id === id);
+    if (!transaction) return;
+    form.setValue('movement_date', parseISO(transaction.transaction_date));
+    if (type === 'dividend') {
+      form.setValue('amount', Number(transaction.amount).toFixed(2).replace('.', ','), { shouldValidate: true });
+    }
+  };
+
+  const handleSubmit = async (data: MovementFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Registrar Movimento</DialogTitle>
+          {asset && <DialogDescription>{asset.ticker ? `${asset.ticker} · ${asset.name}` : asset.name}</DialogDescription>}
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {movementTypes.map((movementType) => (
+                          <SelectItem key={movementType} value={movementType}>
+                            {MOVEMENT_TYPE_LABELS[movementType]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="movement_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn('w-full pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}
+                          >
+                            {field.value ? format(field.value, 'dd/MM/yyyy') : 'Selecionar data'}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          initialFocus
+                          className="pointer-events-auto"
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {type === 'dividend' ? (
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor recebido ({currency})</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0,00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantidade</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unit_price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Preço unitário</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0,00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="fees"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Taxas</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0,00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {preview !== null && (
+              <p className="text-sm text-muted-foreground">
+                {type === 'buy' ? 'Total investido' : 'Total recebido'}: {formatMoney(preview, currency)}
+              </p>
+            )}
+
+            <FormField
+              control={form.control}
+              name="transaction_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lançamento vinculado</FormLabel>
+                  <Select onValueChange={handleLink} value={field.value || NO_TRANSACTION}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_TRANSACTION}>Nenhum</SelectItem>
+                      {linkable.map((t) => (
+                        <SelectItem key={t.id} value={t.id}>
+                          {format(parseISO(t.transaction_date), 'dd/MM/yyyy')} · {t.description} · {formatMoney(Number(t.amount), t.currency)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Opcional: o lançamento que pagou a compra ou recebeu a venda ou o provento
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observação</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Opcional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
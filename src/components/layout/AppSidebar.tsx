@@ -1,4 +1,4 @@
-import { LayoutDashboard, Receipt, Upload, Settings, LogOut, Moon, Sun, ChevronDown, Plus, User } from 'lucide-react';
+import { LayoutDashboard, Receipt, Store, Repeat, PiggyBank, Target, LineChart, Landmark, CreditCard, Upload, Trash2, Settings, LogOut, Moon, Sun, ChevronDown, Plus, User } from 'lucide-react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { useTheme } from 'next-themes';
 import { useAuth } from '@/contexts/AuthContext';
@@ -7,6 +7,7 @@ import { Sidebar, SidebarContent, SidebarFooter, SidebarGroup, SidebarGroupConte
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
 import { CoinLogo } from '@/components/ui/CoinLogo';
+import { SidebarAccounts } from '@/components/layout/SidebarAccounts';
 import { cn } from '@/lib/utils';
 
 const navItems = [{
@@ -17,10 +18,42 @@ const navItems = [{
   title: 'Lançamentos',
   url: '/lancamentos',
   icon: Receipt
+}, {
+  title: 'Favorecidos',
+  url: '/favorecidos',
+  icon: Store
+}, {
+  title: 'Recorrências',
+  url: '/recorrencias',
+  icon: Repeat
+}, {
+  title: 'Orçamentos',
+  url: '/orcamentos',
+  icon: PiggyBank
+}, {
+  title: 'Metas',
+  url: '/metas',
+  icon: Target
+}, {
+  title: 'Investimentos',
+  url: '/investimentos',
+  icon: LineChart
+}, {
+  title: 'Financiamentos',
+  url: '/financiamentos',
+  icon: Landmark
+}, {
+  title: 'Faturas',
+  url: '/faturas',
+  icon: CreditCard
 }, {
   title: 'Importação',
   url: '/importacao',
   icon: Upload
+}, {
+  title: 'Lixeira',
+  url: '/lixeira',
+  icon: Trash2
 }, {
   title: 'Configurações',
   url: '/configuracoes',
@@ -142,6 +175,9 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {/* Account Balances */}
+        <SidebarAccounts />
       </SidebarContent>
 
       <SidebarFooter className="p-4 border-t border-sidebar-border/50">
@@ -0,0 +1,51 @@
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAccountBalances } from '@/hooks/useAccounts';
+import { DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+export function SidebarAccounts() {
+  const { selectedProfile } = useProfiles();
+  const { accounts, balances } = useAccountBalances(selectedProfile?.id);
+
+  const formatCurrency = (value: number) => formatMoney(value, selectedProfile?.base_currency);
+
+  if (accounts.length === 0) return null;
+
+  const total = accounts.reduce((sum, a) => sum + (balances[a.id] ?? 0), 0);
+
+  return (
+    <div className="mt-6 animate-slide-up" style={{ animationDelay: '300ms' }}>
+      <div className="flex items-center justify-between mb-2.5 px-2">
+        <p className="text-xs font-medium text-sidebar-muted uppercase tracking-wider">
+          Contas
+        </p>
+        <span className={cn('text-xs font-semibold', total >= 0 ? 'text-income' : 'text-expense')}>
+          {formatCurrency(total)}
+        </span>
+      </div>
+      <div className="space-y-1">
+        {accounts.map(account => {
+          const balance = balances[account.id] ?? 0;
+          return (
+            <div
+              key={account.id}
+              className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-sm"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span
+                  className="w-2.5 h-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+                />
+                <span className="truncate text-sidebar-foreground/80">{account.name}</span>
+              </div>
+              <span className={cn('shrink-0 font-medium', balance >= 0 ? 'text-sidebar-foreground' : 'text-expense')}>
+                {formatCurrency(balance)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { getCategoryColor, getCategoryIcon } from '@/lib/categories';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import {
+  AMORTIZATION_SYSTEM_LABELS,
+  Loan,
+  MAX_LOAN_TERM,
+  RATE_PERIOD_LABELS,
+  buildAmortizationSchedule,
+} from '@/lib/loans';
+
+const NO_CATEGORY = 'none';
+const NO_ACCOUNT = 'none';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(80, 'Nome muito longo'),
+  principal: z.string().min(1, 'Valor é obrigatório').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num > 0;
+  }, 'Valor deve ser maior que zero'),
+  interest_rate: z.string().min(1, 'Taxa é obrigatória').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num >= 0;
+  }, 'Taxa inválida'),
+  rate_period: z.enum(['monthly', 'annual']),
+  term_months: z.string().refine((val) => {
+    const num = Number(val);
+    return Number.isInteger(num) && num >= 1 && num <= MAX_LOAN_TERM;
+  }, `Informe de 1 a ${MAX_LOAN_TERM} meses`),
+  amortization_system: z.enum(['sac', 'price']),
+  first_due_date: z.date(),
+  account_id: z.string().optional(),
+  category_id: z.string().optional(),
+  mark_past_paid: z.boolean(),
+  notes: z.string().max(500, 'Observação muito longa').optional(),
+});
+
+export type LoanFormData = z.infer<typeof formSchema>;
+
+interface LoanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  loan?: Loan | null;
+  onSubmit: (data: LoanFormData) => Promise<void>;
+}
+
+const emptyValues = (): LoanFormData => ({
+  name: '',
+  principal: '',
+  interest_rate: '',
+  rate_period: 'annual',
+  term_months: '',
+  amortization_system: 'price',
+  first_due_date: new Date(),
+  account_id: '',
+  category_id: '',
+  mark_past_paid: true,
+  notes: '',
+});
+
+export function LoanDialog({
+  open,
+  onOpenChange,
+  loan,
+  onSubmit,
+}: LoanDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { selectedProfile } = useProfiles();
+  const currency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { categories, categoriesById } = useCategories(selectedProfile?.id);
+  const { accounts } = useAccounts(selectedProfile?.id);
+  const expenseCategories = categories.filter(c => c.type === 'expense');
+
+  const form = useForm<LoanFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues(),
+  });
+
+  useEffect(() => {
+    if (loan) {
+      form.reset({
+        name: loan.name,
+        principal: Number(loan.principal).toFixed(2).replace('.', ','),
+        interest_rate: String(Number(loan.interest_rate)).replace('.', ','),
+        rate_period: loan.rate_period,
+        term_months: String(loan.term_months),
+        amortization_system: loan.amortization_system,
+        first_due_date: parseISO(loan.first_due_date),
+        account_id: loan.account_id || '',
+        category_id: loan.category_id || '',
+        mark_past_paid: false,
+        notes: loan.notes || '',
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+  }, [loan, form, open]);
+
+  // The installments already exist once the loan is saved, so its terms can't change
+  const isLocked = !!loan;
+
+  const getPreview = () => {
+    const principal = parseFloat(form.watch('principal').replace(',', '.'));
+    const rate = parseFloat(form.watch('interest_rate').replace(',', '.'));
+    const term = Number(form.watch('term_months'));
+    if (isNaN(principal) || principal <= 0 || isNaN(rate) || rate < 0 || !Number.isInteger(term) || term < 1 || term > MAX_LOAN_TERM) {
+      return null;
+    }
+    const schedule = buildAmortizationSchedule({
+      principal,
+      interest_rate: rate,
+      rate_period: form.watch('rate_period'),
+      term_months: term,
+      amortization_system: form.watch('amortization_system'),
+      first_due_date: format(form.watch('first_due_date'), 'yyyy-MM-dd'),
+    });
+    const interest = schedule.reduce((sum, row) => sum + row.interest, 0);
+    const first = formatMoney(schedule[0].payment, currency);
+    const last = schedule[schedule.length - 1].payment !== schedule[0].payment
+      ? ` até ${formatMoney(schedule[schedule.length - 1].payment, currency)}`
+      : '';
+    return `${term}x de ${first}${last} · juros totais de ${formatMoney(interest, currency)}`;
+  };
+  const preview = getPreview();
+
+  const handleSubmit = async (data: LoanFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {loan ? 'Editar Financiamento' : 'Novo Financiamento'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Financiamento do carro" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="principal"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor financiado</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0,00" disabled={isLocked} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="term_months"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prazo (meses)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={MAX_LOAN_TERM} placeholder="Ex: 48" disabled={isLocked} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="interest_rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Taxa de juros</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input placeholder="0,00" disabled={isLocked} {...field} />
+                      </FormControl>
+                      <FormField
+                        control={form.control}
+                        name="rate_period"
+                        render={({ field: periodField }) => (
+                          <Select onValueChange={periodField.onChange} value={periodField.value} disabled={isLocked}>
+                            <SelectTrigger className="w-[100px] shrink-0" aria-label="Período da taxa">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="monthly">{RATE_PERIOD_LABELS.monthly}</SelectItem>
+                              <SelectItem value="annual">{RATE_PERIOD_LABELS.annual}</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
+                      />
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amortization_system"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sistema</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isLocked}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="price">{AMORTIZATION_SYSTEM_LABELS.price} (parcelas iguais)</SelectItem>
+                        <SelectItem value="sac">{AMORTIZATION_SYSTEM_LABELS.sac} (parcelas decrescentes)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="first_due_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vencimento da 1ª parcela</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          disabled={isLocked}
+                          className={cn('w-full pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}
+                        >
+                          {field.value ? format(field.value, 'dd/MM/yyyy') : 'Selecionar data'}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        initialFocus
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {isLocked ? (
+                    <FormDescription>Valor, taxa, prazo e datas não podem ser alterados depois de gerar as parcelas.</FormDescription>
+                  ) : preview && (
+                    <FormDescription>{preview}</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_CATEGORY ? '' : value)}
+                      value={field.value || NO_CATEGORY}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecionar" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                        {expenseCategories.map((category) => {
+                          const CategoryIcon = getCategoryIcon(category, categoriesById);
+                          return (
+                            <SelectItem key={category.id} value={category.id}>
+                              <span className={cn('flex items-center gap-2', category.parent_id && 'pl-5')}>
+                                <CategoryIcon
+                                  className="h-4 w-4"
+                                  style={{ color: getCategoryColor(category, categoriesById) }}
+                                />
+                                {category.name}
+                              </span>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Conta</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_ACCOUNT ? '' : value)}
+                      value={field.value || NO_ACCOUNT}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecionar" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            <span className="flex items-center gap-2">
+                              <span
+                                className="w-2.5 h-2.5 rounded-full"
+                                style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+                              />
+                              {account.name}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observação</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: banco, número do contrato" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!isLocked && (
+              <FormField
+                control={form.control}
+                name="mark_past_paid"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3 space-y-0">
+                    <FormLabel className="font-normal">Marcar parcelas já vencidas como pagas</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
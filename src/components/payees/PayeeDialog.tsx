@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { MAX_PAYEE_NAME_LENGTH, Payee, isValidAlias, parseAliasList } from '@/lib/payees';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(MAX_PAYEE_NAME_LENGTH, 'Nome muito longo'),
+  aliases: z.string().refine(
+    value => parseAliasList(value).every(isValidAlias),
+    'Cada padrão precisa ter ao menos uma letra ou número'
+  ),
+});
+
+export interface PayeeFormData {
+  name: string;
+  aliases: string[];
+}
+
+interface PayeeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payee?: Payee | null;
+  onSubmit: (data: PayeeFormData) => Promise<void>;
+}
+
+export function PayeeDialog({ open, onOpenChange, payee, onSubmit }: PayeeDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      aliases: '',
+    },
+  });
+
+  useEffect(() => {
+    form.reset({
+      name: payee?.name ?? '',
+      aliases: payee?.aliases.join('\n') ?? '',
+    });
+  }, [payee, form, open]);
+
+  const handleSubmit = async (data: z.infer<typeof formSchema>) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ name: data.name, aliases: parseAliasList(data.aliases) });
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {payee ? 'Editar Favorecido' : 'Novo Favorecido'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: iFood, Padaria do João..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="aliases"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Padrões de descrição</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={'PAG*IFOOD\nPIX ENVIADO JOSE S*'}
+                      className="resize-none font-mono text-sm"
+                      rows={4}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Um padrão por linha; use * como curinga. O próprio nome também é usado. Maiúsculas, acentos e pontuação são ignorados.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,555 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { getCategoryColor, getCategoryIcon } from '@/lib/categories';
+import { FREQUENCY_LABELS, RecurringRule, describeRecurrence } from '@/lib/recurrence';
+
+const paymentMethods = [
+  { value: 'pix', label: 'Pix' },
+  { value: 'boleto', label: 'Boleto' },
+  { value: 'credito', label: 'Crédito' },
+  { value: 'debito', label: 'Débito' },
+  { value: 'dinheiro', label: 'Dinheiro' },
+  { value: 'transferencia', label: 'Transferência' },
+] as const;
+
+const isPositiveInteger = (val: string | undefined) => !val || (Number.isInteger(Number(val)) && Number(val) >= 1);
+
+const formSchema = z.object({
+  type: z.enum(['income', 'expense']),
+  description: z.string().trim().min(1, 'Descrição é obrigatória').max(500, 'Descrição muito longa'),
+  amount: z.string().min(1, 'Valor é obrigatório').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num > 0;
+  }, 'Valor deve ser maior que zero'),
+  account_id: z.string().optional(),
+  category_id: z.string().optional(),
+  payment_method: z.enum(['pix', 'boleto', 'credito', 'debito', 'dinheiro', 'transferencia']),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.string().refine(isPositiveInteger, 'Intervalo inválido'),
+  day_of_month: z.string().optional().refine(
+    (val) => !val || (Number.isInteger(Number(val)) && Number(val) >= 1 && Number(val) <= 31),
+    'Informe um dia entre 1 e 31'
+  ),
+  start_date: z.date(),
+  end_mode: z.enum(['never', 'date', 'count']),
+  end_date: z.date().optional(),
+  occurrence_count: z.string().optional().refine(isPositiveInteger, 'Quantidade inválida'),
+  notes: z.string().max(1000, 'Observação muito longa').optional(),
+  is_active: z.boolean(),
+}).superRefine((data, ctx) => {
+  if (data.end_mode === 'date' && !data.end_date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['end_date'], message: 'Data final é obrigatória' });
+  }
+  if (data.end_mode === 'date' && data.end_date && data.end_date < data.start_date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['end_date'], message: 'Data final deve ser após o início' });
+  }
+  if (data.end_mode === 'count' && !data.occurrence_count) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['occurrence_count'], message: 'Quantidade é obrigatória' });
+  }
+});
+
+export type RecurringRuleFormData = z.infer<typeof formSchema>;
+
+const NO_CATEGORY = 'none';
+const NO_ACCOUNT = 'none';
+
+const emptyValues = (): RecurringRuleFormData => ({
+  type: 'expense',
+  description: '',
+  amount: '',
+  account_id: '',
+  category_id: '',
+  payment_method: 'pix',
+  frequency: 'monthly',
+  interval: '1',
+  day_of_month: '',
+  start_date: new Date(),
+  end_mode: 'never',
+  end_date: undefined,
+  occurrence_count: '',
+  notes: '',
+  is_active: true,
+});
+
+interface RecurringRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: RecurringRule | null;
+  onSubmit: (data: RecurringRuleFormData) => Promise<void>;
+}
+
+export function RecurringRuleDialog({
+  open,
+  onOpenChange,
+  rule,
+  onSubmit,
+}: RecurringRuleDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { selectedProfile } = useProfiles();
+  const { categories, categoriesById } = useCategories(selectedProfile?.id);
+  const { accounts } = useAccounts(selectedProfile?.id);
+
+  const form = useForm<RecurringRuleFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues(),
+  });
+
+  useEffect(() => {
+    if (rule) {
+      form.reset({
+        type: rule.type,
+        description: rule.description,
+        amount: Number(rule.amount).toString().replace('.', ','),
+        account_id: rule.account_id || '',
+        category_id: rule.category_id || '',
+        payment_method: rule.payment_method,
+        frequency: rule.frequency,
+        interval: rule.interval.toString(),
+        day_of_month: rule.day_of_month?.toString() || '',
+        start_date: parseISO(rule.start_date),
+        end_mode: rule.end_date ? 'date' : rule.occurrence_count ? 'count' : 'never',
+        end_date: rule.end_date ? parseISO(rule.end_date) : undefined,
+        occurrence_count: rule.occurrence_count?.toString() || '',
+        notes: rule.notes || '',
+        is_active: rule.is_active,
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+  }, [rule, form, open]);
+
+  const type = form.watch('type');
+  const frequency = form.watch('frequency');
+  const endMode = form.watch('end_mode');
+  const typeCategories = categories.filter(c => c.type === type);
+  const usesDayOfMonth = frequency === 'monthly' || frequency === 'yearly';
+
+  const summary = describeRecurrence({
+    frequency,
+    interval: Number(form.watch('interval')) || 1,
+    day_of_month: Number(form.watch('day_of_month')) || null,
+    start_date: format(form.watch('start_date') ?? new Date(), 'yyyy-MM-dd'),
+  });
+
+  const handleSubmit = async (data: RecurringRuleFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderDatePicker = (value: Date | undefined, onChange: (date: Date | undefined) => void) => (
+    <Popover>
+      <PopoverTrigger asChild>
+        <FormControl>
+          <Button
+            variant="outline"
+            className={cn('w-full pl-3 text-left font-normal', !value && 'text-muted-foreground')}
+          >
+            {value ? format(value, 'dd/MM/yyyy') : 'Selecionar data'}
+            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+          </Button>
+        </FormControl>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          onSelect={onChange}
+          initialFocus
+          className="pointer-events-auto"
+        />
+      </PopoverContent>
+    </Popover>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {rule ? 'Editar Recorrência' : 'Nova Recorrência'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue('category_id', '');
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="expense">Despesa</SelectItem>
+                        <SelectItem value="income">Receita</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor (R$)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0,00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Aluguel, Salário, Netflix..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_CATEGORY ? '' : value)}
+                      value={field.value || NO_CATEGORY}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecionar" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                        {typeCategories.map((category) => {
+                          const CategoryIcon = getCategoryIcon(category, categoriesById);
+                          return (
+                            <SelectItem key={category.id} value={category.id}>
+                              <span className={cn('flex items-center gap-2', category.parent_id && 'pl-5')}>
+                                <CategoryIcon
+                                  className="h-4 w-4"
+                                  style={{ color: getCategoryColor(category, categoriesById) }}
+                                />
+                                {category.name}
+                              </span>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Conta</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_ACCOUNT ? '' : value)}
+                      value={field.value || NO_ACCOUNT}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecionar" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            <span className="flex items-center gap-2">
+                              <span
+                                className="w-2.5 h-2.5 rounded-full"
+                                style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+                              />
+                              {account.name}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="payment_method"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Forma de Pagamento</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecionar" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {paymentMethods.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="rounded-lg border p-4 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Frequência</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repetir a cada</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="day_of_month"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dia do mês</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={31}
+                          placeholder={format(form.watch('start_date') ?? new Date(), 'd')}
+                          disabled={!usesDayOfMonth}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="start_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Início</FormLabel>
+                      {renderDatePicker(field.value, field.onChange)}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="end_mode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Término</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="never">Sem término</SelectItem>
+                          <SelectItem value="date">Em uma data</SelectItem>
+                          <SelectItem value="count">Após N vezes</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {endMode === 'date' && (
+                  <FormField
+                    control={form.control}
+                    name="end_date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Data final</FormLabel>
+                        {renderDatePicker(field.value, field.onChange)}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {endMode === 'count' && (
+                  <FormField
+                    control={form.control}
+                    name="occurrence_count"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ocorrências</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} placeholder="Ex: 12" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <p className="text-sm text-muted-foreground">{summary}</p>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observação</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Notas adicionais (opcional)" rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3 space-y-0">
+                  <FormLabel className="font-normal">Gerar lançamentos automaticamente</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
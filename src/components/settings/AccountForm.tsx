@@ -0,0 +1,306 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Account, ACCOUNT_TYPE_LABELS, DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+
+const colors = [
+  DEFAULT_ACCOUNT_COLOR,
+  '#7c3aed', // Purple
+  '#ea580c', // Orange
+  '#dc2626', // Red
+  '#ca8a04', // Yellow
+  '#2563eb', // Blue
+  '#16a34a', // Green
+  '#475569', // Gray
+];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
+  institution: z.string().max(100, 'Instituição muito longa').optional(),
+  type: z.enum(['checking', 'savings', 'cash', 'credit']),
+  opening_balance: z.string().refine((val) => {
+    if (!val) return true;
+    return !isNaN(parseFloat(val.replace(',', '.')));
+  }, 'Saldo inválido'),
+  color: z.string(),
+  closing_day: z.string().optional(),
+  due_day: z.string().optional(),
+  credit_limit: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.type !== 'credit') return;
+  (['closing_day', 'due_day'] as const).forEach((field) => {
+    const day = Number(data[field]);
+    if (!data[field] || !Number.isInteger(day) || day < 1 || day > 31) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'Informe um dia entre 1 e 31' });
+    }
+  });
+  if (data.credit_limit && isNaN(parseFloat(data.credit_limit.replace(',', '.')))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['credit_limit'], message: 'Limite inválido' });
+  }
+});
+
+export type AccountFormData = z.infer<typeof formSchema>;
+
+interface AccountFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: Account | null;
+  onSubmit: (data: AccountFormData) => Promise<void>;
+}
+
+export function AccountForm({
+  open,
+  onOpenChange,
+  account,
+  onSubmit,
+}: AccountFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<AccountFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      institution: '',
+      type: 'checking',
+      opening_balance: '',
+      color: colors[0],
+      closing_day: '',
+      due_day: '',
+      credit_limit: '',
+    },
+  });
+
+  const isCredit = form.watch('type') === 'credit';
+
+  useEffect(() => {
+    if (account) {
+      form.reset({
+        name: account.name,
+        institution: account.institution || '',
+        type: account.type,
+        opening_balance: Number(account.opening_balance).toString().replace('.', ','),
+        color: account.color || colors[0],
+        closing_day: account.closing_day?.toString() || '',
+        due_day: account.due_day?.toString() || '',
+        credit_limit: account.credit_limit != null ? Number(account.credit_limit).toString().replace('.', ',') : '',
+      });
+    } else {
+      form.reset({
+        name: '',
+        institution: '',
+        type: 'checking',
+        opening_balance: '',
+        color: colors[0],
+        closing_day: '',
+        due_day: '',
+        credit_limit: '',
+      });
+    }
+  }, [account, form, open]);
+
+  const handleSubmit = async (data: AccountFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {account ? 'Editar Conta' : 'Nova Conta'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome da Conta</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Nubank, Itaú Corrente, Carteira..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="institution"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Instituição (opcional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Nubank" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="opening_balance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Saldo Inicial (R$)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="0,00" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isCredit && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="closing_day"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dia de fechamento</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={31} placeholder="Ex: 3" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="due_day"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dia de vencimento</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={31} placeholder="Ex: 10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="credit_limit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Limite (R$)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0,00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cor</FormLabel>
+                  <FormControl>
+                    <div className="flex flex-wrap gap-2">
+                      {colors.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => field.onChange(color)}
+                          className={`w-8 h-8 rounded-full transition-all ${
+                            field.value === color
+                              ? 'ring-2 ring-offset-2 ring-primary scale-110'
+                              : 'hover:scale-105'
+                          }`}
+                          style={{ backgroundColor: color }}
+                        />
+                      ))}
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Edit2, Trash2, Plus } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccountBalances } from '@/hooks/useAccounts';
+import { Account, ACCOUNT_TYPE_LABELS, DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { formatMoney } from '@/lib/currency';
+import { AccountForm, AccountFormData } from '@/components/settings/AccountForm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+
+export function AccountsManager() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [deleteAccountId, setDeleteAccountId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { accounts, balances } = useAccountBalances(selectedProfile?.id);
+  const queryClient = useQueryClient();
+
+  const formatCurrency = (value: number) => formatMoney(value, selectedProfile?.base_currency);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AccountFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const isCredit = data.type === 'credit';
+      const values = {
+        name: data.name,
+        institution: data.institution?.trim() || null,
+        type: data.type,
+        opening_balance: data.opening_balance ? parseFloat(data.opening_balance.replace(',', '.')) : 0,
+        color: data.color,
+        closing_day: isCredit ? Number(data.closing_day) : null,
+        due_day: isCredit ? Number(data.due_day) : null,
+        credit_limit: isCredit && data.credit_limit ? parseFloat(data.credit_limit.replace(',', '.')) : null,
+      };
+
+      const { error } = editingAccount
+        ? await supabase
+            .from('accounts')
+            .update(values)
+            .eq('id', editingAccount.id)
+        : await supabase
+            .from('accounts')
+            .insert({
+              ...values,
+              profile_id: selectedProfile.id,
+              user_id: user.id,
+            });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe uma conta com este nome');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success(editingAccount ? 'Conta atualizada com sucesso!' : 'Conta criada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar conta: ' + error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Conta excluída com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir conta: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingAccount(null);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingAccount(account);
+    setFormOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteAccountId) {
+      deleteMutation.mutate(deleteAccountId);
+      setDeleteAccountId(null);
+    }
+  };
+
+  return (
+    <Card className="card-finance animate-slide-up" style={{ animationDelay: '125ms' }}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-display">Contas e Carteiras</CardTitle>
+          <CardDescription>
+            Contas bancárias, cartões e carteiras de {selectedProfile?.name || 'seu perfil'}
+          </CardDescription>
+        </div>
+        <Button onClick={handleOpenNew} className="gap-2 press-effect" disabled={!selectedProfile}>
+          <Plus className="h-4 w-4" />
+          Nova Conta
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {accounts.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">
+              {selectedProfile
+                ? 'Nenhuma conta cadastrada. Crie uma conta para acompanhar seu saldo.'
+                : 'Selecione um perfil para gerenciar suas contas.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {accounts.map((account) => {
+              const balance = balances[account.id] ?? 0;
+              return (
+                <div
+                  key={account.id}
+                  className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/30 transition-all duration-200"
+                >
+                  <div className="flex items-center gap-4">
+                    <div
+                      className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-semibold shadow-sm"
+                      style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+                    >
+                      {account.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div>
+                      <p className="font-medium text-foreground">{account.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {ACCOUNT_TYPE_LABELS[account.type]}
+                        {account.institution && account.institution !== account.name && ` · ${account.institution}`}
+                        {account.type === 'credit' && account.closing_day && account.due_day &&
+                          ` · fecha dia ${account.closing_day}, vence dia ${account.due_day}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className={cn('font-semibold', balance >= 0 ? 'text-income' : 'text-expense')}>
+                      {formatCurrency(balance)}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleEdit(account)}
+                        className="transition-colors duration-200"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive transition-colors duration-200"
+                        onClick={() => setDeleteAccountId(account.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AccountForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        account={editingAccount}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deleteAccountId} onOpenChange={() => setDeleteAccountId(null)}>
+        <AlertDialogContent className="animate-scale-in">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir conta</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir esta conta? Os lançamentos associados serão mantidos,
+              mas ficarão sem conta vinculada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
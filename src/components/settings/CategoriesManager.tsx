@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Edit2, Trash2, Plus, TrendingDown, TrendingUp } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import { Category, CategoryType, getCategoryColor, getCategoryIcon } from '@/lib/categories';
+import { CategoryForm, CategoryFormData } from '@/components/settings/CategoryForm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+
+export function CategoriesManager() {
+  const [activeType, setActiveType] = useState<CategoryType>('expense');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deleteCategoryId, setDeleteCategoryId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { categories, categoriesById } = useCategories(selectedProfile?.id);
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['categories'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CategoryFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const values = {
+        name: data.name,
+        parent_id: data.parent_id || null,
+        icon: data.icon || null,
+        color: data.color,
+      };
+
+      const { error } = editingCategory
+        ? await supabase
+            .from('categories')
+            .update(values)
+            .eq('id', editingCategory.id)
+        : await supabase
+            .from('categories')
+            .insert({
+              ...values,
+              type: data.type,
+              profile_id: selectedProfile.id,
+              user_id: user.id,
+            });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe uma categoria com este nome');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success(editingCategory ? 'Categoria atualizada com sucesso!' : 'Categoria criada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar categoria: ' + error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Categoria excluída com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir categoria: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingCategory(null);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteCategoryId) {
+      deleteMutation.mutate(deleteCategoryId);
+      setDeleteCategoryId(null);
+    }
+  };
+
+  const renderList = (type: CategoryType) => {
+    const items = categories.filter(c => c.type === type);
+
+    if (items.length === 0) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">Nenhuma categoria cadastrada.</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {items.map((category) => {
+          const CategoryIcon = getCategoryIcon(category, categoriesById);
+          const color = getCategoryColor(category, categoriesById);
+          return (
+            <div
+              key={category.id}
+              className={cn(
+                'flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-muted/30 transition-all duration-200',
+                category.parent_id && 'ml-8'
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <div
+                  className="w-8 h-8 rounded-lg flex items-center justify-center"
+                  style={{ backgroundColor: `${color}1a`, color }}
+                >
+                  <CategoryIcon className="h-4 w-4" />
+                </div>
+                <p className="font-medium text-foreground">{category.name}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleEdit(category)}
+                  className="transition-colors duration-200"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive transition-colors duration-200"
+                  onClick={() => setDeleteCategoryId(category.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="card-finance animate-slide-up" style={{ animationDelay: '150ms' }}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-display">Categorias</CardTitle>
+          <CardDescription>
+            Organize os lançamentos de {selectedProfile?.name || 'seu perfil'} em categorias e subcategorias
+          </CardDescription>
+        </div>
+        <Button onClick={handleOpenNew} className="gap-2 press-effect" disabled={!selectedProfile}>
+          <Plus className="h-4 w-4" />
+          Nova Categoria
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!selectedProfile ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">
+              Selecione um perfil para gerenciar suas categorias.
+            </p>
+          </div>
+        ) : (
+          <Tabs value={activeType} onValueChange={(v) => setActiveType(v as CategoryType)}>
+            <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsTrigger value="expense" className="gap-2">
+                <TrendingDown className="h-4 w-4" />
+                Despesas
+              </TabsTrigger>
+              <TabsTrigger value="income" className="gap-2">
+                <TrendingUp className="h-4 w-4" />
+                Receitas
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="expense" className="mt-4">
+              {renderList('expense')}
+            </TabsContent>
+            <TabsContent value="income" className="mt-4">
+              {renderList('income')}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      <CategoryForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        category={editingCategory}
+        defaultType={activeType}
+        categories={categories}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deleteCategoryId} onOpenChange={() => setDeleteCategoryId(null)}>
+        <AlertDialogContent className="animate-scale-in">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir categoria</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir esta categoria? As subcategorias também serão excluídas
+              e os lançamentos associados ficarão sem categoria.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Category, CategoryType, CATEGORY_ICONS, DEFAULT_CATEGORY_COLOR } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+const colors = [
+  DEFAULT_CATEGORY_COLOR,
+  '#0891b2',
+  '#7c3aed',
+  '#dc2626',
+  '#ea580c',
+  '#16a34a',
+  '#2563eb',
+  '#db2777',
+  '#854d0e',
+];
+
+const NO_PARENT = 'none';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(60, 'Nome muito longo'),
+  type: z.enum(['income', 'expense']),
+  parent_id: z.string(),
+  icon: z.string(),
+  color: z.string(),
+});
+
+export type CategoryFormData = z.infer<typeof formSchema>;
+
+interface CategoryFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  category?: Category | null;
+  defaultType: CategoryType;
+  categories: Category[];
+  onSubmit: (data: CategoryFormData) => Promise<void>;
+}
+
+export function CategoryForm({
+  open,
+  onOpenChange,
+  category,
+  defaultType,
+  categories,
+  onSubmit,
+}: CategoryFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      type: defaultType,
+      parent_id: NO_PARENT,
+      icon: '',
+      color: colors[0],
+    },
+  });
+
+  useEffect(() => {
+    if (category) {
+      form.reset({
+        name: category.name,
+        type: category.type,
+        parent_id: category.parent_id || NO_PARENT,
+        icon: category.icon || '',
+        color: category.color || colors[0],
+      });
+    } else {
+      form.reset({
+        name: '',
+        type: defaultType,
+        parent_id: NO_PARENT,
+        icon: '',
+        color: colors[0],
+      });
+    }
+  }, [category, defaultType, form, open]);
+
+  const selectedType = form.watch('type');
+  const hasChildren = !!category && categories.some(c => c.parent_id === category.id);
+
+  // Only one level of nesting: parents must be root categories of the same type
+  const parentOptions = categories.filter(
+    c => !c.parent_id && c.type === selectedType && c.id !== category?.id
+  );
+
+  const handleSubmit = async (data: CategoryFormData) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ ...data, parent_id: data.parent_id === NO_PARENT ? '' : data.parent_id });
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {category ? 'Editar Categoria' : 'Nova Categoria'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Supermercado, Aluguel..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue('parent_id', NO_PARENT);
+                      }}
+                      value={field.value}
+                      disabled={!!category}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="expense">Despesa</SelectItem>
+                        <SelectItem value="income">Receita</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="parent_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria pai</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={hasChildren}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>Nenhuma</SelectItem>
+                        {parentOptions.map((parent) => (
+                          <SelectItem key={parent.id} value={parent.id}>
+                            {parent.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="icon"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ícone</FormLabel>
+                  <FormControl>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                        <button
+                          key={name}
+                          type="button"
+                          onClick={() => field.onChange(name)}
+                          className={cn(
+                            'w-8 h-8 rounded-lg border flex items-center justify-center transition-all',
+                            field.value === name
+                              ? 'ring-2 ring-offset-2 ring-primary bg-accent'
+                              : 'hover:bg-muted'
+                          )}
+                        >
+                          <Icon className="h-4 w-4" />
+                        </button>
+                      ))}
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cor</FormLabel>
+                  <FormControl>
+                    <div className="flex flex-wrap gap-2">
+                      {colors.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => field.onChange(color)}
+                          className={`w-8 h-8 rounded-full transition-all ${
+                            field.value === color
+                              ? 'ring-2 ring-offset-2 ring-primary scale-110'
+                              : 'hover:scale-105'
+                          }`}
+                          style={{ backgroundColor: color }}
+                        />
+                      ))}
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
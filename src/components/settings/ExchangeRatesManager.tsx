@@ -0,0 +1,308 @@
+import { useEffect, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
+import { canEditProfile } from '@/lib/members';
+import { ExchangeRateData, parseExchangeRatesCSV } from '@/lib/csv';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const formSchema = z.object({
+  rate_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida'),
+  from_currency: z.string().regex(/^[A-Z]{3}$/),
+  to_currency: z.string().regex(/^[A-Z]{3}$/),
+  rate: z.string().min(1, 'Taxa é obrigatória').refine((val) => {
+    const num = parseFloat(val.replace(',', '.'));
+    return !isNaN(num) && num > 0;
+  }, 'Taxa deve ser maior que zero'),
+}).refine((data) => data.from_currency !== data.to_currency, {
+  path: ['to_currency'],
+  message: 'Escolha moedas diferentes',
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+export function ExchangeRatesManager() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const baseCurrency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { rates } = useExchangeRates(selectedProfile?.id, baseCurrency);
+  const canEdit = canEditProfile(selectedProfile?.role);
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      rate_date: format(new Date(), 'yyyy-MM-dd'),
+      from_currency: baseCurrency === 'USD' ? 'EUR' : 'USD',
+      to_currency: baseCurrency,
+      rate: '',
+    },
+  });
+
+  useEffect(() => {
+    form.setValue('to_currency', baseCurrency);
+  }, [baseCurrency, form]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['exchange_rates'] });
+    queryClient.invalidateQueries({ queryKey: ['kpi'] });
+    queryClient.invalidateQueries({ queryKey: ['chart'] });
+  };
+
+  // A rate for the same pair and date replaces the one stored in the profile
+  const saveMutation = useMutation({
+    mutationFn: async (values: ExchangeRateData[]) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          values.map(v => ({ ...v, profile_id: selectedProfile.id, user_id: user.id })),
+          { onConflict: 'profile_id,from_currency,to_currency,rate_date' }
+        );
+
+      if (error) throw error;
+      return values.length;
+    },
+    onSuccess: (count) => {
+      invalidate();
+      toast.success(count === 1 ? 'Cotação salva com sucesso!' : `${count} cotações importadas com sucesso!`);
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar cotação: ' + error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Cotação excluída com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir cotação: ' + error.message);
+    },
+  });
+
+  const handleSubmit = async (data: FormData) => {
+    await saveMutation.mutateAsync([{
+      from_currency: data.from_currency,
+      to_currency: data.to_currency,
+      rate: parseFloat(data.rate.replace(',', '.')),
+      rate_date: data.rate_date,
+    }]);
+    form.setValue('rate', '');
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const { rates: parsed, errors } = parseExchangeRatesCSV(e.target?.result as string, baseCurrency);
+        if (errors.length > 0) {
+          const first = errors[0];
+          toast.error(`Linha ${first.row}: ${first.message}` + (errors.length > 1 ? ` (e mais ${errors.length - 1} erros)` : ''));
+          return;
+        }
+        if (parsed.length === 0) {
+          toast.error('Nenhuma cotação encontrada no arquivo');
+          return;
+        }
+        saveMutation.mutate(parsed);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Erro ao processar o arquivo CSV');
+      }
+    };
+    reader.onerror = () => {
+      toast.error('Erro ao ler o arquivo');
+    };
+    reader.readAsText(file, 'UTF-8');
+  };
+
+  const currencySelect = (value: string, onChange: (value: string) => void) => (
+    <Select onValueChange={onChange} value={value}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {CURRENCIES.map((c) => (
+          <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="card-finance animate-slide-up" style={{ animationDelay: '175ms' }}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-display">Câmbio</CardTitle>
+          <CardDescription>
+            Cotações usadas para converter lançamentos em outras moedas para a moeda base do perfil ({baseCurrency}),
+            as mesmas para todos os membros
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2 press-effect">
+              <Upload className="h-4 w-4" />
+              Importar CSV
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleFile} />
+          </>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-2 md:grid-cols-[1fr_100px_100px_1fr_auto] gap-3 items-end">
+              <FormField
+                control={form.control}
+                name="rate_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="from_currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>1 unidade de</FormLabel>
+                    {currencySelect(field.value, field.onChange)}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="to_currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Em</FormLabel>
+                    {currencySelect(field.value, field.onChange)}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Taxa</FormLabel>
+                    <FormControl>
+                      <Input placeholder="5,4321" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="gap-2 press-effect" disabled={saveMutation.isPending}>
+                <Plus className="h-4 w-4" />
+                Adicionar
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Nenhuma cotação cadastrada. Sem cotação, lançamentos em outras moedas não entram nos totais convertidos.
+          </p>
+        ) : (
+          <ScrollArea className="h-[240px] rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Par</TableHead>
+                  <TableHead className="text-right">Taxa</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{format(parseISO(rate.rate_date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>{rate.from_currency} → {rate.to_currency}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {Number(rate.rate).toLocaleString('pt-BR', { maximumFractionDigits: 8 })}
+                    </TableCell>
+                    <TableCell>
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => deleteMutation.mutate(rate.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,10 @@ import { ptBR } from 'date-fns/locale';
 import { supabase } from '@/integrations/supabase/client';
 import { useProfiles, Profile } from '@/contexts/ProfileContext';
 import { transactionsToCSV, downloadCSV, TransactionData } from '@/lib/csv';
+import { sortSplits } from '@/lib/splits';
+import { Category, getCategoryLabels } from '@/lib/categories';
+import { DEFAULT_MONTH_START, getMonthPeriod, getYearPeriod, isCalendarMonth, toDateRange } from '@/lib/period';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -45,7 +49,13 @@ export function ExportCSVDialog({ open, onOpenChange }: ExportCSVDialogProps) {
   const [includeExpense, setIncludeExpense] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
 
-  const { profiles, selectedProfile } = useProfiles();
+  const { profiles, archivedProfiles, selectedProfile } = useProfiles();
+  const { monthStart: profileMonthStart } = useProfileSettings(selectedProfileId !== 'all' ? selectedProfileId : undefined);
+  // A single profile is exported by its financial months; all profiles together by calendar months
+  const monthStart = selectedProfileId !== 'all' ? profileMonthStart : DEFAULT_MONTH_START;
+  const period = selectedMonth !== 'all'
+    ? getMonthPeriod(parseInt(selectedMonth), parseInt(selectedYear), monthStart)
+    : getYearPeriod(parseInt(selectedYear), monthStart);
 
   // Set default profile when dialog opens
   useState(() => {
@@ -68,7 +78,9 @@ export function ExportCSVDialog({ open, onOpenChange }: ExportCSVDialogProps) {
     try {
       let query = supabase
         .from('transactions')
-        .select('*')
+        .select('*, profiles!inner(deleted_at), transaction_tags(tags(name)), transaction_splits(label, amount, notes, position)')
+        .is('deleted_at', null)
+        .is('profiles.deleted_at', null)
         .order('transaction_date', { ascending: false });
 
       // Filter by profile
@@ -77,31 +89,17 @@ export function ExportCSVDialog({ open, onOpenChange }: ExportCSVDialogProps) {
       }
 
       // Filter by date range
-      if (selectedMonth !== 'all') {
-        const month = parseInt(selectedMonth);
-        const year = parseInt(selectedYear);
-        const startDate = new Date(year, month, 1);
-        const endDate = new Date(year, month + 1, 0);
-        
-        query = query
-          .gte('transaction_date', startDate.toISOString().split('T')[0])
-          .lte('transaction_date', endDate.toISOString().split('T')[0]);
-      } else {
-        // Filter by year only
-        const year = parseInt(selectedYear);
-        query = query
-          .gte('transaction_date', `${year}-01-01`)
-          .lte('transaction_date', `${year}-12-31`);
-      }
+      const range = toDateRange(period);
+      query = query
+        .gte('transaction_date', range.start)
+        .lte('transaction_date', range.end);
 
-      // Filter by type
-      const types: string[] = [];
+      // Filter by type (transfers are not part of the CSV format)
+      const types: ('income' | 'expense')[] = [];
       if (includeIncome) types.push('income');
       if (includeExpense) types.push('expense');
-      
-      if (types.length === 1) {
-        query = query.eq('type', types[0] as 'income' | 'expense');
-      }
+
+      query = query.in('type', types);
 
       const { data, error } = await query;
 
@@ -113,23 +111,41 @@ export function ExportCSVDialog({ open, onOpenChange }: ExportCSVDialogProps) {
         return;
       }
 
+      const { data: accounts, error: accountsError } = await supabase
+        .from('accounts')
+        .select('id, name');
+
+      if (accountsError) throw accountsError;
+
+      const accountNames: Record<string, string> = Object.fromEntries(accounts.map(a => [a.id, a.name]));
+
       const transactions: TransactionData[] = data.map(t => ({
         id: t.id,
         description: t.description,
         amount: Number(t.amount),
+        currency: t.currency,
         type: t.type as 'income' | 'expense',
         payment_method: t.payment_method as TransactionData['payment_method'],
-        payment_source: t.payment_source,
+        payment_source: accountNames[t.account_id] ?? t.payment_source,
         transaction_date: t.transaction_date,
         notes: t.notes,
+        category_id: t.category_id,
+        tags: t.transaction_tags.map(tt => tt.tags?.name).filter(Boolean),
+        splits: sortSplits(t.transaction_splits),
       }));
 
-      const csvContent = transactionsToCSV(transactions);
+      const { data: categories, error: categoriesError } = await supabase
+        .from('categories')
+        .select('*');
+
+      if (categoriesError) throw categoriesError;
+
+      const csvContent = transactionsToCSV(transactions, getCategoryLabels(categories as Category[]));
 
       // Generate filename
       const profileName = selectedProfileId === 'all' 
         ? 'todos-perfis' 
-        : profiles.find(p => p.id === selectedProfileId)?.name.toLowerCase().replace(/\s+/g, '-') || 'perfil';
+        : [...profiles, ...archivedProfiles].find(p => p.id === selectedProfileId)?.name.toLowerCase().replace(/\s+/g, '-') || 'perfil';
       
       const dateRange = selectedMonth === 'all' 
         ? selectedYear 
@@ -175,6 +191,11 @@ export function ExportCSVDialog({ open, onOpenChange }: ExportCSVDialogProps) {
                     {profile.name}
                   </SelectItem>
                 ))}
+                {archivedProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name} (arquivado)
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -215,6 +236,12 @@ export function ExportCSVDialog({ open, onOpenChange }: ExportCSVDialogProps) {
             </div>
           </div>
 
+          {!isCalendarMonth(monthStart) && (
+            <p className="text-xs text-muted-foreground -mt-2">
+              Período pelo mês financeiro do perfil: {format(period.start, 'dd/MM/yyyy')} a {format(period.end, 'dd/MM/yyyy')}
+            </p>
+          )}
+
           {/* Transaction type filter */}
           <div className="space-y-3">
             <Label>Tipos de transação</Label>
@@ -6,6 +6,9 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useProfiles } from '@/contexts/ProfileContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { linkTransactionTags } from '@/hooks/useTags';
 import { parseCSV, validateTransactions, TransactionCSV, ValidationError, MAX_IMPORT_BATCH_SIZE } from '@/lib/csv';
 import {
   Dialog,
@@ -50,6 +53,8 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
 
   const { selectedProfile, profiles } = useProfiles();
   const { user } = useAuth();
+  const { categories } = useCategories(selectedProfile?.id);
+  const { accounts } = useAccounts(selectedProfile?.id);
   const queryClient = useQueryClient();
 
   const resetState = () => {
@@ -91,7 +96,7 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
         }
         
         // Validate and sanitize data
-        const validationResult = validateTransactions(parsed);
+        const validationResult = validateTransactions(parsed, { categories, accounts });
         setValidationErrors(validationResult.errors);
         
         setParsedData(parsed);
@@ -104,7 +109,7 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
       setError('Erro ao ler o arquivo');
     };
     reader.readAsText(file, 'UTF-8');
-  }, []);
+  }, [categories, accounts]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -122,7 +127,7 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
       }
 
       // Use validated transactions instead of raw parsed data
-      const validationResult = validateTransactions(parsedData);
+      const validationResult = validateTransactions(parsedData, { categories, accounts });
       
       if (!validationResult.valid) {
         throw new Error(`Existem ${validationResult.errors.length} erro(s) de validação. Corrija-os antes de importar.`);
@@ -140,16 +145,36 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
       // Import in batches of 50
       const batchSize = 50;
       for (let i = 0; i < transactions.length; i += batchSize) {
-        const batch = transactions.slice(i, i + batchSize).map(t => ({
+        const batchTransactions = transactions.slice(i, i + batchSize);
+        const batch = batchTransactions.map(({ tags, splits, ...t }) => ({
           ...t,
           profile_id: selectedProfile.id,
           user_id: user.id,
         }));
 
-        const { error } = await supabase.from('transactions').insert(batch);
+        const { data: inserted, error } = await supabase.from('transactions').insert(batch).select('id');
         
         if (error) throw new Error('Erro ao salvar transações. Tente novamente.');
 
+        // Rows come back in insertion order
+        await linkTransactionTags(selectedProfile.id, user.id, inserted.map((row, index) => ({
+          transactionId: row.id,
+          tagNames: batchTransactions[index].tags ?? [],
+        })));
+
+        const splitRows = inserted.flatMap((row, index) => (batchTransactions[index].splits ?? []).map((split, position) => ({
+          transaction_id: row.id,
+          user_id: user.id,
+          position,
+          label: split.label,
+          amount: split.amount,
+          notes: split.notes,
+        })));
+        if (splitRows.length > 0) {
+          const { error: splitsError } = await supabase.from('transaction_splits').insert(splitRows);
+          if (splitsError) throw new Error('Erro ao salvar divisões. Tente novamente.');
+        }
+
         imported += batch.length;
         setImportedCount(imported);
         setProgress(Math.round((imported / transactions.length) * 100));
@@ -161,6 +186,7 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['kpi'] });
       queryClient.invalidateQueries({ queryKey: ['chart'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
       setStep('complete');
       toast.success(`${count} transações importadas com sucesso!`);
     },
@@ -230,8 +256,9 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
                   <li><strong>Descrição</strong> (obrigatório): Nome da transação</li>
                   <li><strong>Valor</strong> (obrigatório): Valor em R$ (ex: 1.234,56)</li>
                   <li><strong>Tipo</strong>: "Receita" ou "Despesa"</li>
+                  <li><strong>Categoria</strong>: Nome da categoria (ex: Alimentação › Supermercado)</li>
                   <li><strong>Forma de Pagamento</strong>: PIX, Boleto, Crédito, Débito, Dinheiro, Transferência</li>
-                  <li><strong>Fonte/Cartão</strong>: Nome do banco ou cartão</li>
+                  <li><strong>Fonte/Cartão</strong>: Nome da conta, banco ou cartão</li>
                   <li><strong>Data</strong>: Formato DD/MM/AAAA</li>
                   <li><strong>Observação</strong>: Notas adicionais</li>
                 </ul>
@@ -283,9 +310,12 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
                       <TableHead className="w-[200px]">Descrição</TableHead>
                       <TableHead className="text-right">Valor</TableHead>
                       <TableHead>Tipo</TableHead>
+                      <TableHead>Categoria</TableHead>
                       <TableHead>Pagamento</TableHead>
                       <TableHead>Fonte</TableHead>
                       <TableHead>Data</TableHead>
+                      <TableHead>Tags</TableHead>
+                      <TableHead>Divisão</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -294,15 +324,18 @@ export function ImportCSVDialog({ open, onOpenChange }: ImportCSVDialogProps) {
                         <TableCell className="font-medium truncate max-w-[200px]">
                           {row.descricao || '-'}
                         </TableCell>
-                        <TableCell className="text-right">{row.valor}</TableCell>
+                        <TableCell className="text-right">{row.valor}{row.moeda && ` ${row.moeda.toUpperCase()}`}</TableCell>
                         <TableCell>
                           <Badge variant={row.tipo.toLowerCase().includes('receita') ? 'default' : 'secondary'}>
                             {row.tipo || 'Despesa'}
                           </Badge>
                         </TableCell>
+                        <TableCell className="truncate max-w-[120px]">{row.categoria || '-'}</TableCell>
                         <TableCell>{row.forma_pagamento || 'PIX'}</TableCell>
                         <TableCell className="truncate max-w-[100px]">{row.fonte_pagamento || '-'}</TableCell>
                         <TableCell>{row.data || '-'}</TableCell>
+                        <TableCell className="truncate max-w-[120px]">{row.tags || '-'}</TableCell>
+                        <TableCell className="truncate max-w-[160px]">{row.divisao || '-'}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Merge } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { canEditProfile } from '@/lib/members';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface MergeProfilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MergeProfilesDialog({ open, onOpenChange }: MergeProfilesDialogProps) {
+  const [sourceProfileId, setSourceProfileId] = useState('');
+  const [targetProfileId, setTargetProfileId] = useState('');
+  const { profiles, selectedProfile, setSelectedProfile } = useProfiles();
+  const queryClient = useQueryClient();
+
+  // Only the owner can merge a profile away; the target only needs write access
+  const sourceProfiles = profiles.filter(p => p.role === 'owner');
+  const targetProfiles = profiles.filter(p => p.id !== sourceProfileId && canEditProfile(p.role));
+  const source = profiles.find(p => p.id === sourceProfileId);
+  const target = profiles.find(p => p.id === targetProfileId);
+
+  useEffect(() => {
+    if (open) {
+      setSourceProfileId('');
+      setTargetProfileId('');
+    }
+  }, [open]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('merge_profiles', {
+        _source_profile_id: sourceProfileId,
+        _target_profile_id: targetProfileId,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi'] });
+      queryClient.invalidateQueries({ queryKey: ['chart'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      if (selectedProfile?.id === sourceProfileId) setSelectedProfile(null);
+      toast.success(`Perfis mesclados! ${count} lançamentos movidos para ${target?.name}.`);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error('Erro ao mesclar perfis: ' + error.message);
+    },
+  });
+
+  const handleSourceChange = (id: string) => {
+    setSourceProfileId(id);
+    if (id === targetProfileId) setTargetProfileId('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display flex items-center gap-2">
+            <Merge className="h-5 w-5" />
+            Mesclar perfis
+          </DialogTitle>
+          <DialogDescription>
+            Junte perfis duplicados levando todos os lançamentos e arquivos para um só
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Perfil de origem</Label>
+            <Select value={sourceProfileId} onValueChange={handleSourceChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o perfil" />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Perfil de destino</Label>
+            <Select value={targetProfileId} onValueChange={setTargetProfileId} disabled={!sourceProfileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o perfil" />
+              </SelectTrigger>
+              <SelectContent>
+                {targetProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {source && target && (
+            <p className="text-sm text-muted-foreground">
+              Todos os lançamentos de <span className="font-medium text-foreground">{source.name}</span>, inclusive
+              os da lixeira, e os extratos enviados passam para{' '}
+              <span className="font-medium text-foreground">{target.name}</span>. Contas, categorias e tags são
+              associadas pelo nome. Depois disso, {source.name} é arquivado.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!sourceProfileId || !targetProfileId || mergeMutation.isPending}
+            className="gap-2"
+          >
+            {mergeMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Mesclar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
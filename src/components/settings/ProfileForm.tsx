@@ -11,6 +11,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -19,7 +20,15 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Profile } from '@/contexts/ProfileContext';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
 
 const colors = [
   '#0891b2', // Teal
@@ -36,6 +45,7 @@ const formSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
   description: z.string().max(500, 'Descrição muito longa').optional(),
   color: z.string(),
+  base_currency: z.string().regex(/^[A-Z]{3}$/, 'Moeda inválida'),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -61,6 +71,7 @@ export function ProfileForm({
       name: '',
       description: '',
       color: colors[0],
+      base_currency: DEFAULT_CURRENCY,
     },
   });
 
@@ -70,12 +81,14 @@ export function ProfileForm({
         name: profile.name,
         description: profile.description || '',
         color: profile.color || colors[0],
+        base_currency: profile.base_currency || DEFAULT_CURRENCY,
       });
     } else {
       form.reset({
         name: '',
         description: '',
         color: colors[0],
+        base_currency: DEFAULT_CURRENCY,
       });
     }
   }, [profile, form, open]);
@@ -161,6 +174,30 @@ export function ProfileForm({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="base_currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Moeda base</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CURRENCIES.map((c) => (
+                        <SelectItem key={c.code} value={c.code}>{c.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Os totais do Dashboard são convertidos para esta moeda.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end gap-3 pt-4">
               <Button 
                 type="button" 
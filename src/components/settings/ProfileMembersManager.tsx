@@ -0,0 +1,291 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { LogOut, Mail, Trash2, UserPlus, X } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfileInvitations, useProfileMembers } from '@/hooks/useProfileMembers';
+import {
+  InvitationRole,
+  PROFILE_ROLE_DESCRIPTIONS,
+  PROFILE_ROLE_LABELS,
+  normalizeEmail,
+} from '@/lib/members';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const INVITATION_ROLES: InvitationRole[] = ['editor', 'viewer'];
+
+const formSchema = z.object({
+  email: z.string().trim().email('E-mail inválido').max(255),
+  role: z.enum(['editor', 'viewer']),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+export function ProfileMembersManager() {
+  const { selectedProfile, setSelectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const isOwner = selectedProfile?.role === 'owner';
+  const { members } = useProfileMembers(selectedProfile?.id);
+  const { invitations } = useProfileInvitations(selectedProfile?.id, isOwner);
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { email: '', role: 'viewer' },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const { error } = await supabase
+        .from('profile_invitations')
+        .insert({
+          profile_id: selectedProfile.id,
+          email: normalizeEmail(data.email),
+          role: data.role,
+          invited_by: user.id,
+        });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe um convite pendente para este e-mail');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile_invitations'] });
+      form.reset({ email: '', role: form.getValues('role') });
+      toast.success('Convite enviado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao enviar convite: ' + error.message);
+    },
+  });
+
+  const cancelInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('profile_invitations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile_invitations'] });
+      toast.success('Convite cancelado!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao cancelar convite: ' + error.message);
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: InvitationRole }) => {
+      const { error } = await supabase
+        .from('profile_members')
+        .update({ role })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile_members'] });
+      toast.success('Permissão atualizada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao atualizar permissão: ' + error.message);
+    },
+  });
+
+  // Removes a member, or the signed-in user when they leave a profile shared with them
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('profile_members')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['profile_members'] });
+      if (members.find(m => m.id === id)?.user_id === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ['profiles'] });
+        setSelectedProfile(null);
+        toast.success('Você saiu do perfil!');
+      } else {
+        toast.success('Membro removido com sucesso!');
+      }
+    },
+    onError: (error) => {
+      toast.error('Erro ao remover membro: ' + error.message);
+    },
+  });
+
+  const handleSubmit = async (data: FormData) => {
+    const email = normalizeEmail(data.email);
+    if (members.some(m => m.email && normalizeEmail(m.email) === email)) {
+      form.setError('email', { message: 'Esta pessoa já é membro do perfil' });
+      return;
+    }
+    await inviteMutation.mutateAsync(data);
+  };
+
+  if (!selectedProfile) return null;
+
+  return (
+    <Card className="card-finance animate-slide-up" style={{ animationDelay: '125ms' }}>
+      <CardHeader>
+        <CardTitle className="font-display">Compartilhamento</CardTitle>
+        <CardDescription>
+          Pessoas com acesso a {selectedProfile.name}. Editores alteram os dados do perfil; leitores apenas visualizam.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isOwner && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-1 md:grid-cols-[1fr_160px_auto] gap-3 items-end">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>E-mail</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="pessoa@exemplo.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permissão</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INVITATION_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {PROFILE_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="gap-2 press-effect" disabled={inviteMutation.isPending}>
+                <UserPlus className="h-4 w-4" />
+                Convidar
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        <div className="space-y-2">
+          {members.map((member) => {
+            const isSelf = member.user_id === user?.id;
+            return (
+              <div key={member.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-card">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">
+                    {member.email ?? 'Usuário sem e-mail'}
+                    {isSelf && <span className="text-muted-foreground font-normal"> (você)</span>}
+                  </p>
+                  {member.role !== 'owner' && (
+                    <p className="text-xs text-muted-foreground">{PROFILE_ROLE_DESCRIPTIONS[member.role]}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner && member.role !== 'owner' ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => updateRoleMutation.mutate({ id: member.id, role: role as InvitationRole })}
+                    >
+                      <SelectTrigger className="w-[130px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITATION_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {PROFILE_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary" className="font-normal">{PROFILE_ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {member.role !== 'owner' && (isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      title={isSelf ? 'Sair do perfil' : 'Remover'}
+                      onClick={() => removeMutation.mutate(member.id)}
+                      disabled={removeMutation.isPending}
+                    >
+                      {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {invitations.map((invitation) => (
+            <div key={invitation.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-dashed">
+              <div className="flex items-center gap-2 min-w-0">
+                <Mail className="h-4 w-4 text-muted-foreground shrink-0" />
+                <p className="text-sm truncate">{invitation.email}</p>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">convite pendente</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="font-normal">{PROFILE_ROLE_LABELS[invitation.role]}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Cancelar convite"
+                  onClick={() => cancelInvitationMutation.mutate(invitation.id)}
+                  disabled={cancelInvitationMutation.isPending}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
+import { CURRENCIES, LOCALES, formatMoney } from '@/lib/currency';
+import {
+  MAX_MONTH_START_BUSINESS_DAY,
+  MAX_MONTH_START_DAY,
+  MONTH_START_RULE_LABELS,
+  MonthStart,
+  MonthStartRule,
+  formatPeriod,
+  getMonthPeriod,
+  getPeriodMonth,
+} from '@/lib/period';
+import { canEditProfile } from '@/lib/members';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const paymentMethods = [
+  { value: 'pix', label: 'Pix' },
+  { value: 'boleto', label: 'Boleto' },
+  { value: 'credito', label: 'Crédito' },
+  { value: 'debito', label: 'Débito' },
+  { value: 'dinheiro', label: 'Dinheiro' },
+  { value: 'transferencia', label: 'Transferência' },
+] as const;
+
+const NONE = 'none';
+const MONTH_START_RULES: MonthStartRule[] = ['day', 'business_day'];
+const MONTH_START_DAYS: Record<MonthStartRule, number[]> = {
+  day: Array.from({ length: MAX_MONTH_START_DAY }, (_, i) => i + 1),
+  business_day: Array.from({ length: MAX_MONTH_START_BUSINESS_DAY }, (_, i) => i + 1),
+};
+
+const formSchema = z.object({
+  default_payment_method: z.string(),
+  default_account_id: z.string(),
+  default_currency: z.string(),
+  locale: z.string(),
+  month_start_rule: z.enum(['day', 'business_day']),
+  month_start_day: z.string(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+export function ProfileSettingsManager() {
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { accounts } = useAccounts(selectedProfile?.id);
+  const { defaultPaymentMethod, defaultAccountId, defaultCurrency, locale, monthStart } =
+    useProfileSettings(selectedProfile?.id);
+  const canEdit = canEditProfile(selectedProfile?.role);
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      default_payment_method: NONE,
+      default_account_id: NONE,
+      default_currency: NONE,
+      locale,
+      month_start_rule: monthStart.rule,
+      month_start_day: String(monthStart.day),
+    },
+  });
+
+  useEffect(() => {
+    form.reset({
+      default_payment_method: defaultPaymentMethod ?? NONE,
+      default_account_id: defaultAccountId ?? NONE,
+      default_currency: defaultCurrency ?? NONE,
+      locale,
+      month_start_rule: monthStart.rule,
+      month_start_day: String(monthStart.day),
+    });
+  }, [form, defaultPaymentMethod, defaultAccountId, defaultCurrency, locale, monthStart]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const { error } = await supabase
+        .from('profile_settings')
+        .upsert({
+          profile_id: selectedProfile.id,
+          user_id: user.id,
+          default_payment_method: data.default_payment_method === NONE
+            ? null
+            : data.default_payment_method as typeof paymentMethods[number]['value'],
+          default_account_id: data.default_account_id === NONE ? null : data.default_account_id,
+          default_currency: data.default_currency === NONE ? null : data.default_currency,
+          locale: data.locale,
+          month_start_rule: data.month_start_rule,
+          month_start_day: Number(data.month_start_day),
+        }, { onConflict: 'profile_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile_settings'] });
+      toast.success('Preferências salvas com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar preferências: ' + error.message);
+    },
+  });
+
+  if (!selectedProfile) return null;
+
+  const selectedLocale = form.watch('locale');
+  const selectedMonthStart: MonthStart = {
+    rule: form.watch('month_start_rule'),
+    day: Number(form.watch('month_start_day')),
+  };
+  const current = getPeriodMonth(new Date(), selectedMonthStart);
+  const currentPeriod = getMonthPeriod(current.month, current.year, selectedMonthStart);
+
+  // Business day counts stop earlier than days of the month
+  const handleRuleChange = (rule: MonthStartRule) => {
+    form.setValue('month_start_rule', rule);
+    if (Number(form.getValues('month_start_day')) > MONTH_START_DAYS[rule].length) {
+      form.setValue('month_start_day', String(MONTH_START_DAYS[rule].length));
+    }
+  };
+
+  return (
+    <Card className="card-finance animate-slide-up" style={{ animationDelay: '115ms' }}>
+      <CardHeader>
+        <CardTitle className="font-display">Preferências do perfil</CardTitle>
+        <CardDescription>
+          Valores sugeridos em novos lançamentos e o mês financeiro de {selectedProfile.name}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="default_payment_method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Forma de pagamento padrão</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Pix (padrão do sistema)</SelectItem>
+                        {paymentMethods.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="default_account_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Conta padrão</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Nenhuma</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="default_currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Moeda dos lançamentos</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Moeda base ({selectedProfile.base_currency})</SelectItem>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency.code} value={currency.code}>
+                            {currency.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Os totais continuam na moeda base do perfil.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="locale"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Formato dos valores</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {LOCALES.map((option) => (
+                          <SelectItem key={option.code} value={option.code}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Exemplo: {formatMoney(1234.56, selectedProfile.base_currency, selectedLocale)}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="month_start_rule"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Início do mês financeiro</FormLabel>
+                    <Select onValueChange={(value) => handleRuleChange(value as MonthStartRule)} value={field.value} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MONTH_START_RULES.map((rule) => (
+                          <SelectItem key={rule} value={rule}>
+                            {MONTH_START_RULE_LABELS[rule]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Dias úteis vão de segunda a sexta; feriados não são considerados.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="month_start_day"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{selectedMonthStart.rule === 'business_day' ? 'Dia útil' : 'Dia'}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MONTH_START_DAYS[selectedMonthStart.rule].map((day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {selectedMonthStart.rule === 'business_day' ? `${day}º dia útil` : `Dia ${day}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Cada mês vai deste dia até a véspera dele no mês seguinte. Mês atual: {formatPeriod(currentPeriod)}.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button type="submit" className="press-effect" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? 'Salvando...' : 'Salvar preferências'}
+                </Button>
+              </div>
+            )}
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
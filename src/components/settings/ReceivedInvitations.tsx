@@ -0,0 +1,83 @@
+import { format, parseISO } from 'date-fns';
+import { Check, X } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useReceivedInvitations } from '@/hooks/useProfileMembers';
+import { PROFILE_ROLE_LABELS } from '@/lib/members';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export function ReceivedInvitations() {
+  const { invitations } = useReceivedInvitations();
+  const queryClient = useQueryClient();
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: string; accept: boolean }) => {
+      const { error } = await supabase.rpc('respond_profile_invitation', {
+        _invitation_id: id,
+        _accept: accept,
+      });
+
+      if (error) throw error;
+      return accept;
+    },
+    onSuccess: (accept) => {
+      queryClient.invalidateQueries({ queryKey: ['profile_invitations'] });
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      toast.success(accept ? 'Convite aceito! O perfil já está disponível.' : 'Convite recusado!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao responder convite: ' + error.message);
+    },
+  });
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="card-finance animate-slide-up border-primary/40">
+      <CardHeader>
+        <CardTitle className="font-display">Convites recebidos</CardTitle>
+        <CardDescription>Perfis que outras pessoas compartilharam com você</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-card">
+            <div className="min-w-0">
+              <p className="font-medium text-foreground truncate">
+                {invitation.profile_name}{' '}
+                <Badge variant="secondary" className="font-normal ml-1">{PROFILE_ROLE_LABELS[invitation.role]}</Badge>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Enviado por {invitation.invited_by_email ?? 'usuário desconhecido'} em{' '}
+                {format(parseISO(invitation.created_at), 'dd/MM/yyyy')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => respondMutation.mutate({ id: invitation.id, accept: false })}
+                disabled={respondMutation.isPending}
+              >
+                <X className="h-4 w-4" />
+                Recusar
+              </Button>
+              <Button
+                size="sm"
+                className="gap-1"
+                onClick={() => respondMutation.mutate({ id: invitation.id, accept: true })}
+                disabled={respondMutation.isPending}
+              >
+                <Check className="h-4 w-4" />
+                Aceitar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
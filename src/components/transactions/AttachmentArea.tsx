@@ -0,0 +1,128 @@
+import { useCallback, useState } from 'react';
+import { useDropzone, FileRejection } from 'react-dropzone';
+import { useFormContext } from 'react-hook-form';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Eye, FileText, Paperclip, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAttachments, deleteTransactionAttachments } from '@/hooks/useAttachments';
+import { Attachment, ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE, SourceFile, formatFileSize } from '@/lib/attachments';
+import { AttachmentPreviewDialog } from '@/components/transactions/AttachmentPreviewDialog';
+import { cn } from '@/lib/utils';
+import type { TransactionFormData } from '@/components/transactions/TransactionDialog';
+
+interface AttachmentAreaProps {
+  transactionId?: string;
+  source?: SourceFile | null;
+}
+
+// Files already linked to the transaction plus the ones picked now, which are uploaded on save
+export function AttachmentArea({ transactionId, source }: AttachmentAreaProps) {
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const form = useFormContext<TransactionFormData>();
+  const pending = form.watch('attachments');
+  const { attachments } = useAttachments(transactionId);
+  const queryClient = useQueryClient();
+
+  const onDrop = useCallback((accepted: File[], rejected: FileRejection[]) => {
+    if (rejected.length > 0) {
+      toast.error('Envie imagens ou PDFs de até 10MB');
+    }
+    if (accepted.length > 0) {
+      form.setValue('attachments', [...form.getValues('attachments'), ...accepted]);
+    }
+  }, [form]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: ATTACHMENT_ACCEPT,
+    maxSize: MAX_ATTACHMENT_SIZE,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachment: Attachment) => {
+      await deleteTransactionAttachments([attachment]);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transaction_attachments'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast.success('Anexo excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir anexo: ' + error.message);
+    },
+  });
+
+  const removePending = (index: number) => {
+    form.setValue('attachments', pending.filter((_, i) => i !== index));
+  };
+
+  const hasSaved = attachments.length > 0 || !!source;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Anexos</span>
+        {hasSaved && (
+          <Button type="button" variant="ghost" size="sm" className="gap-2" onClick={() => setPreviewOpen(true)}>
+            <Eye className="h-4 w-4" />
+            Visualizar
+          </Button>
+        )}
+      </div>
+
+      {source && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <FileText className="h-4 w-4 shrink-0" />
+          <span className="truncate">Importado de {source.file_name}</span>
+        </div>
+      )}
+
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+          <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="truncate flex-1">{attachment.file_name}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive hover:text-destructive"
+            onClick={() => deleteMutation.mutate(attachment)}
+            disabled={deleteMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {pending.map((file, index) => (
+        <div key={`${file.name}-${index}`} className="flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm">
+          <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="truncate flex-1">{file.name}</span>
+          <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => removePending(index)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div
+        {...getRootProps()}
+        className={cn(
+          'rounded-md border border-dashed px-3 py-3 text-center text-sm text-muted-foreground cursor-pointer transition-colors',
+          isDragActive ? 'border-primary bg-primary/5' : 'hover:bg-muted/30'
+        )}
+      >
+        <input {...getInputProps()} />
+        {isDragActive ? 'Solte os arquivos aqui' : 'Arraste um comprovante ou clique para anexar (imagem ou PDF)'}
+      </div>
+
+      <AttachmentPreviewDialog
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+        attachments={attachments}
+        source={source}
+      />
+    </div>
+  );
+}
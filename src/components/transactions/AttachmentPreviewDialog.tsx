@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Download, FileText, Image as ImageIcon, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { getAttachmentUrl } from '@/hooks/useAttachments';
+import { Attachment, SourceFile, isImageFile, isPdfFile } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+interface PreviewItem {
+  key: string;
+  label: string;
+  file_name: string;
+  file_type: string;
+  storage_path: string;
+}
+
+interface AttachmentPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  attachments: Attachment[];
+  source?: SourceFile | null;
+}
+
+export function AttachmentPreviewDialog({
+  open,
+  onOpenChange,
+  attachments,
+  source,
+}: AttachmentPreviewDialogProps) {
+  const items: PreviewItem[] = [
+    ...attachments.map(a => ({ key: a.id, label: 'Anexo', ...a })),
+    ...(source ? [{ key: 'source', label: 'Extrato de origem', ...source }] : []),
+  ];
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const selected = items.find(i => i.key === selectedKey) ?? items[0];
+
+  useEffect(() => {
+    if (open) setSelectedKey(null);
+  }, [open]);
+
+  const { data: url, isLoading } = useQuery({
+    queryKey: ['attachment_url', selected?.storage_path],
+    queryFn: () => getAttachmentUrl(selected.storage_path),
+    enabled: open && !!selected,
+    staleTime: 50 * 60 * 1000, // signed URLs last one hour
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Anexos</DialogTitle>
+          <DialogDescription>Comprovantes e extrato de origem do lançamento</DialogDescription>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum anexo.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {items.map((item) => (
+                <Button
+                  key={item.key}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={cn('gap-2 max-w-[260px]', item.key === selected?.key && 'border-primary text-primary')}
+                  onClick={() => setSelectedKey(item.key)}
+                >
+                  {isImageFile(item.file_type) ? <ImageIcon className="h-4 w-4 shrink-0" /> : <FileText className="h-4 w-4 shrink-0" />}
+                  <span className="truncate">{item.file_name}</span>
+                </Button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="rounded-lg border bg-muted/30 min-h-[300px] flex items-center justify-center overflow-hidden">
+                {isLoading || !url ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                ) : isImageFile(selected.file_type) ? (
+                  <img src={url} alt={selected.file_name} className="max-h-[60vh] object-contain" />
+                ) : isPdfFile(selected.file_type) ? (
+                  <iframe src={url} title={selected.file_name} className="w-full h-[60vh]" />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Pré-visualização indisponível para este tipo de arquivo.</p>
+                )}
+              </div>
+            )}
+
+            {selected && url && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">{selected.label}</span>
+                <Button asChild variant="outline" size="sm" className="gap-2">
+                  <a href={url} target="_blank" rel="noopener noreferrer" download={selected.file_name}>
+                    <Download className="h-4 w-4" />
+                    Baixar
+                  </a>
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
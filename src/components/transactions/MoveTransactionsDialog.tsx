@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Copy, FolderInput, Loader2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { canEditProfile } from '@/lib/members';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface MoveTransactionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactionIds: string[];
+  // Copies keep the originals in the current profile
+  copy?: boolean;
+  onDone?: () => void;
+}
+
+export function MoveTransactionsDialog({
+  open,
+  onOpenChange,
+  transactionIds,
+  copy = false,
+  onDone,
+}: MoveTransactionsDialogProps) {
+  const [targetProfileId, setTargetProfileId] = useState('');
+  const { profiles, selectedProfile } = useProfiles();
+  const queryClient = useQueryClient();
+
+  // Only profiles the user can write to are valid targets
+  const targetProfiles = profiles.filter(p => p.id !== selectedProfile?.id && canEditProfile(p.role));
+
+  useEffect(() => {
+    if (open) setTargetProfileId('');
+  }, [open]);
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('move_transactions', {
+        _ids: transactionIds,
+        _target_profile_id: targetProfileId,
+        _copy: copy,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi'] });
+      queryClient.invalidateQueries({ queryKey: ['chart'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      const target = profiles.find(p => p.id === targetProfileId);
+      toast.success(`${count} lançamentos ${copy ? 'copiados' : 'movidos'} para ${target?.name ?? 'o perfil'}!`);
+      onOpenChange(false);
+      onDone?.();
+    },
+    onError: (error) => {
+      toast.error(`Erro ao ${copy ? 'copiar' : 'mover'} lançamentos: ` + error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display flex items-center gap-2">
+            {copy ? <Copy className="h-5 w-5" /> : <FolderInput className="h-5 w-5" />}
+            {copy ? 'Copiar para perfil' : 'Mover para perfil'}
+          </DialogTitle>
+          <DialogDescription>
+            {transactionIds.length} lançamentos selecionados em {selectedProfile?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Perfil de destino</Label>
+            <Select value={targetProfileId} onValueChange={setTargetProfileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o perfil" />
+              </SelectTrigger>
+              <SelectContent>
+                {targetProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {targetProfiles.length === 0 && (
+              <p className="text-xs text-muted-foreground">Nenhum outro perfil com permissão de edição.</p>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Contas, categorias e tags são associadas pelo nome no perfil de destino; tags que não existirem
+            são criadas. As duas pernas de uma transferência vão juntas, e vínculos com metas, empréstimos e
+            recorrências ficam no perfil de origem.
+            {copy && ' Os anexos não são copiados.'}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => moveMutation.mutate()}
+            disabled={!targetProfileId || moveMutation.isPending}
+            className="gap-2"
+          >
+            {moveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {copy ? 'Copiar' : 'Mover'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import { useRef, useState } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { Barcode, Loader2, ScanLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Boleto, formatDigitableLine, onlyDigits, parseBoleto } from '@/lib/boleto';
+import { PixPayload, formatPixNotes, looksLikePix, parsePix } from '@/lib/pix';
+import { formatMoney } from '@/lib/currency';
+import type { TransactionFormData } from '@/components/transactions/TransactionDialog';
+
+// Native QR/barcode reader (Chromium and Safari); not in the TS DOM types yet
+interface BarcodeDetectorLike {
+  detect(image: ImageBitmapSource): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const BarcodeDetectorApi = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// QR codes carry PIX payloads; boletos print an ITF (interleaved 2 of 5) barcode
+async function scanCode(file: File): Promise<string> {
+  const image = await createImageBitmap(file);
+  try {
+    const codes = await new BarcodeDetectorApi({ formats: ['qr_code', 'itf'] }).detect(image);
+    if (codes.length === 0) throw new Error('Nenhum código encontrado na imagem');
+    return codes[0].rawValue;
+  } finally {
+    image.close();
+  }
+}
+
+type ParsedCode = { kind: 'boleto'; boleto: Boleto } | { kind: 'pix'; pix: PixPayload };
+
+// Pasting a boleto line or a PIX copia-e-cola fills the expense; the code details go to the notes
+export function PaymentCodeInput() {
+  const [value, setValue] = useState('');
+  const [parsed, setParsed] = useState<ParsedCode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const form = useFormContext<TransactionFormData>();
+
+  const appendNotes = (text: string) => {
+    const notes = form.getValues('notes');
+    if (!notes?.includes(text)) {
+      form.setValue('notes', notes ? `${notes}\n${text}` : text);
+    }
+  };
+
+  const setAmount = (amount: number | null) => {
+    if (amount !== null) {
+      form.setValue('amount', amount.toFixed(2).replace('.', ','), { shouldValidate: true });
+    }
+  };
+
+  const applyBoleto = (boleto: Boleto) => {
+    const issuer = boleto.bankName ?? boleto.segment;
+    form.setValue('payment_method', 'boleto');
+    form.setValue('currency', 'BRL');
+    setAmount(boleto.amount);
+    if (boleto.dueDate) {
+      const dueDate = parseISO(boleto.dueDate);
+      form.setValue('transaction_date', dueDate);
+      // A slip due later hasn't been paid yet
+      if (dueDate > startOfDay(new Date())) form.setValue('status', 'planned');
+    }
+    if (!form.getValues('description') && issuer) {
+      form.setValue('description', `Boleto ${issuer}`, { shouldValidate: true });
+    }
+    appendNotes(formatDigitableLine(boleto));
+  };
+
+  const applyPix = (pix: PixPayload) => {
+    form.setValue('payment_method', 'pix');
+    form.setValue('currency', 'BRL');
+    setAmount(pix.amount);
+    if (pix.merchantName) {
+      form.setValue('description', pix.merchantName, { shouldValidate: true });
+    }
+    appendNotes(formatPixNotes(pix));
+  };
+
+  const handleChange = (text: string) => {
+    setValue(text);
+    setParsed(null);
+    setError(null);
+
+    try {
+      if (looksLikePix(text)) {
+        const pix = parsePix(text);
+        setParsed({ kind: 'pix', pix });
+        applyPix(pix);
+        return;
+      }
+      // Only complete codes are parsed, so typing digit by digit doesn't flag errors midway
+      if (![44, 47, 48].includes(onlyDigits(text).length)) return;
+      const boleto = parseBoleto(text);
+      setParsed({ kind: 'boleto', boleto });
+      applyBoleto(boleto);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleScan = async (file: File | undefined) => {
+    if (!file) return;
+    setIsScanning(true);
+    setError(null);
+    try {
+      handleChange(await scanCode(file));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsScanning(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="payment-code" className="text-sm font-medium">Colar boleto ou PIX</label>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="payment-code"
+            placeholder="Linha digitável ou PIX copia e cola"
+            className="pl-9"
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+          />
+        </div>
+        {BarcodeDetectorApi && (
+          <>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              aria-label="Escanear código"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isScanning}
+            >
+              {isScanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanLine className="h-4 w-4" />}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={(e) => handleScan(e.target.files?.[0])}
+            />
+          </>
+        )}
+      </div>
+      {error && <p className="text-xs font-medium text-destructive">{error}</p>}
+      {parsed?.kind === 'boleto' && (
+        <p className="text-xs text-muted-foreground">
+          {parsed.boleto.bankName ?? parsed.boleto.segment ?? 'Convênio'}
+          {parsed.boleto.amount !== null && ` · ${formatMoney(parsed.boleto.amount, 'BRL')}`}
+          {parsed.boleto.dueDate && ` · vence em ${format(parseISO(parsed.boleto.dueDate), 'dd/MM/yyyy')}`}
+          {parsed.boleto.amount === null && ' · valor a informar'}
+        </p>
+      )}
+      {parsed?.kind === 'pix' && (
+        <p className="text-xs text-muted-foreground">
+          PIX para {parsed.pix.merchantName || 'recebedor'}
+          {parsed.pix.merchantCity && ` · ${parsed.pix.merchantCity}`}
+          {parsed.pix.amount !== null ? ` · ${formatMoney(parsed.pix.amount, 'BRL')}` : ' · valor a informar'}
+        </p>
+      )}
+    </div>
+  );
+}
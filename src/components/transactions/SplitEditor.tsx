@@ -0,0 +1,134 @@
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { Plus, Split, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from '@/components/ui/form';
+import { toCents } from '@/lib/splits';
+import { formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import type { TransactionFormData } from '@/components/transactions/TransactionDialog';
+
+const parseAmount = (val: string) => parseFloat((val || '').replace(',', '.')) || 0;
+
+interface SplitEditorProps {
+  disabled?: boolean;
+}
+
+// Purpose lines of the transaction; the remaining amount goes to the line being added
+export function SplitEditor({ disabled }: SplitEditorProps) {
+  const form = useFormContext<TransactionFormData>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'splits' });
+
+  const currency = form.watch('currency');
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const total = parseAmount(form.watch('amount'));
+  const splits = form.watch('splits');
+  const remainingCents = toCents(total) - splits.reduce((sum, s) => sum + toCents(parseAmount(s.amount)), 0);
+  const splitsError = form.formState.errors.splits;
+  const rootError = splitsError?.message ?? splitsError?.root?.message;
+
+  const formatAmount = (cents: number) => (Math.max(cents, 0) / 100).toFixed(2).replace('.', ',');
+
+  const addLine = () => {
+    append({ label: '', amount: formatAmount(remainingCents), notes: '' });
+  };
+
+  const startSplit = () => {
+    append([
+      { label: '', amount: formatAmount(toCents(total)), notes: '' },
+      { label: '', amount: '', notes: '' },
+    ]);
+  };
+
+  if (fields.length === 0) {
+    return (
+      <Button type="button" variant="outline" size="sm" className="gap-2" onClick={startSplit} disabled={disabled}>
+        <Split className="h-4 w-4" />
+        Dividir lançamento
+      </Button>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Divisão</span>
+        <Button type="button" variant="ghost" size="sm" className="text-muted-foreground" onClick={() => remove()}>
+          Remover divisão
+        </Button>
+      </div>
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="grid grid-cols-[1fr_110px_1fr_auto] gap-2 items-start">
+          <FormField
+            control={form.control}
+            name={`splits.${index}.label`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input placeholder="Finalidade" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`splits.${index}.amount`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input placeholder="0,00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`splits.${index}.notes`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input placeholder="Observação" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-10 w-10 text-destructive hover:text-destructive"
+            onClick={() => remove(index)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" className="gap-2" onClick={addLine}>
+          <Plus className="h-4 w-4" />
+          Adicionar linha
+        </Button>
+        <span className={cn('text-sm', remainingCents === 0 ? 'text-muted-foreground' : 'text-expense font-medium')}>
+          {remainingCents === 0
+            ? 'Divisão completa'
+            : remainingCents > 0
+              ? `Faltam ${formatCurrency(remainingCents / 100)}`
+              : `Excede em ${formatCurrency(-remainingCents / 100)}`}
+        </span>
+      </div>
+
+      {rootError && <p className="text-sm font-medium text-destructive">{rootError}</p>}
+    </div>
+  );
+}
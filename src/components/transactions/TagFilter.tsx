@@ -0,0 +1,68 @@
+import { Tags, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Tag } from '@/lib/tags';
+
+interface TagFilterProps {
+  tags: Tag[];
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+// Shows transactions carrying any of the selected tags
+export function TagFilter({ tags, value, onChange }: TagFilterProps) {
+  const toggle = (tagId: string, checked: boolean) => {
+    onChange(checked ? [...value, tagId] : value.filter(id => id !== tagId));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Tags className="h-4 w-4" />
+          Tags
+          {value.length > 0 && (
+            <Badge variant="secondary" className="h-5 px-1.5">{value.length}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="end">
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-2">Nenhuma tag cadastrada</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {tags.map((tag) => (
+              <label
+                key={tag.id}
+                className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted"
+              >
+                <Checkbox
+                  checked={value.includes(tag.id)}
+                  onCheckedChange={(checked) => toggle(tag.id, checked === true)}
+                />
+                #{tag.name}
+              </label>
+            ))}
+          </div>
+        )}
+        {value.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full mt-2 gap-2 text-muted-foreground"
+            onClick={() => onChange([])}
+          >
+            <X className="h-4 w-4" />
+            Limpar filtro
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
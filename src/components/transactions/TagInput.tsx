@@ -0,0 +1,80 @@
+import { useState, KeyboardEvent } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Tag, normalizeTagName } from '@/lib/tags';
+
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  suggestions: Tag[];
+}
+
+// Enter or comma adds the typed tag; backspace on an empty input removes the last one
+export function TagInput({ value, onChange, suggestions }: TagInputProps) {
+  const [text, setText] = useState('');
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setText('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTag(text);
+    } else if (event.key === 'Backspace' && !text && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const query = normalizeTagName(text);
+  const matches = suggestions
+    .filter(t => !value.includes(t.name) && (!query || t.name.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 rounded-md border border-input bg-background px-2 py-1.5 focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="rounded-full hover:text-destructive"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => text && addTag(text)}
+          placeholder={value.length === 0 ? 'Ex: viagem-2026, reembolsável' : ''}
+          className="h-7 flex-1 min-w-[120px] border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {matches.map((tag) => (
+            <button key={tag.id} type="button" onClick={() => addTag(tag.name)}>
+              <Badge variant="outline" className="font-normal text-muted-foreground hover:text-foreground">
+                #{tag.name}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
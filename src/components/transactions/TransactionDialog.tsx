@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -13,6 +13,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -35,6 +36,25 @@ import {
 } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useGoals } from '@/hooks/useGoals';
+import { useTags } from '@/hooks/useTags';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
+import { usePayees } from '@/hooks/usePayees';
+import { DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { getCategoryColor, getCategoryIcon } from '@/lib/categories';
+import { MAX_INSTALLMENTS, getInstallmentLabel, isInstallmentAmountValid, splitInstallmentAmounts } from '@/lib/installments';
+import { MAX_SPLIT_LABEL_LENGTH, SplitLine, sortSplits, splitsMatchAmount } from '@/lib/splits';
+import { Checkbox } from '@/components/ui/checkbox';
+import { TagInput } from '@/components/transactions/TagInput';
+import { SplitEditor } from '@/components/transactions/SplitEditor';
+import { PaymentCodeInput } from '@/components/transactions/PaymentCodeInput';
+import { AttachmentArea } from '@/components/transactions/AttachmentArea';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { SourceFile } from '@/lib/attachments';
+import { DEFAULT_TRANSACTION_STATUS, TRANSACTION_STATUS_LABELS, TransactionStatus } from '@/lib/status';
 
 const paymentMethods = [
   { value: 'pix', label: 'Pix' },
@@ -45,10 +65,18 @@ const paymentMethods = [
   { value: 'transferencia', label: 'Transferência' },
 ] as const;
 
-const paymentSources = [
-  'Nubank', 'Itaú', 'Bradesco', 'Santander', 'Banco do Brasil', 
-  'Caixa', 'Inter', 'C6 Bank', 'PicPay', 'Mercado Pago', 'Dinheiro', 'Outro'
-];
+const transactionStatuses = ['planned', 'cleared', 'reconciled'] as const;
+
+const parseAmount = (val: string) => parseFloat(val.replace(',', '.'));
+
+const splitSchema = z.object({
+  label: z.string().trim().min(1, 'Informe a finalidade').max(MAX_SPLIT_LABEL_LENGTH, 'Finalidade muito longa'),
+  amount: z.string().min(1, 'Valor é obrigatório').refine((val) => {
+    const num = parseAmount(val);
+    return !isNaN(num) && num > 0;
+  }, 'Valor deve ser maior que zero'),
+  notes: z.string().max(500, 'Observação muito longa').optional(),
+});
 
 const formSchema = z.object({
   description: z.string().min(1, 'Descrição é obrigatória'),
@@ -56,28 +84,102 @@ const formSchema = z.object({
     const num = parseFloat(val.replace(',', '.'));
     return !isNaN(num) && num > 0;
   }, 'Valor deve ser maior que zero'),
-  payment_source: z.string().optional(),
+  account_id: z.string().optional(),
   payment_method: z.enum(['pix', 'boleto', 'credito', 'debito', 'dinheiro', 'transferencia']),
+  category_id: z.string().optional(),
+  destination_account_id: z.string().optional(),
+  goal_id: z.string().optional(),
+  payee_id: z.string().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Moeda inválida'),
+  status: z.enum(transactionStatuses),
+  tags: z.array(z.string()),
   transaction_date: z.date(),
   notes: z.string().optional(),
+  installment_count: z.string().optional().refine((val) => {
+    if (!val) return true;
+    const num = Number(val);
+    return Number.isInteger(num) && num >= 1 && num <= MAX_INSTALLMENTS;
+  }, `Informe de 1 a ${MAX_INSTALLMENTS} parcelas`),
+  installment_mode: z.enum(['total', 'installment']),
+  first_installment_month: z.string().optional(),
+  apply_to_remaining: z.boolean(),
+  splits: z.array(splitSchema),
+  // Picked in the dialog, uploaded after the transaction is saved
+  attachments: z.array(z.instanceof(File)),
+}).superRefine((data, ctx) => {
+  const installmentCount = Number(data.installment_count);
+  if (installmentCount > 1 && !isInstallmentAmountValid(parseAmount(data.amount) || 0, installmentCount, data.installment_mode)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: 'Cada parcela deve ter pelo menos um centavo' });
+  }
+
+  // Split lines must cover the whole amount
+  if (data.splits.length === 0) return;
+  if (data.splits.length === 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splits'], message: 'Divida em pelo menos duas linhas' });
+  }
+  if (Number(data.installment_count) > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splits'], message: 'Compras parceladas não podem ser divididas' });
+  }
+  const amounts = data.splits.map(s => ({ amount: parseAmount(s.amount) || 0 }));
+  if (!splitsMatchAmount(amounts, parseAmount(data.amount) || 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splits'], message: 'A soma das divisões deve ser igual ao valor' });
+  }
+});
+
+// Transfers need both accounts, and they must differ
+const transferSchema = formSchema.superRefine((data, ctx) => {
+  if (!data.account_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['account_id'], message: 'Conta de origem é obrigatória' });
+  }
+  if (!data.destination_account_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['destination_account_id'], message: 'Conta de destino é obrigatória' });
+  } else if (data.destination_account_id === data.account_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['destination_account_id'], message: 'Escolha uma conta diferente da origem' });
+  }
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+export type TransactionFormData = FormData;
+
+const NO_CATEGORY = 'none';
+const NO_ACCOUNT = 'none';
+const NO_GOAL = 'none';
+// Left empty, the payee is matched from the description when saving
+const AUTO_PAYEE = 'auto';
+
 interface Transaction {
   id?: string;
   description: string;
   amount: number;
-  payment_source: string | null;
+  currency?: string;
+  status?: TransactionStatus;
+  account_id: string | null;
   payment_method: 'pix' | 'boleto' | 'credito' | 'debito' | 'dinheiro' | 'transferencia';
+  category_id: string | null;
+  destination_account_id?: string | null;
+  goal_id?: string | null;
+  payee_id?: string | null;
+  tag_ids?: string[];
+  transaction_splits?: (SplitLine & { position?: number })[];
   transaction_date: string;
   notes: string | null;
+  installment_group_id?: string | null;
+  installment_number?: number | null;
+  installment_count?: number | null;
+  uploaded_files?: SourceFile | null;
 }
 
+const dialogTitles = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência',
+};
+
 interface TransactionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   transaction?: Transaction | null;
   onSubmit: (data: FormData) => Promise<void>;
 }
@@ -90,41 +192,140 @@ export function TransactionDialog({
   onSubmit,
 }: TransactionDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { selectedProfile } = useProfiles();
+  const baseCurrency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { defaultPaymentMethod, defaultAccountId, defaultCurrency } = useProfileSettings(selectedProfile?.id);
+  const { categories, categoriesById } = useCategories(selectedProfile?.id);
+  const { accounts } = useAccounts(selectedProfile?.id);
+  const { goals } = useGoals(selectedProfile?.id);
+  const { payees } = usePayees(selectedProfile?.id);
+  const { tags, tagsById } = useTags(selectedProfile?.id);
+  const typeCategories = categories.filter(c => c.type === type);
+  const isTransfer = type === 'transfer';
+  const resolver = useMemo(() => zodResolver(isTransfer ? transferSchema : formSchema), [isTransfer]);
 
   const form = useForm<FormData>({
-    resolver: zodResolver(formSchema),
+    resolver,
     defaultValues: {
       description: '',
       amount: '',
-      payment_source: '',
+      account_id: '',
       payment_method: 'pix',
+      category_id: '',
+      destination_account_id: '',
+      goal_id: '',
+      payee_id: '',
+      currency: DEFAULT_CURRENCY,
+      status: DEFAULT_TRANSACTION_STATUS,
+      tags: [],
       transaction_date: new Date(),
       notes: '',
+      installment_count: '',
+      installment_mode: 'total',
+      first_installment_month: '',
+      apply_to_remaining: false,
+      splits: [],
+      attachments: [],
     },
   });
 
+  // Read when the form is reset rather than watched, so a refetch of the preferences or tags
+  // does not wipe what the user has typed
+  const resetValues = useRef({ isTransfer, tagsById, baseCurrency, defaultPaymentMethod, defaultAccountId, defaultCurrency });
+  resetValues.current = { isTransfer, tagsById, baseCurrency, defaultPaymentMethod, defaultAccountId, defaultCurrency };
+
   useEffect(() => {
+    const {
+      isTransfer, tagsById, baseCurrency, defaultPaymentMethod, defaultAccountId, defaultCurrency,
+    } = resetValues.current;
+
     if (transaction) {
       form.reset({
         description: transaction.description,
         amount: transaction.amount.toString().replace('.', ','),
-        payment_source: transaction.payment_source || '',
+        account_id: transaction.account_id || '',
         payment_method: transaction.payment_method,
+        category_id: transaction.category_id || '',
+        destination_account_id: transaction.destination_account_id || '',
+        goal_id: transaction.goal_id || '',
+        payee_id: transaction.payee_id || '',
+        currency: transaction.currency || baseCurrency,
+        status: transaction.status || DEFAULT_TRANSACTION_STATUS,
+        tags: (transaction.tag_ids ?? []).map(id => tagsById.get(id)?.name).filter(Boolean),
         transaction_date: new Date(transaction.transaction_date),
         notes: transaction.notes || '',
+        installment_count: '',
+        installment_mode: 'total',
+        first_installment_month: '',
+        apply_to_remaining: false,
+        splits: sortSplits(transaction.transaction_splits).map(split => ({
+          label: split.label,
+          amount: Number(split.amount).toFixed(2).replace('.', ','),
+          notes: split.notes || '',
+        })),
+        attachments: [],
       });
     } else {
+      // New transactions start from the profile's preferences
       form.reset({
         description: '',
         amount: '',
-        payment_source: '',
-        payment_method: 'pix',
+        account_id: defaultAccountId || '',
+        payment_method: isTransfer ? 'transferencia' : defaultPaymentMethod || 'pix',
+        category_id: '',
+        destination_account_id: '',
+        goal_id: '',
+        payee_id: '',
+        currency: defaultCurrency || baseCurrency,
+        status: DEFAULT_TRANSACTION_STATUS,
+        tags: [],
         transaction_date: new Date(),
         notes: '',
+        installment_count: '',
+        installment_mode: 'total',
+        first_installment_month: '',
+        apply_to_remaining: false,
+        splits: [],
+        attachments: [],
       });
     }
   }, [transaction, form, open]);
 
+  const currency = form.watch('currency');
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const canSplitInstallments = !transaction && !isTransfer;
+  const installmentCount = Number(form.watch('installment_count')) || 1;
+  const installmentMode = form.watch('installment_mode');
+  const isInstallmentPurchase = canSplitInstallments && installmentCount > 1;
+  const installmentLabel = transaction?.installment_group_id ? getInstallmentLabel({
+    installment_number: transaction.installment_number ?? null,
+    installment_count: transaction.installment_count ?? null,
+  }) : null;
+
+  const getInstallmentPreview = () => {
+    const amount = parseFloat(form.watch('amount').replace(',', '.'));
+    if (!isInstallmentPurchase || isNaN(amount) || amount <= 0) return null;
+    const amounts = splitInstallmentAmounts(amount, installmentCount, installmentMode);
+    const total = amounts.reduce((sum, value) => sum + value, 0);
+    const first = formatCurrency(amounts[0]);
+    const last = amounts[amounts.length - 1] !== amounts[0] ? ` (última de ${formatCurrency(amounts[amounts.length - 1])})` : '';
+    return `${installmentCount}x de ${first}${last} · total ${formatCurrency(total)}`;
+  };
+  const installmentPreview = getInstallmentPreview();
+
+  const accountItems = accounts.map((account) => (
+    <SelectItem key={account.id} value={account.id}>
+      <span className="flex items-center gap-2">
+        <span
+          className="w-2.5 h-2.5 rounded-full"
+          style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+        />
+        {account.name}
+      </span>
+    </SelectItem>
+  ));
+
   const handleSubmit = async (data: FormData) => {
     setIsSubmitting(true);
     try {
@@ -137,15 +338,17 @@ export function TransactionDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="font-display text-xl">
-            {transaction ? 'Editar' : 'Nova'} {type === 'income' ? 'Receita' : 'Despesa'}
+            {transaction ? 'Editar' : 'Nova'} {dialogTitles[type]}
           </DialogTitle>
         </DialogHeader>
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {type === 'expense' && !transaction && <PaymentCodeInput />}
+
             <FormField
               control={form.control}
               name="description"
@@ -166,10 +369,32 @@ export function TransactionDialog({
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Valor (R$)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="0,00" {...field} />
-                    </FormControl>
+                    <FormLabel>
+                      {isInstallmentPurchase
+                        ? installmentMode === 'total' ? 'Valor total' : 'Valor da parcela'
+                        : installmentLabel ? 'Valor da parcela' : 'Valor'}
+                    </FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input placeholder="0,00" {...field} />
+                      </FormControl>
+                      <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field: currencyField }) => (
+                          <Select onValueChange={currencyField.onChange} value={currencyField.value}>
+                            <SelectTrigger className="w-[90px] shrink-0" aria-label="Moeda">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CURRENCIES.map((c) => (
+                                <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      />
+                    </div>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -212,23 +437,253 @@ export function TransactionDialog({
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Situação</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {transactionStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {TRANSACTION_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {field.value === 'planned' && (
+                    <FormDescription>Lançamentos previstos só entram nos valores projetados do Dashboard.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {canSplitInstallments && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="installment_count"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Parcelas</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_INSTALLMENTS} placeholder="À vista" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="installment_mode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valor informado</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={!isInstallmentPurchase}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="total">Total da compra</SelectItem>
+                            <SelectItem value="installment">Valor da parcela</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="first_installment_month"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>1ª parcela</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="month"
+                            disabled={!isInstallmentPurchase}
+                            {...field}
+                            value={field.value || format(form.watch('transaction_date') ?? new Date(), 'yyyy-MM')}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {installmentPreview && (
+                  <p className="text-sm text-muted-foreground">{installmentPreview}</p>
+                )}
+              </div>
+            )}
+
+            {installmentLabel && (
+              <FormField
+                control={form.control}
+                name="apply_to_remaining"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 rounded-lg border p-3">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">
+                      Aplicar também às próximas parcelas (parcela {installmentLabel})
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isTransfer && <SplitEditor disabled={isInstallmentPurchase} />}
+
+            {!isTransfer && (
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_CATEGORY ? '' : value)}
+                      value={field.value || NO_CATEGORY}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecionar" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                        {typeCategories.map((category) => {
+                          const CategoryIcon = getCategoryIcon(category, categoriesById);
+                          return (
+                            <SelectItem key={category.id} value={category.id}>
+                              <span className={cn('flex items-center gap-2', category.parent_id && 'pl-5')}>
+                                <CategoryIcon
+                                  className="h-4 w-4"
+                                  style={{ color: getCategoryColor(category, categoriesById) }}
+                                />
+                                {category.name}
+                              </span>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="payment_source"
+                name="account_id"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Pagador/Cartão</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <FormLabel>{isTransfer ? 'Conta de origem' : 'Conta'}</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_ACCOUNT ? '' : value)}
+                      value={field.value || (isTransfer ? '' : NO_ACCOUNT)}
+                    >
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Selecionar" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {paymentSources.map((source) => (
-                          <SelectItem key={source} value={source}>
-                            {source}
+                        {!isTransfer && <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>}
+                        {accountItems}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {isTransfer ? (
+                <FormField
+                  control={form.control}
+                  name="destination_account_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Conta de destino</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecionar" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accountItems}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="payment_method"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Forma de Pagamento</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecionar" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {paymentMethods.map((method) => (
+                            <SelectItem key={method.value} value={method.value}>
+                              {method.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {!isTransfer && payees.length > 0 && (
+              <FormField
+                control={form.control}
+                name="payee_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Favorecido</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === AUTO_PAYEE ? '' : value)}
+                      value={field.value || AUTO_PAYEE}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={AUTO_PAYEE}>Automático (pela descrição)</SelectItem>
+                        {payees.map((payee) => (
+                          <SelectItem key={payee.id} value={payee.id}>
+                            {payee.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -237,23 +692,29 @@ export function TransactionDialog({
                   </FormItem>
                 )}
               />
+            )}
 
+            {goals.length > 0 && (
               <FormField
                 control={form.control}
-                name="payment_method"
+                name="goal_id"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Forma de Pagamento</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <FormLabel>Meta</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_GOAL ? '' : value)}
+                      value={field.value || NO_GOAL}
+                    >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Selecionar" />
+                          <SelectValue />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {paymentMethods.map((method) => (
-                          <SelectItem key={method.value} value={method.value}>
-                            {method.label}
+                        <SelectItem value={NO_GOAL}>Nenhuma</SelectItem>
+                        {goals.map((goal) => (
+                          <SelectItem key={goal.id} value={goal.id}>
+                            {goal.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -262,7 +723,21 @@ export function TransactionDialog({
                   </FormItem>
                 )}
               />
-            </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <TagInput value={field.value} onChange={field.onChange} suggestions={tags} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <FormField
               control={form.control}
@@ -282,6 +757,8 @@ export function TransactionDialog({
               )}
             />
 
+            <AttachmentArea transactionId={transaction?.id} source={transaction?.uploaded_files} />
+
             <div className="flex justify-end gap-3 pt-4">
               <Button 
                 type="button" 
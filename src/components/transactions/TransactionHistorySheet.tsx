@@ -0,0 +1,231 @@
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowRight, History, RotateCcw } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCategories } from '@/hooks/useCategories';
+import { useGoals } from '@/hooks/useGoals';
+import { usePayees } from '@/hooks/usePayees';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  HISTORY_FIELD_LABELS,
+  HISTORY_OPERATION_LABELS,
+  HistoryEntry,
+  HistoryField,
+  TransactionSnapshot,
+  getEntryVersion,
+  getFieldChanges,
+  getRestoreValues,
+  isSameVersion,
+} from '@/lib/history';
+import { getCategoryLabel } from '@/lib/categories';
+import { canEditProfile } from '@/lib/members';
+import { TRANSACTION_STATUS_LABELS, TransactionStatus } from '@/lib/status';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+const paymentMethodLabels: Record<string, string> = {
+  pix: 'Pix',
+  boleto: 'Boleto',
+  credito: 'Crédito',
+  debito: 'Débito',
+  dinheiro: 'Dinheiro',
+  transferencia: 'Transferência',
+};
+
+interface TransactionHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: (TransactionSnapshot & { id: string; type: 'income' | 'expense' | 'transfer' }) | null;
+}
+
+export function TransactionHistorySheet({ open, onOpenChange, transaction }: TransactionHistorySheetProps) {
+  const { user } = useAuth();
+  const { selectedProfile } = useProfiles();
+  const { accountsById } = useAccounts(selectedProfile?.id);
+  const { categoriesById } = useCategories(selectedProfile?.id);
+  const { goals } = useGoals(selectedProfile?.id);
+  const { payeesById } = usePayees(selectedProfile?.id);
+  const queryClient = useQueryClient();
+
+  // Keyed under 'transactions' so every transaction mutation refreshes the history
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['transactions', 'history', transaction?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transaction_history')
+        .select('*')
+        .eq('transaction_id', transaction.id)
+        .order('created_at', { ascending: false })
+        .overrideTypes<HistoryEntry[], { merge: false }>();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!transaction,
+  });
+
+  // Never restores a transfer leg on its own, which would leave the other leg out of step
+  const restoreMutation = useMutation({
+    mutationFn: async (version: TransactionSnapshot) => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .update(getRestoreValues(version))
+        .eq('id', transaction.id)
+        .is('transfer_id', null)
+        .select('id');
+
+      if (error) throw error;
+      if (data.length === 0) throw new Error('Transferências não podem ser restauradas por aqui');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi'] });
+      queryClient.invalidateQueries({ queryKey: ['chart'] });
+      toast.success('Versão restaurada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao restaurar versão: ' + error.message);
+    },
+  });
+
+  const formatValue = (field: HistoryField, value: string | number | null, snapshot: TransactionSnapshot) => {
+    if (value === null || value === '') return '—';
+    switch (field) {
+      case 'amount':
+        return formatMoney(Number(value), String(snapshot.currency || DEFAULT_CURRENCY));
+      case 'status':
+        return TRANSACTION_STATUS_LABELS[value as TransactionStatus] ?? String(value);
+      case 'transaction_date':
+        return format(parseISO(String(value)), 'dd/MM/yyyy');
+      case 'payment_method':
+        return paymentMethodLabels[value] ?? String(value);
+      case 'account_id':
+        return accountsById.get(String(value))?.name ?? 'Conta excluída';
+      case 'category_id': {
+        const category = categoriesById.get(String(value));
+        return category ? getCategoryLabel(category, categoriesById) : 'Categoria excluída';
+      }
+      case 'payee_id':
+        return payeesById.get(String(value))?.name ?? 'Favorecido excluído';
+      case 'goal_id':
+        return goals.find(g => g.id === value)?.name ?? 'Meta excluída';
+      default:
+        return String(value);
+    }
+  };
+
+  const getActorLabel = (entry: HistoryEntry) => {
+    if (entry.actor_id && entry.actor_id === user?.id) return 'você';
+    return entry.actor_email ?? 'sistema';
+  };
+
+  // The history of a transfer is read-only, since each leg has its own; so is it for viewers
+  const canRestore = transaction?.type !== 'transfer' && canEditProfile(selectedProfile?.role);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="font-display flex items-center gap-2">
+            <History className="h-5 w-5 text-muted-foreground" />
+            Histórico
+          </SheetTitle>
+          <SheetDescription className="truncate">{transaction?.description}</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">Nenhuma alteração registrada para este lançamento.</p>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-6 py-4">
+              {entries.map((entry) => {
+                const version = getEntryVersion(entry);
+                const changes = getFieldChanges(entry);
+                const isCurrent = !!transaction && !!version && isSameVersion(version, transaction);
+                return (
+                  <li key={entry.id} className="ml-4">
+                    <span
+                      className={cn(
+                        'absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background',
+                        entry.operation === 'delete' || entry.operation === 'trash' ? 'bg-destructive' : 'bg-primary'
+                      )}
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="font-normal">
+                          {HISTORY_OPERATION_LABELS[entry.operation]}
+                        </Badge>
+                        {isCurrent && (
+                          <span className="text-xs text-muted-foreground">versão atual</span>
+                        )}
+                      </div>
+                      {canRestore && version && !isCurrent && entry.operation !== 'delete' && entry.operation !== 'trash' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 gap-1 text-xs"
+                          onClick={() => restoreMutation.mutate(version)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                          Restaurar
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {format(parseISO(entry.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })} por {getActorLabel(entry)}
+                    </p>
+
+                    {entry.operation === 'insert' && version && (
+                      <p className="text-sm mt-2">
+                        {formatValue('amount', version.amount ?? null, version)} em{' '}
+                        {formatValue('transaction_date', version.transaction_date ?? null, version)}
+                      </p>
+                    )}
+
+                    {changes.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-sm">
+                        {changes.map(({ field, before, after }) => (
+                          <li key={field}>
+                            <span className="text-muted-foreground">{HISTORY_FIELD_LABELS[field]}: </span>
+                            <span className="line-through text-muted-foreground">
+                              {formatValue(field, before, entry.old_data)}
+                            </span>
+                            <ArrowRight className="inline h-3 w-3 mx-1 text-muted-foreground" />
+                            <span>{formatValue(field, after, entry.new_data)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {entry.operation === 'update' && changes.length === 0 && (
+                      <p className="text-sm text-muted-foreground mt-2">Alteração em campos internos</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
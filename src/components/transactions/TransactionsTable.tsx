@@ -9,7 +9,11 @@ import {
   FileText, 
   Banknote,
   ArrowRightLeft,
-  QrCode
+  ArrowRight,
+  QrCode,
+  Paperclip,
+  CheckCheck,
+  History
 } from 'lucide-react';
 import {
   Table,
@@ -21,6 +25,9 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AttachmentPreviewDialog } from '@/components/transactions/AttachmentPreviewDialog';
+import { TransactionHistorySheet } from '@/components/transactions/TransactionHistorySheet';
 import {
   Tooltip,
   TooltipContent,
@@ -38,23 +45,56 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTags } from '@/hooks/useTags';
+import { usePayees } from '@/hooks/usePayees';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
+import { Account, DEFAULT_ACCOUNT_COLOR } from '@/lib/accounts';
+import { getCategoryColor, getCategoryIcon, getCategoryLabel } from '@/lib/categories';
+import { getInstallmentLabel } from '@/lib/installments';
+import { DEFAULT_TAG_COLOR } from '@/lib/tags';
+import { SplitLine, sortSplits } from '@/lib/splits';
+import { Attachment, SourceFile } from '@/lib/attachments';
+import { TRANSACTION_STATUS_LABELS, TransactionStatus, isRealized } from '@/lib/status';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
 
 interface Transaction {
   id: string;
   description: string;
   amount: number;
+  currency?: string;
+  status?: TransactionStatus;
   payment_source: string | null;
+  account_id: string | null;
   payment_method: 'pix' | 'boleto' | 'credito' | 'debito' | 'dinheiro' | 'transferencia';
+  category_id: string | null;
+  payee_id?: string | null;
+  goal_id?: string | null;
   transaction_date: string;
   notes: string | null;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
+  destination_account_id?: string | null;
+  installment_number?: number | null;
+  installment_count?: number | null;
+  tag_ids?: string[];
+  transaction_splits?: (SplitLine & { position?: number })[];
+  transaction_attachments?: Attachment[];
+  uploaded_files?: SourceFile | null;
 }
 
 interface TransactionsTableProps {
   transactions: Transaction[];
   isLoading: boolean;
   onEdit: (transaction: Transaction) => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string, remaining?: boolean) => void;
+  // Hides editing and deletion, for viewers of a shared profile
+  readOnly?: boolean;
+  // Shows a checkbox per row for bulk actions when a change handler is given
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
 }
 
 const paymentMethodIcons = {
@@ -66,6 +106,12 @@ const paymentMethodIcons = {
   transferencia: ArrowRightLeft,
 };
 
+const amountPrefixes = {
+  income: '+ ',
+  expense: '- ',
+  transfer: '',
+};
+
 const paymentMethodLabels = {
   pix: 'Pix',
   boleto: 'Boleto',
@@ -75,42 +121,67 @@ const paymentMethodLabels = {
   transferencia: 'Transferência',
 };
 
-const sourceColors: Record<string, string> = {
-  'Nubank': 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400',
-  'Itaú': 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
-  'Bradesco': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
-  'Santander': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
-  'Banco do Brasil': 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
-  'Caixa': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
-  'Inter': 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
-  'C6 Bank': 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-400',
-  'PicPay': 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
-  'Mercado Pago': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
-  'Dinheiro': 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
-};
-
 export function TransactionsTable({ 
   transactions, 
   isLoading, 
   onEdit, 
-  onDelete 
+  onDelete,
+  readOnly = false,
+  selectedIds,
+  onSelectionChange,
 }: TransactionsTableProps) {
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [previewTarget, setPreviewTarget] = useState<Transaction | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<Transaction | null>(null);
+  const { selectedProfile } = useProfiles();
+  const { categoriesById } = useCategories(selectedProfile?.id);
+  const { accountsById } = useAccounts(selectedProfile?.id);
+  const { tagsById } = useTags(selectedProfile?.id);
+  const { payeesById } = usePayees(selectedProfile?.id);
+  const { locale } = useProfileSettings(selectedProfile?.id);
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
-  };
+  const baseCurrency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { converter } = useExchangeRates(selectedProfile?.id, baseCurrency);
+
+  const renderAccountBadge = (account: Account | undefined) => account ? (
+    <Badge variant="secondary" className="font-medium gap-1.5">
+      <span
+        className="w-2 h-2 rounded-full"
+        style={{ backgroundColor: account.color || DEFAULT_ACCOUNT_COLOR }}
+      />
+      {account.name}
+    </Badge>
+  ) : (
+    <span className="text-muted-foreground">-</span>
+  );
 
-  const handleConfirmDelete = () => {
+  const handleConfirmDelete = (remaining = false) => {
     if (deleteId) {
-      onDelete(deleteId);
+      onDelete(deleteId, remaining);
       setDeleteId(null);
     }
   };
 
+  const selectable = !!onSelectionChange && !readOnly;
+  const selectedCount = selectable ? transactions.filter(t => selectedIds?.has(t.id)).length : 0;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    onSelectionChange(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    onSelectionChange(checked ? new Set(transactions.map(t => t.id)) : new Set());
+  };
+
+  const deleteTarget = transactions.find(t => t.id === deleteId);
+  const deleteTargetInstallment = deleteTarget && getInstallmentLabel({
+    installment_number: deleteTarget.installment_number ?? null,
+    installment_count: deleteTarget.installment_count ?? null,
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -137,41 +208,191 @@ export function TransactionsTable({
         <Table>
           <TableHeader>
             <TableRow className="bg-muted/50">
+              {selectable && (
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    aria-label="Selecionar todos"
+                    checked={
+                      selectedCount === transactions.length ? true : selectedCount > 0 ? 'indeterminate' : false
+                    }
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                  />
+                </TableHead>
+              )}
               <TableHead className="font-semibold">Descrição</TableHead>
               <TableHead className="font-semibold">Valor</TableHead>
-              <TableHead className="font-semibold">Pagador/Cartão</TableHead>
+              <TableHead className="font-semibold">Categoria</TableHead>
+              <TableHead className="font-semibold">Conta</TableHead>
               <TableHead className="font-semibold">Forma</TableHead>
               <TableHead className="font-semibold">Data</TableHead>
               <TableHead className="font-semibold">Observação</TableHead>
-              <TableHead className="font-semibold w-[100px]">Ações</TableHead>
+              <TableHead className={cn('font-semibold', readOnly ? 'w-[50px]' : 'w-[130px]')}>Ações</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {transactions.map((transaction) => {
               const MethodIcon = paymentMethodIcons[transaction.payment_method];
+              const category = transaction.category_id ? categoriesById.get(transaction.category_id) : undefined;
+              const CategoryIcon = category ? getCategoryIcon(category, categoriesById) : null;
+              const account = transaction.account_id ? accountsById.get(transaction.account_id) : undefined;
+              const destination = transaction.destination_account_id
+                ? accountsById.get(transaction.destination_account_id)
+                : undefined;
+              const installmentLabel = getInstallmentLabel({
+                installment_number: transaction.installment_number ?? null,
+                installment_count: transaction.installment_count ?? null,
+              });
+              const payee = transaction.payee_id ? payeesById.get(transaction.payee_id) : undefined;
+              const tags = (transaction.tag_ids ?? []).map(id => tagsById.get(id)).filter(Boolean);
+              const splits = sortSplits(transaction.transaction_splits);
+              const currency = transaction.currency || baseCurrency;
+              const isPlanned = !isRealized(transaction.status);
+              const attachmentCount = (transaction.transaction_attachments?.length ?? 0) + (transaction.uploaded_files ? 1 : 0);
+              // Foreign amounts also show their value in the profile's base currency
+              const converted = currency !== baseCurrency
+                ? converter.convert(transaction.amount, currency, transaction.transaction_date)
+                : null;
               return (
-                <TableRow key={transaction.id} className="hover:bg-muted/30">
-                  <TableCell className="font-medium">{transaction.description}</TableCell>
+                <TableRow
+                  key={transaction.id}
+                  className={cn('hover:bg-muted/30', isPlanned && 'bg-muted/20 text-muted-foreground')}
+                  data-state={selectedIds?.has(transaction.id) ? 'selected' : undefined}
+                >
+                  {selectable && (
+                    <TableCell>
+                      <Checkbox
+                        aria-label="Selecionar lançamento"
+                        checked={selectedIds?.has(transaction.id) ?? false}
+                        onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {/* The payee's clean name replaces the raw description, which stays one hover away */}
+                      {payee ? (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className={cn('cursor-default', isPlanned && 'italic')}>{payee.name}</span>
+                          </TooltipTrigger>
+                          <TooltipContent>{transaction.description}</TooltipContent>
+                        </Tooltip>
+                      ) : (
+                        <span className={cn(isPlanned && 'italic')}>{transaction.description}</span>
+                      )}
+                      {isPlanned && (
+                        <Badge variant="outline" className="font-normal border-dashed text-muted-foreground">
+                          {TRANSACTION_STATUS_LABELS.planned}
+                        </Badge>
+                      )}
+                      {transaction.status === 'reconciled' && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <CheckCheck className="h-4 w-4 text-income" />
+                          </TooltipTrigger>
+                          <TooltipContent>{TRANSACTION_STATUS_LABELS.reconciled}</TooltipContent>
+                        </Tooltip>
+                      )}
+                      {installmentLabel && (
+                        <Badge variant="outline" className="font-normal text-muted-foreground">
+                          {installmentLabel}
+                        </Badge>
+                      )}
+                      {splits.length > 0 && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="outline" className="font-normal text-muted-foreground cursor-default">
+                              {splits.length} divisões
+                            </Badge>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <div className="space-y-1">
+                              {splits.map((split, index) => (
+                                <div key={index} className="flex justify-between gap-4">
+                                  <span>{split.label}</span>
+                                  <span className="font-medium">{formatMoney(Number(split.amount), currency, locale)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                      {attachmentCount > 0 && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-1.5 gap-1 text-muted-foreground"
+                              onClick={() => setPreviewTarget(transaction)}
+                            >
+                              <Paperclip className="h-3.5 w-3.5" />
+                              {attachmentCount > 1 && <span className="text-xs">{attachmentCount}</span>}
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {transaction.uploaded_files ? `Importado de ${transaction.uploaded_files.file_name}` : 'Ver anexos'}
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                    </div>
+                    {tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {tags.map((tag) => (
+                          <Badge
+                            key={tag.id}
+                            variant="outline"
+                            className="font-normal text-xs px-1.5 py-0"
+                            style={{ borderColor: tag.color || DEFAULT_TAG_COLOR, color: tag.color || DEFAULT_TAG_COLOR }}
+                          >
+                            #{tag.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <span className={cn(
                       'font-semibold',
-                      transaction.type === 'income' ? 'text-income' : 'text-expense'
+                      isPlanned && 'opacity-60',
+                      transaction.type === 'income' && 'text-income',
+                      transaction.type === 'expense' && 'text-expense'
                     )}>
-                      {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
+                      {amountPrefixes[transaction.type]}{formatMoney(transaction.amount, currency, locale)}
                     </span>
+                    {converted !== null && (
+                      <p className="text-xs text-muted-foreground">≈ {formatMoney(converted, baseCurrency, locale)}</p>
+                    )}
                   </TableCell>
                   <TableCell>
-                    {transaction.payment_source && (
-                      <Badge 
-                        variant="secondary" 
-                        className={cn(
-                          'font-medium',
-                          sourceColors[transaction.payment_source] || 'bg-secondary text-secondary-foreground'
-                        )}
-                      >
+                    {category ? (
+                      <div className="flex items-center gap-2">
+                        <CategoryIcon
+                          className="h-4 w-4 shrink-0"
+                          style={{ color: getCategoryColor(category, categoriesById) }}
+                        />
+                        <span className="text-sm truncate max-w-[180px]">
+                          {getCategoryLabel(category, categoriesById)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {transaction.type === 'transfer' ? (
+                      <div className="flex items-center gap-1.5">
+                        {renderAccountBadge(account)}
+                        <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                        {renderAccountBadge(destination)}
+                      </div>
+                    ) : account ? (
+                      renderAccountBadge(account)
+                    ) : transaction.payment_source ? (
+                      <Badge variant="secondary" className="font-medium bg-secondary text-secondary-foreground">
                         {transaction.payment_source}
                       </Badge>
-                    )}
+                    ) : null}
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
@@ -200,22 +421,35 @@ export function TransactionsTable({
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1">
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => onEdit(transaction)}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8"
-                        onClick={() => onEdit(transaction)}
-                      >
-                        <Edit2 className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-destructive hover:text-destructive"
-                        onClick={() => setDeleteId(transaction.id)}
+                        title="Histórico"
+                        onClick={() => setHistoryTarget(transaction)}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <History className="h-4 w-4" />
                       </Button>
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteId(transaction.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -230,20 +464,45 @@ export function TransactionsTable({
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir este lançamento? Esta ação não pode ser desfeita.
+              {deleteTarget?.type === 'transfer'
+                ? 'Tem certeza que deseja excluir esta transferência? Ela será removida das duas contas e ficará na Lixeira.'
+                : deleteTargetInstallment
+                  ? `Este lançamento é a parcela ${deleteTargetInstallment}. Você pode excluir apenas esta parcela ou cancelar também as próximas. Os lançamentos excluídos ficam na Lixeira.`
+                  : 'Tem certeza que deseja excluir este lançamento? Ele ficará na Lixeira, de onde pode ser restaurado.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            {deleteTargetInstallment && (
+              <AlertDialogAction
+                onClick={() => handleConfirmDelete(true)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Excluir esta e as próximas
+              </AlertDialogAction>
+            )}
             <AlertDialogAction 
-              onClick={handleConfirmDelete}
+              onClick={() => handleConfirmDelete()}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              Excluir
+              {deleteTargetInstallment ? 'Excluir apenas esta' : 'Excluir'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AttachmentPreviewDialog
+        open={!!previewTarget}
+        onOpenChange={(open) => !open && setPreviewTarget(null)}
+        attachments={previewTarget?.transaction_attachments ?? []}
+        source={previewTarget?.uploaded_files}
+      />
+
+      <TransactionHistorySheet
+        open={!!historyTarget}
+        onOpenChange={(open) => !open && setHistoryTarget(null)}
+        transaction={historyTarget && transactions.find(t => t.id === historyTarget.id) || historyTarget}
+      />
     </TooltipProvider>
   );
 }
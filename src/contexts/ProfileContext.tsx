@@ -1,7 +1,10 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { DEFAULT_CATEGORIES } from '@/lib/categories';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { ProfileRole } from '@/lib/members';
 
 export interface Profile {
   id: string;
@@ -9,64 +12,132 @@ export interface Profile {
   name: string;
   description: string | null;
   color: string;
+  base_currency: string;
+  deleted_at: string | null;
+  archived_at: string | null;
   created_at: string;
   updated_at: string;
+  // The signed-in user's role in the profile
+  role: ProfileRole;
 }
 
 interface ProfileContextType {
   profiles: Profile[];
+  // Hidden from the switcher; their data still shows up in exports
+  archivedProfiles: Profile[];
   selectedProfile: Profile | null;
   setSelectedProfile: (profile: Profile | null) => void;
   isLoading: boolean;
-  createProfile: (data: { name: string; description?: string; color?: string }) => Promise<void>;
-  updateProfile: (id: string, data: { name?: string; description?: string; color?: string }) => Promise<void>;
+  createProfile: (data: { name: string; description?: string; color?: string; base_currency?: string }) => Promise<void>;
+  updateProfile: (id: string, data: { name?: string; description?: string; color?: string; base_currency?: string }) => Promise<void>;
   deleteProfile: (id: string) => Promise<void>;
+  archiveProfile: (id: string, archived: boolean) => Promise<void>;
   refetch: () => void;
 }
 
 const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
 
+// Seed the default category set for a newly created profile
+async function seedDefaultCategories(profileId: string, userId: string) {
+  const { data: parents, error } = await supabase
+    .from('categories')
+    .insert(DEFAULT_CATEGORIES.map(c => ({
+      profile_id: profileId,
+      user_id: userId,
+      type: c.type,
+      name: c.name,
+      icon: c.icon,
+      color: c.color,
+    })))
+    .select('id, name, type');
+
+  if (error) throw error;
+
+  const children = DEFAULT_CATEGORIES.flatMap(c => {
+    const parent = parents.find(p => p.name === c.name && p.type === c.type);
+    return (c.children || []).map(name => ({
+      profile_id: profileId,
+      user_id: userId,
+      parent_id: parent.id,
+      type: c.type,
+      name,
+    }));
+  });
+
+  if (children.length > 0) {
+    const { error: childrenError } = await supabase.from('categories').insert(children);
+    if (childrenError) throw childrenError;
+  }
+}
+
 export function ProfileProvider({ children }: { children: ReactNode }) {
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
   const queryClient = useQueryClient();
 
-  const { data: profiles = [], isLoading, refetch } = useQuery({
+  const { data: allProfiles = [], isLoading, refetch } = useQuery({
     queryKey: ['profiles'],
     queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      // Shared profiles come along with the user's own ones
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, profile_members(role)')
+        .eq('profile_members.user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: true });
       
       if (error) throw error;
-      return data as Profile[];
+      return data.map(({ profile_members, ...profile }) => ({
+        ...profile,
+        role: (profile_members[0]?.role ?? 'owner') as ProfileRole,
+      })) as Profile[];
     },
   });
 
+  const profiles = useMemo(() => allProfiles.filter(p => !p.archived_at), [allProfiles]);
+  const archivedProfiles = useMemo(() => allProfiles.filter(p => p.archived_at), [allProfiles]);
+
   useEffect(() => {
     if (profiles.length > 0 && !selectedProfile) {
       setSelectedProfile(profiles[0]);
+      return;
+    }
+    // Keep the selection in sync after the profile is edited (e.g. its base currency)
+    const fresh = selectedProfile && profiles.find(p => p.id === selectedProfile.id);
+    if (fresh && fresh !== selectedProfile) {
+      setSelectedProfile(fresh);
+    } else if (selectedProfile && !fresh && !isLoading) {
+      // The selected profile was archived, merged away or left
+      setSelectedProfile(profiles[0] ?? null);
     }
-  }, [profiles, selectedProfile]);
+  }, [profiles, selectedProfile, isLoading]);
 
   const createProfileMutation = useMutation({
-    mutationFn: async (data: { name: string; description?: string; color?: string }) => {
+    mutationFn: async (data: { name: string; description?: string; color?: string; base_currency?: string }) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Usuário não autenticado');
 
-      const { error } = await supabase
+      const { data: profile, error } = await supabase
         .from('profiles')
         .insert({
           user_id: user.id,
           name: data.name,
           description: data.description || null,
           color: data.color || '#0891b2',
-        });
+          base_currency: data.base_currency || DEFAULT_CURRENCY,
+        })
+        .select()
+        .single();
 
       if (error) throw error;
+
+      await seedDefaultCategories(profile.id, user.id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
       toast.success('Perfil criado com sucesso!');
     },
     onError: (error) => {
@@ -75,7 +146,7 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
   });
 
   const updateProfileMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { name?: string; description?: string; color?: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: { name?: string; description?: string; color?: string; base_currency?: string } }) => {
       const { error } = await supabase
         .from('profiles')
         .update(data)
@@ -85,6 +156,9 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      // Dashboard aggregates depend on the base currency
+      queryClient.invalidateQueries({ queryKey: ['kpi'] });
+      queryClient.invalidateQueries({ queryKey: ['chart'] });
       toast.success('Perfil atualizado com sucesso!');
     },
     onError: (error) => {
@@ -92,11 +166,12 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  // Profiles go to the trash with everything in them; they are purged after the retention period
   const deleteProfileMutation = useMutation({
     mutationFn: async (id: string) => {
       const { error } = await supabase
         .from('profiles')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', id);
 
       if (error) throw error;
@@ -104,15 +179,36 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['profiles'] });
       setSelectedProfile(null);
-      toast.success('Perfil excluído com sucesso!');
+      toast.success('Perfil movido para a lixeira!');
     },
     onError: (error) => {
       toast.error('Erro ao excluir perfil: ' + error.message);
     },
   });
 
+  // Archived profiles leave the switcher but keep their data; unarchiving brings them back
+  const archiveProfileMutation = useMutation({
+    mutationFn: async ({ id, archived }: { id: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', id);
+
+      if (error) throw error;
+      return archived;
+    },
+    onSuccess: (archived) => {
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      toast.success(archived ? 'Perfil arquivado!' : 'Perfil desarquivado!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao arquivar perfil: ' + error.message);
+    },
+  });
+
   const value: ProfileContextType = {
     profiles,
+    archivedProfiles,
     selectedProfile,
     setSelectedProfile,
     isLoading,
@@ -125,6 +221,9 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
     deleteProfile: async (id) => {
       await deleteProfileMutation.mutateAsync(id);
     },
+    archiveProfile: async (id, archived) => {
+      await archiveProfileMutation.mutateAsync({ id, archived });
+    },
     refetch,
   };
 
@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { Account, BalanceTransaction, computeAccountBalances } from '@/lib/accounts';
+import { convertAmounts } from '@/lib/currency';
+
+export function useAccounts(profileId: string | undefined) {
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['accounts', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Account[];
+    },
+    enabled: !!profileId,
+  });
+
+  const accountsById = useMemo(
+    () => new Map(accounts.map(a => [a.id, a])),
+    [accounts]
+  );
+
+  return { accounts, accountsById, isLoading };
+}
+
+// Balances are in the profile's base currency; transactions without a rate are left out
+// and their currencies reported in `missing`
+export function useAccountBalances(profileId: string | undefined) {
+  const { accounts } = useAccounts(profileId);
+  const { profiles } = useProfiles();
+  const baseCurrency = profiles.find(p => p.id === profileId)?.base_currency;
+  const { converter } = useExchangeRates(profileId, baseCurrency);
+
+  // Keyed under 'transactions' so every transaction mutation refreshes the balances
+  const { data: transactions = [] } = useQuery({
+    queryKey: ['transactions', 'balances', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('account_id, type, transfer_direction, amount, currency, transaction_date')
+        .is('deleted_at', null)
+        .eq('profile_id', profileId)
+        .not('account_id', 'is', null)
+        .neq('status', 'planned'); // planned entries have not moved money yet
+
+      if (error) throw error;
+      return data as BalanceTransaction[];
+    },
+    enabled: !!profileId,
+  });
+
+  const { balances, missing } = useMemo(() => {
+    const converted = convertAmounts(transactions, converter);
+    return { balances: computeAccountBalances(accounts, converted.rows), missing: converted.missing };
+  }, [accounts, transactions, converter]);
+
+  return { accounts, balances, missing };
+}
@@ -0,0 +1,84 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Attachment, getAttachmentPath } from '@/lib/attachments';
+
+export function useAttachments(transactionId: string | undefined) {
+  const { data: attachments = [], isLoading } = useQuery({
+    queryKey: ['transaction_attachments', transactionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transaction_attachments')
+        .select('id, file_name, file_type, file_size, storage_path')
+        .eq('transaction_id', transactionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Attachment[];
+    },
+    enabled: !!transactionId,
+  });
+
+  return { attachments, isLoading };
+}
+
+// Uploads the files to the uploads bucket and links them to the transaction
+export async function uploadTransactionAttachments(
+  profileId: string,
+  userId: string,
+  transactionId: string,
+  files: File[]
+) {
+  for (const file of files) {
+    const storagePath = getAttachmentPath(userId, profileId, file.name);
+
+    const { error: uploadError } = await supabase.storage
+      .from('uploads')
+      .upload(storagePath, file);
+
+    if (uploadError) throw new Error(`Erro ao enviar ${file.name}`);
+
+    const { error } = await supabase
+      .from('transaction_attachments')
+      .insert({
+        transaction_id: transactionId,
+        user_id: userId,
+        file_name: file.name,
+        file_type: file.type,
+        file_size: file.size,
+        storage_path: storagePath,
+      });
+
+    if (error) {
+      await supabase.storage.from('uploads').remove([storagePath]);
+      throw error;
+    }
+  }
+}
+
+// Removes the stored files first; the rows go away with them (or with their transaction)
+export async function deleteTransactionAttachments(attachments: Pick<Attachment, 'id' | 'storage_path'>[]) {
+  if (attachments.length === 0) return;
+
+  const { error: storageError } = await supabase.storage
+    .from('uploads')
+    .remove(attachments.map(a => a.storage_path));
+
+  if (storageError) throw storageError;
+
+  const { error } = await supabase
+    .from('transaction_attachments')
+    .delete()
+    .in('id', attachments.map(a => a.id));
+
+  if (error) throw error;
+}
+
+// The bucket is private, so files are opened through short-lived signed URLs
+export async function getAttachmentUrl(storagePath: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from('uploads')
+    .createSignedUrl(storagePath, 60 * 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
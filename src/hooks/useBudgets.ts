@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCategories } from '@/hooks/useCategories';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
+import { Budget, BudgetTransaction, computeBudgetProgress, getBudgetMonth } from '@/lib/budgets';
+import { convertAmounts } from '@/lib/currency';
+import { getMonthPeriod, toDateRange } from '@/lib/period';
+
+export function useBudgets(profileId: string | undefined, month: number, year: number) {
+  const { data: budgets = [], isLoading } = useQuery({
+    queryKey: ['budgets', profileId, year, month],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('budgets')
+        .select('*')
+        .eq('profile_id', profileId)
+        .eq('month', getBudgetMonth(month, year))
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Budget[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { budgets, isLoading };
+}
+
+// Budget lines of the month with what was spent against each of them during the financial month
+export function useBudgetProgress(profileId: string | undefined, month: number, year: number) {
+  const { budgets, isLoading } = useBudgets(profileId, month, year);
+  const { profiles } = useProfiles();
+  const baseCurrency = profiles.find(p => p.id === profileId)?.base_currency;
+  const { converter } = useExchangeRates(profileId, baseCurrency);
+  const { accountsById } = useAccounts(profileId);
+  const { categoriesById } = useCategories(profileId);
+  const { monthStart } = useProfileSettings(profileId);
+  const range = toDateRange(getMonthPeriod(month, year, monthStart));
+
+  const { data: expenses = [], isLoading: isLoadingExpenses } = useQuery({
+    queryKey: ['transactions', 'budget', profileId, range.start, range.end],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('description, amount, currency, transaction_date, payment_method, payment_source, account_id, category_id')
+        .is('deleted_at', null)
+        .eq('profile_id', profileId)
+        .eq('type', 'expense')
+        .gte('transaction_date', range.start)
+        .lte('transaction_date', range.end);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!profileId && budgets.length > 0,
+  });
+
+  // Budgets are set in the base currency; expenses without a rate are left out
+  const progress = useMemo(
+    () => computeBudgetProgress(
+      budgets,
+      convertAmounts(expenses, converter).rows as BudgetTransaction[],
+      { accountsById, categoriesById }
+    ),
+    [budgets, expenses, converter, accountsById, categoriesById]
+  );
+
+  return { budgets, progress, isLoading: isLoading || isLoadingExpenses };
+}
@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Category, sortCategoriesAsTree } from '@/lib/categories';
+
+export function useCategories(profileId: string | undefined) {
+  const { data: categories = [], isLoading } = useQuery({
+    queryKey: ['categories', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('profile_id', profileId);
+
+      if (error) throw error;
+      return sortCategoriesAsTree(data as Category[]);
+    },
+    enabled: !!profileId,
+  });
+
+  const categoriesById = useMemo(
+    () => new Map(categories.map(c => [c.id, c])),
+    [categories]
+  );
+
+  return { categories, categoriesById, isLoading };
+}
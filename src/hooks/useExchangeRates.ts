@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ExchangeRate, createConverter } from '@/lib/currency';
+
+// Rates belong to the profile, so every member converts with the same ones
+export function useExchangeRates(profileId: string | undefined, baseCurrency: string | undefined) {
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ['exchange_rates', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('id, from_currency, to_currency, rate, rate_date')
+        .eq('profile_id', profileId)
+        .order('rate_date', { ascending: false });
+
+      if (error) throw error;
+      return data as ExchangeRate[];
+    },
+    enabled: !!profileId,
+  });
+
+  const converter = useMemo(
+    () => createConverter(rates, baseCurrency),
+    [rates, baseCurrency]
+  );
+
+  return { rates, converter, isLoading };
+}
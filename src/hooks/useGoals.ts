@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Goal,
+  GoalContribution,
+  GoalTransaction,
+  ManualContribution,
+  manualToContribution,
+  transactionToContribution,
+} from '@/lib/goals';
+
+export function useGoals(profileId: string | undefined) {
+  const { data: goals = [], isLoading } = useQuery({
+    queryKey: ['goals', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('goals')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('target_date', { ascending: true });
+
+      if (error) throw error;
+      return data as Goal[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { goals, isLoading };
+}
+
+// Manual contributions and linked transactions of every goal, newest first
+export function useGoalContributions(profileId: string | undefined) {
+  const { data: manual = [], isLoading: isLoadingManual } = useQuery({
+    queryKey: ['goal_contributions', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('goal_contributions')
+        .select('id, goal_id, amount, contribution_date, notes')
+        .eq('profile_id', profileId);
+
+      if (error) throw error;
+      return data as ManualContribution[];
+    },
+    enabled: !!profileId,
+  });
+
+  const { data: linked = [], isLoading: isLoadingLinked } = useQuery({
+    queryKey: ['transactions', 'goals', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, goal_id, description, amount, type, transfer_direction, transaction_date')
+        .is('deleted_at', null)
+        .eq('profile_id', profileId)
+        .not('goal_id', 'is', null);
+
+      if (error) throw error;
+      return data as GoalTransaction[];
+    },
+    enabled: !!profileId,
+  });
+
+  const contributionsByGoal = useMemo(() => {
+    const all: GoalContribution[] = [
+      ...manual.map(manualToContribution),
+      ...linked.map(transactionToContribution).filter((c): c is GoalContribution => c !== null),
+    ].sort((a, b) => b.date.localeCompare(a.date));
+
+    const byGoal = new Map<string, GoalContribution[]>();
+    all.forEach(c => byGoal.set(c.goal_id, [...(byGoal.get(c.goal_id) ?? []), c]));
+    return byGoal;
+  }, [manual, linked]);
+
+  return { contributionsByGoal, isLoading: isLoadingManual || isLoadingLinked };
+}
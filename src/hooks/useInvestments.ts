@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { InvestmentAsset, InvestmentMovement, InvestmentPrice } from '@/lib/investments';
+
+export function useInvestmentAssets(profileId: string | undefined) {
+  const { data: assets = [], isLoading } = useQuery({
+    queryKey: ['investment_assets', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('investment_assets')
+        .select('id, profile_id, name, ticker, asset_class, currency, notes')
+        .eq('profile_id', profileId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as InvestmentAsset[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { assets, isLoading };
+}
+
+// Movements of every asset of the profile, newest first
+export function useInvestmentMovements(profileId: string | undefined) {
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ['investment_movements', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('investment_movements')
+        .select('id, asset_id, type, movement_date, quantity, unit_price, fees, amount, transaction_id, notes')
+        .eq('profile_id', profileId)
+        .order('movement_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as InvestmentMovement[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { movements, isLoading };
+}
+
+export function useInvestmentPrices(profileId: string | undefined) {
+  const { data: prices = [], isLoading } = useQuery({
+    queryKey: ['investment_prices', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('investment_prices')
+        .select('id, asset_id, price, price_date')
+        .eq('profile_id', profileId)
+        .order('price_date', { ascending: false });
+
+      if (error) throw error;
+      return data as InvestmentPrice[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { prices, isLoading };
+}
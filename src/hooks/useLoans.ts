@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Loan, LoanInstallmentTransaction } from '@/lib/loans';
+
+export function useLoans(profileId: string | undefined) {
+  const { data: loans = [], isLoading } = useQuery({
+    queryKey: ['loans', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('loans')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('first_due_date', { ascending: true });
+
+      if (error) throw error;
+      return data as Loan[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { loans, isLoading };
+}
+
+// Installment expenses of every loan of the profile, grouped by loan
+export function useLoanInstallments(profileId: string | undefined) {
+  const { data: installments = [], isLoading } = useQuery({
+    queryKey: ['transactions', 'loans', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, loan_id, loan_installment, amount, transaction_date, status')
+        .is('deleted_at', null)
+        .eq('profile_id', profileId)
+        .not('loan_id', 'is', null)
+        .order('loan_installment', { ascending: true });
+
+      if (error) throw error;
+      return data as LoanInstallmentTransaction[];
+    },
+    enabled: !!profileId,
+  });
+
+  const installmentsByLoan = useMemo(() => {
+    const byLoan = new Map<string, LoanInstallmentTransaction[]>();
+    installments.forEach(t => byLoan.set(t.loan_id, [...(byLoan.get(t.loan_id) ?? []), t]));
+    return byLoan;
+  }, [installments]);
+
+  return { installmentsByLoan, isLoading };
+}
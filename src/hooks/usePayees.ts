@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Payee } from '@/lib/payees';
+
+export function usePayees(profileId: string | undefined) {
+  const { data: payees = [], isLoading } = useQuery({
+    queryKey: ['payees', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payees')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Payee[];
+    },
+    enabled: !!profileId,
+  });
+
+  const payeesById = useMemo(
+    () => new Map(payees.map(p => [p.id, p])),
+    [payees]
+  );
+
+  return { payees, payeesById, isLoading };
+}
@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ProfileInvitation, ProfileMember, ReceivedInvitation } from '@/lib/members';
+
+export function useProfileMembers(profileId: string | undefined) {
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ['profile_members', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profile_members')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as ProfileMember[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { members, isLoading };
+}
+
+// Pending invitations of a profile; only its owner can read them
+export function useProfileInvitations(profileId: string | undefined, enabled: boolean) {
+  const { data: invitations = [], isLoading } = useQuery({
+    queryKey: ['profile_invitations', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profile_invitations')
+        .select('*')
+        .eq('profile_id', profileId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as ProfileInvitation[];
+    },
+    enabled: !!profileId && enabled,
+  });
+
+  return { invitations, isLoading };
+}
+
+// Pending invitations sent to the signed-in user's email
+export function useReceivedInvitations() {
+  const { data: invitations = [], isLoading } = useQuery({
+    queryKey: ['profile_invitations', 'received'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_received_invitations');
+
+      if (error) throw error;
+      return data as ReceivedInvitation[];
+    },
+  });
+
+  return { invitations, isLoading };
+}
@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_LOCALE } from '@/lib/currency';
+import { DEFAULT_MONTH_START, MonthStart, MonthStartRule } from '@/lib/period';
+
+// Profiles without a settings row get the defaults
+export function useProfileSettings(profileId: string | undefined) {
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['profile_settings', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profile_settings')
+        .select('*')
+        .eq('profile_id', profileId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!profileId,
+  });
+
+  const monthStart = useMemo<MonthStart>(
+    () => settings
+      ? { rule: settings.month_start_rule as MonthStartRule, day: settings.month_start_day }
+      : DEFAULT_MONTH_START,
+    [settings]
+  );
+
+  return {
+    settings,
+    defaultPaymentMethod: settings?.default_payment_method ?? null,
+    defaultAccountId: settings?.default_account_id ?? null,
+    defaultCurrency: settings?.default_currency ?? null,
+    locale: settings?.locale ?? DEFAULT_LOCALE,
+    monthStart,
+    isLoading,
+  };
+}
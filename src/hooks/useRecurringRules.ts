@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { canEditProfile } from '@/lib/members';
+import { RecurringRule, getPendingOccurrences, occurrenceToTransaction } from '@/lib/recurrence';
+
+export function useRecurringRules(profileId: string | undefined) {
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['recurring_rules', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('recurring_rules')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('description', { ascending: true });
+
+      if (error) throw error;
+      return data as RecurringRule[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { rules, isLoading };
+}
+
+// Creates the transactions of every occurrence due up to today. Safe to run more than once:
+// the (recurring_rule_id, recurrence_date) key turns repeated inserts into no-ops, and
+// materialized_through keeps deleted occurrences from coming back.
+export function useMaterializeRecurring(profileId: string | undefined) {
+  const { profiles } = useProfiles();
+  const { user } = useAuth();
+  // Viewers cannot write to the profile; it is left for a member who can
+  const canMaterialize = canEditProfile(profiles.find(p => p.id === profileId)?.role);
+  const { rules } = useRecurringRules(canMaterialize ? profileId : undefined);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const today = startOfDay(new Date());
+    const dueRules = rules.filter(r =>
+      r.is_active && (!r.materialized_through || parseISO(r.materialized_through) < today)
+    );
+    if (!user || dueRules.length === 0) return;
+
+    const materialize = async () => {
+      for (const rule of dueRules) {
+        const rows = getPendingOccurrences(rule, today).map(o => occurrenceToTransaction(o, user.id));
+
+        if (rows.length > 0) {
+          const { error } = await supabase
+            .from('transactions')
+            .upsert(rows, { onConflict: 'recurring_rule_id,recurrence_date', ignoreDuplicates: true });
+
+          if (error) throw error;
+        }
+
+        const { error: ruleError } = await supabase
+          .from('recurring_rules')
+          .update({ materialized_through: format(today, 'yyyy-MM-dd') })
+          .eq('id', rule.id);
+
+        if (ruleError) throw ruleError;
+      }
+    };
+
+    materialize()
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ['recurring_rules'] });
+        queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['kpi'] });
+        queryClient.invalidateQueries({ queryKey: ['chart'] });
+      })
+      .catch((error) => {
+        toast.error('Erro ao gerar lançamentos recorrentes: ' + error.message);
+      });
+  }, [rules, user, queryClient]);
+}
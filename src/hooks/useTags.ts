@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tag } from '@/lib/tags';
+
+export function useTags(profileId: string | undefined) {
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: ['tags', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Tag[];
+    },
+    enabled: !!profileId,
+  });
+
+  const tagsById = useMemo(
+    () => new Map(tags.map(t => [t.id, t])),
+    [tags]
+  );
+
+  return { tags, tagsById, isLoading };
+}
+
+// Attaches tags by name, creating the ones that do not exist yet
+export async function linkTransactionTags(
+  profileId: string,
+  userId: string,
+  links: { transactionId: string; tagNames: string[] }[]
+) {
+  const tagNames = [...new Set(links.flatMap(l => l.tagNames))];
+  if (tagNames.length === 0) return;
+
+  const { error: tagsError } = await supabase
+    .from('tags')
+    .upsert(
+      tagNames.map(name => ({ profile_id: profileId, user_id: userId, name })),
+      { onConflict: 'profile_id,name', ignoreDuplicates: true }
+    );
+
+  if (tagsError) throw tagsError;
+
+  const { data: tags, error: fetchError } = await supabase
+    .from('tags')
+    .select('id, name')
+    .eq('profile_id', profileId)
+    .in('name', tagNames);
+
+  if (fetchError) throw fetchError;
+
+  const tagIds = new Map(tags.map(t => [t.name, t.id]));
+  const { error } = await supabase
+    .from('transaction_tags')
+    .insert(links.flatMap(({ transactionId, tagNames }) =>
+      tagNames.map(name => ({ transaction_id: transactionId, tag_id: tagIds.get(name), user_id: userId }))
+    ));
+
+  if (error) throw error;
+}
+
+// Replaces the tags of the given transactions
+export async function saveTransactionTags(
+  profileId: string,
+  userId: string,
+  transactionIds: string[],
+  tagNames: string[]
+) {
+  if (transactionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('transaction_tags')
+    .delete()
+    .in('transaction_id', transactionIds);
+
+  if (error) throw error;
+
+  await linkTransactionTags(
+    profileId,
+    userId,
+    transactionIds.map(transactionId => ({ transactionId, tagNames }))
+  );
+}
@@ -0,0 +1,119 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Profile } from '@/contexts/ProfileContext';
+
+// Keeps each id list short enough for the request URL
+const PURGE_BATCH_SIZE = 100;
+
+export interface TrashedTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  type: 'income' | 'expense' | 'transfer';
+  transaction_date: string;
+  deleted_at: string;
+}
+
+export function useTrashedTransactions(profileId: string | undefined) {
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: ['transactions', 'trash', profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, description, amount, currency, type, transfer_direction, transaction_date, deleted_at')
+        .eq('profile_id', profileId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      // Each transfer is listed once, as its outgoing leg; the other leg follows it (database trigger)
+      return data.filter(t => t.transfer_direction !== 'in') as TrashedTransaction[];
+    },
+    enabled: !!profileId,
+  });
+
+  return { transactions, isLoading };
+}
+
+export type TrashedProfile = Omit<Profile, 'role'>;
+
+// Only the owner can restore or purge a profile, so shared ones are left out
+export function useTrashedProfiles() {
+  const { user } = useAuth();
+
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: ['profiles', 'trash', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      return data as TrashedProfile[];
+    },
+    enabled: !!user,
+  });
+
+  return { profiles, isLoading };
+}
+
+async function removeStoredFiles(storagePaths: string[]) {
+  if (storagePaths.length === 0) return;
+
+  const { error } = await supabase.storage.from('uploads').remove(storagePaths);
+  if (error) throw error;
+}
+
+// Deletes the transactions for good, along with their attachment files
+export async function purgeTransactions(ids: string[]) {
+  for (let i = 0; i < ids.length; i += PURGE_BATCH_SIZE) {
+    const batch = ids.slice(i, i + PURGE_BATCH_SIZE);
+
+    const { data: attachments, error: attachmentsError } = await supabase
+      .from('transaction_attachments')
+      .select('storage_path')
+      .in('transaction_id', batch);
+
+    if (attachmentsError) throw attachmentsError;
+
+    const { error } = await supabase
+      .from('transactions')
+      .delete()
+      .in('id', batch);
+
+    if (error) throw error;
+    await removeStoredFiles(attachments.map(a => a.storage_path));
+  }
+}
+
+// Deletes the profiles for good; everything in them cascades, including the stored files
+export async function purgeProfiles(ids: string[]) {
+  if (ids.length === 0) return;
+
+  const { data: attachments, error: attachmentsError } = await supabase
+    .from('transaction_attachments')
+    .select('storage_path, transactions!inner(profile_id)')
+    .in('transactions.profile_id', ids);
+
+  if (attachmentsError) throw attachmentsError;
+
+  const { data: uploads, error: uploadsError } = await supabase
+    .from('uploaded_files')
+    .select('storage_path')
+    .in('profile_id', ids);
+
+  if (uploadsError) throw uploadsError;
+
+  const { error } = await supabase
+    .from('profiles')
+    .delete()
+    .in('id', ids);
+
+  if (error) throw error;
+  await removeStoredFiles([...attachments, ...uploads].map(f => f.storage_path));
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+// Users without a settings row get the defaults
+export function useUserSettings() {
+  const { user } = useAuth();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['user_settings', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  return {
+    trashRetentionDays: settings?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
+    isLoading,
+  };
+}
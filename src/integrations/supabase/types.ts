@@ -14,80 +14,1270 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          closing_day: number | null
+          color: string | null
+          created_at: string
+          credit_limit: number | null
+          due_day: number | null
+          id: string
+          institution: string | null
+          name: string
+          opening_balance: number
+          profile_id: string
+          type: Database["public"]["Enums"]["account_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          closing_day?: number | null
+          color?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          due_day?: number | null
+          id?: string
+          institution?: string | null
+          name: string
+          opening_balance?: number
+          profile_id: string
+          type?: Database["public"]["Enums"]["account_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          closing_day?: number | null
+          color?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          due_day?: number | null
+          id?: string
+          institution?: string | null
+          name?: string
+          opening_balance?: number
+          profile_id?: string
+          type?: Database["public"]["Enums"]["account_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category_id: string | null
+          created_at: string
+          id: string
+          keywords: string[]
+          month: string
+          name: string
+          payment_method: Database["public"]["Enums"]["payment_method"] | null
+          profile_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          keywords?: string[]
+          month: string
+          name: string
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          profile_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          keywords?: string[]
+          month?: string
+          name?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          profile_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string | null
+          created_at: string
+          icon: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          profile_id: string
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          profile_id: string
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          profile_id?: string
+          type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_card_statements: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          payment_transaction_id: string | null
+          profile_id: string
+          reference_month: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          payment_transaction_id?: string | null
+          profile_id: string
+          reference_month: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          payment_transaction_id?: string | null
+          profile_id?: string
+          reference_month?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_card_statements_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_card_statements_payment_transaction_id_fkey"
+            columns: ["payment_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_card_statements_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          id: string
+          profile_id: string
+          rate: number
+          rate_date: string
+          to_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          id?: string
+          profile_id: string
+          rate: number
+          rate_date: string
+          to_currency: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          id?: string
+          profile_id?: string
+          rate?: number
+          rate_date?: string
+          to_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_contributions: {
+        Row: {
+          amount: number
+          contribution_date: string
+          created_at: string
+          goal_id: string
+          id: string
+          notes: string | null
+          profile_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          contribution_date?: string
+          created_at?: string
+          goal_id: string
+          id?: string
+          notes?: string | null
+          profile_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          contribution_date?: string
+          created_at?: string
+          goal_id?: string
+          id?: string
+          notes?: string | null
+          profile_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          name: string
+          notes: string | null
+          profile_id: string
+          target_amount: number
+          target_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          notes?: string | null
+          profile_id: string
+          target_amount: number
+          target_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          profile_id?: string
+          target_amount?: number
+          target_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_assets: {
+        Row: {
+          asset_class: Database["public"]["Enums"]["investment_asset_class"]
+          created_at: string
+          currency: string
+          id: string
+          name: string
+          notes: string | null
+          profile_id: string
+          ticker: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          asset_class: Database["public"]["Enums"]["investment_asset_class"]
+          created_at?: string
+          currency?: string
+          id?: string
+          name: string
+          notes?: string | null
+          profile_id: string
+          ticker?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          asset_class?: Database["public"]["Enums"]["investment_asset_class"]
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          profile_id?: string
+          ticker?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_assets_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_movements: {
+        Row: {
+          amount: number
+          asset_id: string
+          created_at: string
+          fees: number
+          id: string
+          movement_date: string
+          notes: string | null
+          profile_id: string
+          quantity: number
+          transaction_id: string | null
+          type: Database["public"]["Enums"]["investment_movement_type"]
+          unit_price: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          asset_id: string
+          created_at?: string
+          fees?: number
+          id?: string
+          movement_date?: string
+          notes?: string | null
+          profile_id: string
+          quantity?: number
+          transaction_id?: string | null
+          type: Database["public"]["Enums"]["investment_movement_type"]
+          unit_price?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          asset_id?: string
+          created_at?: string
+          fees?: number
+          id?: string
+          movement_date?: string
+          notes?: string | null
+          profile_id?: string
+          quantity?: number
+          transaction_id?: string | null
+          type?: Database["public"]["Enums"]["investment_movement_type"]
+          unit_price?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_movements_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "investment_assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investment_movements_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investment_movements_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_prices: {
+        Row: {
+          asset_id: string
+          created_at: string
+          id: string
+          price: number
+          price_date: string
+          profile_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          asset_id: string
+          created_at?: string
+          id?: string
+          price: number
+          price_date: string
+          profile_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          asset_id?: string
+          created_at?: string
+          id?: string
+          price?: number
+          price_date?: string
+          profile_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_prices_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "investment_assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investment_prices_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loans: {
+        Row: {
+          account_id: string | null
+          amortization_system: Database["public"]["Enums"]["loan_amortization_system"]
+          category_id: string | null
+          created_at: string
+          first_due_date: string
+          id: string
+          interest_rate: number
+          name: string
+          notes: string | null
+          principal: number
+          profile_id: string
+          rate_period: string
+          term_months: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amortization_system: Database["public"]["Enums"]["loan_amortization_system"]
+          category_id?: string | null
+          created_at?: string
+          first_due_date: string
+          id?: string
+          interest_rate: number
+          name: string
+          notes?: string | null
+          principal: number
+          profile_id: string
+          rate_period?: string
+          term_months: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amortization_system?: Database["public"]["Enums"]["loan_amortization_system"]
+          category_id?: string | null
+          created_at?: string
+          first_due_date?: string
+          id?: string
+          interest_rate?: number
+          name?: string
+          notes?: string | null
+          principal?: number
+          profile_id?: string
+          rate_period?: string
+          term_months?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loans_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payees: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          name: string
+          profile_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          profile_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          profile_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payees_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          profile_id: string
+          responded_at: string | null
+          role: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by: string
+          profile_id: string
+          responded_at?: string | null
+          role: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          profile_id?: string
+          responded_at?: string | null
+          role?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_invitations_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          profile_id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          profile_id: string
+          role: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          profile_id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_members_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_settings: {
+        Row: {
+          created_at: string
+          default_account_id: string | null
+          default_currency: string | null
+          default_payment_method: Database["public"]["Enums"]["payment_method"] | null
+          id: string
+          locale: string
+          month_start_day: number
+          month_start_rule: string
+          profile_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_account_id?: string | null
+          default_currency?: string | null
+          default_payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          id?: string
+          locale?: string
+          month_start_day?: number
+          month_start_rule?: string
+          profile_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_account_id?: string | null
+          default_currency?: string | null
+          default_payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          id?: string
+          locale?: string
+          month_start_day?: number
+          month_start_rule?: string
+          profile_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_settings_default_account_id_fkey"
+            columns: ["default_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_settings_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
+        Row: {
+          archived_at: string | null
+          base_currency: string
+          color: string | null
+          created_at: string
+          deleted_at: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          base_currency?: string
+          color?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          base_currency?: string
+          color?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recurring_rules: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category_id: string | null
+          created_at: string
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id: string
+          interval: number
+          is_active: boolean
+          materialized_through: string | null
+          notes: string | null
+          occurrence_count: number | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          profile_id: string
+          start_date: string
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
+          id?: string
+          interval?: number
+          is_active?: boolean
+          materialized_through?: string | null
+          notes?: string | null
+          occurrence_count?: number | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          profile_id: string
+          start_date: string
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
+          id?: string
+          interval?: number
+          is_active?: boolean
+          materialized_through?: string | null
+          notes?: string | null
+          occurrence_count?: number | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          profile_id?: string
+          start_date?: string
+          type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_rules_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
         Row: {
           color: string | null
           created_at: string
-          description: string | null
           id: string
           name: string
+          profile_id: string
           updated_at: string
           user_id: string
         }
         Insert: {
           color?: string | null
           created_at?: string
-          description?: string | null
           id?: string
           name: string
+          profile_id: string
           updated_at?: string
           user_id: string
         }
         Update: {
           color?: string | null
           created_at?: string
-          description?: string | null
           id?: string
           name?: string
+          profile_id?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tags_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          storage_path: string
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id?: string
+          storage_path: string
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          storage_path?: string
+          transaction_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_history: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          profile_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          profile_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          profile_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_history_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          label: string
+          notes: string | null
+          position: number
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          label: string
+          notes?: string | null
+          position?: number
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          label?: string
+          notes?: string | null
+          position?: number
+          transaction_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          created_at: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tag_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       transactions: {
         Row: {
+          account_id: string | null
           amount: number
+          category_id: string | null
           created_at: string
+          currency: string
+          deleted_at: string | null
           description: string
+          goal_id: string | null
           id: string
+          installment_count: number | null
+          installment_group_id: string | null
+          installment_number: number | null
+          loan_id: string | null
+          loan_installment: number | null
           notes: string | null
+          payee_id: string | null
           payment_method: Database["public"]["Enums"]["payment_method"]
           payment_source: string | null
           profile_id: string
+          recurrence_date: string | null
+          recurring_rule_id: string | null
+          status: Database["public"]["Enums"]["transaction_status"]
           transaction_date: string
+          transfer_direction: Database["public"]["Enums"]["transfer_direction"] | null
+          transfer_id: string | null
           type: Database["public"]["Enums"]["transaction_type"]
           updated_at: string
+          uploaded_file_id: string | null
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
+          category_id?: string | null
           created_at?: string
+          currency?: string
+          deleted_at?: string | null
           description: string
+          goal_id?: string | null
           id?: string
+          installment_count?: number | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          loan_id?: string | null
+          loan_installment?: number | null
           notes?: string | null
+          payee_id?: string | null
           payment_method?: Database["public"]["Enums"]["payment_method"]
           payment_source?: string | null
           profile_id: string
+          recurrence_date?: string | null
+          recurring_rule_id?: string | null
+          status?: Database["public"]["Enums"]["transaction_status"]
           transaction_date?: string
+          transfer_direction?: Database["public"]["Enums"]["transfer_direction"] | null
+          transfer_id?: string | null
           type: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string
+          uploaded_file_id?: string | null
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
+          category_id?: string | null
           created_at?: string
+          currency?: string
+          deleted_at?: string | null
           description?: string
+          goal_id?: string | null
           id?: string
+          installment_count?: number | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          loan_id?: string | null
+          loan_installment?: number | null
           notes?: string | null
+          payee_id?: string | null
           payment_method?: Database["public"]["Enums"]["payment_method"]
           payment_source?: string | null
           profile_id?: string
+          recurrence_date?: string | null
+          recurring_rule_id?: string | null
+          status?: Database["public"]["Enums"]["transaction_status"]
           transaction_date?: string
+          transfer_direction?: Database["public"]["Enums"]["transfer_direction"] | null
+          transfer_id?: string | null
           type?: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string
+          uploaded_file_id?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_profile_id_fkey"
             columns: ["profile_id"]
@@ -95,6 +1285,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_recurring_rule_id_fkey"
+            columns: ["recurring_rule_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_uploaded_file_id_fkey"
+            columns: ["uploaded_file_id"]
+            isOneToOne: false
+            referencedRelation: "uploaded_files"
+            referencedColumns: ["id"]
+          },
         ]
       }
       uploaded_files: {
@@ -150,15 +1354,107 @@ export type Database = {
           },
         ]
       }
+      user_settings: {
+        Row: {
+          created_at: string
+          id: string
+          trash_retention_days: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          trash_retention_days?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          trash_retention_days?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      transactions_outside_limits: {
+        Row: {
+          constraint_name: string | null
+          profile_id: string | null
+          transaction_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      can_edit_profile: { Args: { _profile_id: string }; Returns: boolean }
+      create_loan: { Args: { _installments: Json; _loan: Json }; Returns: string }
+      get_expired_trash: {
+        Args: never
+        Returns: {
+          profile_id: string
+          storage_paths: string[]
+          transaction_id: string
+        }[]
+      }
+      get_expired_trash_files: { Args: never; Returns: string[] }
+      get_profile_role: { Args: { _profile_id: string }; Returns: string }
+      get_received_invitations: {
+        Args: never
+        Returns: {
+          created_at: string
+          id: string
+          invited_by_email: string
+          profile_name: string
+          role: string
+        }[]
+      }
+      is_profile_member: { Args: { _profile_id: string }; Returns: boolean }
+      match_payee: {
+        Args: { _description: string; _profile_id: string }
+        Returns: string
+      }
+      match_profile_account: {
+        Args: { _account_id: string; _target_profile_id: string }
+        Returns: string
+      }
+      match_profile_category: {
+        Args: { _category_id: string; _target_profile_id: string }
+        Returns: string
+      }
+      merge_profiles: {
+        Args: { _source_profile_id: string; _target_profile_id: string }
+        Returns: number
+      }
+      move_transactions: {
+        Args: { _copy?: boolean; _ids: string[]; _target_profile_id: string }
+        Returns: number
+      }
+      normalize_payee_text: { Args: { value: string }; Returns: string }
+      purge_expired_trash: { Args: { _removed_paths: string[] }; Returns: number }
+      relink_payees: { Args: { _profile_id: string }; Returns: number }
+      respond_profile_invitation: {
+        Args: { _accept: boolean; _invitation_id: string }
+        Returns: undefined
+      }
+      validate_transaction_limits: { Args: never; Returns: string[] }
     }
     Enums: {
+      account_type: "checking" | "savings" | "cash" | "credit"
       file_status: "pending" | "processing" | "completed" | "failed"
+      investment_asset_class:
+        | "cdb"
+        | "tesouro_direto"
+        | "acao"
+        | "fii"
+        | "fundo"
+        | "cripto"
+        | "outro"
+      investment_movement_type: "buy" | "sell" | "dividend"
+      loan_amortization_system: "sac" | "price"
       payment_method:
         | "pix"
         | "boleto"
@@ -166,7 +1462,10 @@ export type Database = {
         | "debito"
         | "dinheiro"
         | "transferencia"
-      transaction_type: "income" | "expense"
+      recurrence_frequency: "daily" | "weekly" | "monthly" | "yearly"
+      transaction_status: "planned" | "cleared" | "reconciled"
+      transaction_type: "income" | "expense" | "transfer"
+      transfer_direction: "out" | "in"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -294,7 +1593,19 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      account_type: ["checking", "savings", "cash", "credit"],
       file_status: ["pending", "processing", "completed", "failed"],
+      investment_asset_class: [
+        "cdb",
+        "tesouro_direto",
+        "acao",
+        "fii",
+        "fundo",
+        "cripto",
+        "outro",
+      ],
+      investment_movement_type: ["buy", "sell", "dividend"],
+      loan_amortization_system: ["sac", "price"],
       payment_method: [
         "pix",
         "boleto",
@@ -303,7 +1614,10 @@ export const Constants = {
         "dinheiro",
         "transferencia",
       ],
-      transaction_type: ["income", "expense"],
+      recurrence_frequency: ["daily", "weekly", "monthly", "yearly"],
+      transaction_status: ["planned", "cleared", "reconciled"],
+      transaction_type: ["income", "expense", "transfer"],
+      transfer_direction: ["out", "in"],
     },
   },
 } as const
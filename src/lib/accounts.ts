@@ -0,0 +1,75 @@
+// Account helpers: name matching and running balances
+export type AccountType = 'checking' | 'savings' | 'cash' | 'credit';
+
+export interface Account {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  name: string;
+  institution: string | null;
+  type: AccountType;
+  opening_balance: number;
+  color: string | null;
+  closing_day: number | null;
+  due_day: number | null;
+  credit_limit: number | null;
+}
+
+export interface BalanceTransaction {
+  account_id: string | null;
+  type: 'income' | 'expense' | 'transfer';
+  transfer_direction: 'out' | 'in' | null;
+  amount: number;
+  currency: string;
+  transaction_date: string;
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Conta corrente',
+  savings: 'Poupança',
+  cash: 'Dinheiro',
+  credit: 'Cartão de crédito',
+};
+
+export const DEFAULT_ACCOUNT_COLOR = '#0891b2';
+
+// Lower case, trimmed and without accents, so "Itaú" and " itau" compare equal
+export function normalizeAccountName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function findAccountByName(accounts: Account[], name: string | null | undefined): Account | undefined {
+  if (!name) return undefined;
+  const normalized = normalizeAccountName(name);
+  if (!normalized) return undefined;
+
+  return (
+    accounts.find(a => normalizeAccountName(a.name) === normalized) ||
+    accounts.find(a => a.institution && normalizeAccountName(a.institution) === normalized)
+  );
+}
+
+// Current balance of each account: opening balance plus incomes and incoming transfers,
+// minus expenses and outgoing transfers
+export function computeAccountBalances(
+  accounts: Account[],
+  transactions: BalanceTransaction[]
+): Record<string, number> {
+  const balances: Record<string, number> = Object.fromEntries(
+    accounts.map(a => [a.id, Number(a.opening_balance)])
+  );
+
+  transactions.forEach(t => {
+    if (!t.account_id || !(t.account_id in balances)) return;
+    const amount = Number(t.amount);
+    const credit = t.type === 'income' || (t.type === 'transfer' && t.transfer_direction === 'in');
+    balances[t.account_id] += credit ? amount : -amount;
+  });
+
+  return balances;
+}
@@ -0,0 +1,44 @@
+// Attachment helpers: receipts and statements linked to transactions (stored in the uploads bucket)
+import { v4 as uuidv4 } from 'uuid';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB, same limit as the statement upload
+
+export const ATTACHMENT_ACCEPT = {
+  'application/pdf': ['.pdf'],
+  'image/*': ['.png', '.jpg', '.jpeg', '.webp'],
+};
+
+export interface Attachment {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size?: number;
+  storage_path: string;
+}
+
+// Statement a transaction was extracted from by the AI import
+export interface SourceFile {
+  file_name: string;
+  file_type: string;
+  storage_path: string;
+}
+
+// The first folder must be the user id (storage policies of the uploads bucket)
+export function getAttachmentPath(userId: string, profileId: string, fileName: string): string {
+  const ext = fileName.split('.').pop();
+  return `${userId}/${profileId}/attachments/${uuidv4()}.${ext}`;
+}
+
+export function isImageFile(fileType: string): boolean {
+  return fileType.startsWith('image/');
+}
+
+export function isPdfFile(fileType: string): boolean {
+  return fileType === 'application/pdf';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
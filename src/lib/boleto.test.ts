@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { dueDateFromFactor, formatDigitableLine, parseBoleto } from '@/lib/boleto';
+
+// Bradesco slip of R$ 3.700,00 due 2018-06-11 (factor 7552)
+const BRADESCO_LINE = '23793.38128 60007.827136 95000.063305 9 75520000370000';
+const BRADESCO_BARCODE = '23799755200003700003381260007827139500006330';
+
+// Banco do Brasil slip of R$ 1,00 due 2007-12-31 (factor 3737)
+const BB_LINE = '00190.50095 40144.816069 06809.350314 3 37370000000100';
+
+// Itaú slip of R$ 259,90 due 2026-03-10, after the factor restarted at 1000 (factor 1381).
+// Check digits worked out by hand: fields 8, 4 and 2 (mod 10), general digit 5 (mod 11).
+const ITAU_2026_LINE = '34191.09008 00012.345674 89012.345602 5 13810000025990';
+
+// Electricity bill (segment 3, value identifier 6: mod 10) of R$ 133,12
+const ENERGY_LINE = '83640000001-1 33120138000-2 81288462711-6 08013618155-1';
+const ENERGY_BARCODE = '83640000001331201380008128846271108013618155';
+
+// Water bill (segment 2, value identifier 8: mod 11) of R$ 87,45 due 2026-04-10.
+// Block digits 1, 2, 9 and 1 and general digit 0 worked out by hand.
+const WATER_LINE = '82800000000-1 87450123202-2 60410000123-9 45678901234-1';
+
+describe('parseBoleto', () => {
+  describe('bank slips', () => {
+    it('reads the bank, amount and due date of a digitable line', () => {
+      const boleto = parseBoleto(BRADESCO_LINE, new Date(2018, 5, 1));
+
+      expect(boleto.kind).toBe('bank');
+      expect(boleto.bankCode).toBe('237');
+      expect(boleto.bankName).toBe('Bradesco');
+      expect(boleto.amount).toBe(3700);
+      expect(boleto.dueDate).toBe('2018-06-11');
+      expect(boleto.segment).toBeNull();
+    });
+
+    it('rebuilds the barcode from the digitable line and back', () => {
+      const fromLine = parseBoleto(BRADESCO_LINE, new Date(2018, 5, 1));
+      const fromBarcode = parseBoleto(BRADESCO_BARCODE, new Date(2018, 5, 1));
+
+      expect(fromLine.barcode).toBe(BRADESCO_BARCODE);
+      expect(fromBarcode.digitableLine).toBe(fromLine.digitableLine);
+      expect(formatDigitableLine(fromBarcode)).toBe(BRADESCO_LINE);
+    });
+
+    it('reads small amounts', () => {
+      const boleto = parseBoleto(BB_LINE, new Date(2008, 0, 1));
+
+      expect(boleto.bankName).toBe('Banco do Brasil');
+      expect(boleto.amount).toBe(1);
+      expect(boleto.dueDate).toBe('2007-12-31');
+    });
+
+    it('reads slips due after the factor rollover of 2025-02-22', () => {
+      const boleto = parseBoleto(ITAU_2026_LINE, new Date(2026, 2, 1));
+
+      expect(boleto.bankName).toBe('Itaú');
+      expect(boleto.amount).toBe(259.9);
+      expect(boleto.dueDate).toBe('2026-03-10');
+    });
+
+    it('rejects a field with a wrong mod 10 digit', () => {
+      expect(() => parseBoleto('23793.38128 60007.827137 95000.063305 9 75520000370000'))
+        .toThrow('Dígito verificador do campo 2 inválido');
+    });
+
+    it('rejects a wrong mod 11 general digit', () => {
+      expect(() => parseBoleto('23793.38128 60007.827136 95000.063305 8 75520000370000'))
+        .toThrow('Dígito verificador geral do boleto inválido');
+    });
+  });
+
+  describe('utility slips', () => {
+    it('checks mod 10 blocks and reads the amount and segment', () => {
+      const boleto = parseBoleto(ENERGY_LINE);
+
+      expect(boleto.kind).toBe('utility');
+      expect(boleto.barcode).toBe(ENERGY_BARCODE);
+      expect(boleto.amount).toBe(133.12);
+      expect(boleto.segment).toBe('Energia elétrica e gás');
+      expect(boleto.bankCode).toBeNull();
+      expect(boleto.dueDate).toBeNull();
+    });
+
+    it('rebuilds the digitable line from the barcode', () => {
+      expect(formatDigitableLine(parseBoleto(ENERGY_BARCODE))).toBe(ENERGY_LINE);
+    });
+
+    it('checks mod 11 blocks and reads the due date after the company id', () => {
+      const boleto = parseBoleto(WATER_LINE, new Date(2026, 3, 1));
+
+      expect(boleto.amount).toBe(87.45);
+      expect(boleto.segment).toBe('Saneamento');
+      expect(boleto.dueDate).toBe('2026-04-10');
+      expect(formatDigitableLine(boleto)).toBe(WATER_LINE);
+    });
+
+    it('rejects a block with a wrong digit', () => {
+      expect(() => parseBoleto('83640000001-1 33120138000-3 81288462711-6 08013618155-1'))
+        .toThrow('Dígito verificador do bloco 2 inválido');
+    });
+  });
+
+  it('rejects input of any other length', () => {
+    expect(() => parseBoleto('1234')).toThrow('Informe a linha digitável');
+  });
+});
+
+describe('dueDateFromFactor', () => {
+  it('counts days from 1997-10-07 up to factor 9999 on 2025-02-21', () => {
+    expect(dueDateFromFactor(1000, new Date(2000, 6, 1))).toBe('2000-07-03');
+    expect(dueDateFromFactor(9999, new Date(2025, 1, 1))).toBe('2025-02-21');
+  });
+
+  it('restarts at 1000 on 2025-02-22', () => {
+    expect(dueDateFromFactor(1000, new Date(2025, 1, 21))).toBe('2025-02-22');
+    expect(dueDateFromFactor(1381, new Date(2026, 2, 1))).toBe('2026-03-10');
+  });
+
+  it('returns null for slips without a due date', () => {
+    expect(dueDateFromFactor(0)).toBeNull();
+  });
+});
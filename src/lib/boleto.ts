@@ -0,0 +1,250 @@
+// Boleto helpers: parses the linha digitável (47 digits for bank slips, 48 for concessionárias/convênios)
+// or the 44-digit barcode, checking every verification digit before trusting the amount and due date
+import { addDays, differenceInCalendarDays, format, isValid, parse, startOfDay } from 'date-fns';
+
+export type BoletoKind = 'bank' | 'utility';
+
+export interface Boleto {
+  kind: BoletoKind;
+  barcode: string;
+  digitableLine: string;
+  // null when the slip leaves the amount to be filled at payment time
+  amount: number | null;
+  // yyyy-MM-dd; null when the slip has no due date
+  dueDate: string | null;
+  bankCode: string | null;
+  bankName: string | null;
+  // Utility slips only: segment (prefeitura, energia, telecom...)
+  segment: string | null;
+}
+
+// Most common issuers; unknown codes are shown as "Banco 123"
+export const BANK_NAMES: Record<string, string> = {
+  '001': 'Banco do Brasil',
+  '004': 'Banco do Nordeste',
+  '033': 'Santander',
+  '041': 'Banrisul',
+  '070': 'BRB',
+  '077': 'Inter',
+  '104': 'Caixa',
+  '208': 'BTG Pactual',
+  '212': 'Banco Original',
+  '237': 'Bradesco',
+  '260': 'Nubank',
+  '290': 'PagBank',
+  '323': 'Mercado Pago',
+  '336': 'C6 Bank',
+  '341': 'Itaú',
+  '422': 'Safra',
+  '655': 'Votorantim',
+  '745': 'Citibank',
+  '748': 'Sicredi',
+  '756': 'Sicoob',
+};
+
+export const UTILITY_SEGMENTS: Record<string, string> = {
+  '1': 'Prefeitura',
+  '2': 'Saneamento',
+  '3': 'Energia elétrica e gás',
+  '4': 'Telecomunicações',
+  '5': 'Órgão governamental',
+  '6': 'Carnê',
+  '7': 'Multa de trânsito',
+  '9': 'Uso exclusivo do banco',
+};
+
+// The due date factor counts days from 1997-10-07; it reached 9999 on 2025-02-21 and restarted at 1000 the next day
+const FACTOR_BASE = new Date(1997, 9, 7);
+const FACTOR_ROLLOVER_BASE = new Date(2022, 4, 29);
+
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function mod10(digits: string): number {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? Math.floor(product / 10) + (product % 10) : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function mod11Sum(digits: string): number {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  return sum % 11;
+}
+
+// Bank slips: the general digit is never 0, 10 or 11 (those become 1)
+function bankMod11(digits: string): number {
+  const dv = 11 - mod11Sum(digits);
+  return dv === 0 || dv > 9 ? 1 : dv;
+}
+
+// Utility slips: remainders 0 and 1 give 0
+function utilityMod11(digits: string): number {
+  const rest = mod11Sum(digits);
+  return rest <= 1 ? 0 : 11 - rest;
+}
+
+// The value identifier (third digit) picks the module: 6/7 use mod 10, 8/9 use mod 11
+function utilityCheckDigit(valueId: string): ((digits: string) => number) | null {
+  if (valueId === '6' || valueId === '7') return mod10;
+  if (valueId === '8' || valueId === '9') return utilityMod11;
+  return null;
+}
+
+// Picks the cycle whose date is closest to the reference, as the factor alone is ambiguous after the rollover
+export function dueDateFromFactor(factor: number, referenceDate: Date = new Date()): string | null {
+  if (factor === 0) return null;
+
+  const reference = startOfDay(referenceDate);
+  const candidates = [addDays(FACTOR_BASE, factor)];
+  if (factor >= 1000) candidates.push(addDays(FACTOR_ROLLOVER_BASE, factor));
+
+  const closest = candidates.reduce((best, date) =>
+    Math.abs(differenceInCalendarDays(date, reference)) < Math.abs(differenceInCalendarDays(best, reference)) ? date : best
+  );
+  return format(closest, 'yyyy-MM-dd');
+}
+
+export function getBankName(code: string): string {
+  return BANK_NAMES[code] ?? `Banco ${code}`;
+}
+
+function parseAmount(digits: string): number | null {
+  const cents = Number(digits);
+  return cents > 0 ? cents / 100 : null;
+}
+
+function bankBarcodeFromLine(line: string): string {
+  return line.slice(0, 4) + line[32] + line.slice(33, 47) + line.slice(4, 9) + line.slice(10, 20) + line.slice(21, 31);
+}
+
+function bankLineFromBarcode(barcode: string): string {
+  const field1 = barcode.slice(0, 4) + barcode.slice(19, 24);
+  const field2 = barcode.slice(24, 34);
+  const field3 = barcode.slice(34, 44);
+  return field1 + mod10(field1) + field2 + mod10(field2) + field3 + mod10(field3) + barcode[4] + barcode.slice(5, 19);
+}
+
+function parseBankSlip(barcode: string, line: string, referenceDate: Date): Boleto {
+  if (bankMod11(barcode.slice(0, 4) + barcode.slice(5)) !== Number(barcode[4])) {
+    throw new Error('Dígito verificador geral do boleto inválido');
+  }
+
+  const bankCode = barcode.slice(0, 3);
+  return {
+    kind: 'bank',
+    barcode,
+    digitableLine: line,
+    amount: parseAmount(barcode.slice(9, 19)),
+    dueDate: dueDateFromFactor(Number(barcode.slice(5, 9)), referenceDate),
+    bankCode,
+    bankName: getBankName(bankCode),
+    segment: null,
+  };
+}
+
+// Concessionárias have no standard due date field; many put yyyyMMdd right after the company id
+function findUtilityDueDate(barcode: string, referenceDate: Date): string | null {
+  const start = barcode[1] === '6' ? 23 : 19;
+  const date = parse(barcode.slice(start, start + 8), 'yyyyMMdd', new Date());
+  if (!isValid(date) || Math.abs(differenceInCalendarDays(date, referenceDate)) > 366) return null;
+  return format(date, 'yyyy-MM-dd');
+}
+
+function parseUtilitySlip(barcode: string, line: string, referenceDate: Date): Boleto {
+  const checkDigit = utilityCheckDigit(barcode[2]);
+  if (!checkDigit) {
+    throw new Error('Identificador de valor do boleto inválido');
+  }
+  if (checkDigit(barcode.slice(0, 3) + barcode.slice(4)) !== Number(barcode[3])) {
+    throw new Error('Dígito verificador geral do boleto inválido');
+  }
+
+  // Value identifiers 7 and 9 carry a reference amount (e.g. in another index), not reais
+  const isEffectiveValue = barcode[2] === '6' || barcode[2] === '8';
+  return {
+    kind: 'utility',
+    barcode,
+    digitableLine: line,
+    amount: isEffectiveValue ? parseAmount(barcode.slice(4, 15)) : null,
+    dueDate: findUtilityDueDate(barcode, referenceDate),
+    bankCode: null,
+    bankName: null,
+    segment: UTILITY_SEGMENTS[barcode[1]] ?? null,
+  };
+}
+
+// Accepts the linha digitável (with or without dots and spaces) or the barcode digits; throws on invalid input
+export function parseBoleto(input: string, referenceDate: Date = new Date()): Boleto {
+  const digits = onlyDigits(input);
+
+  if (digits.length === 47) {
+    const fields = [digits.slice(0, 9), digits.slice(10, 20), digits.slice(21, 31)];
+    const checks = [digits[9], digits[20], digits[31]];
+    fields.forEach((field, index) => {
+      if (mod10(field) !== Number(checks[index])) {
+        throw new Error(`Dígito verificador do campo ${index + 1} inválido`);
+      }
+    });
+    return parseBankSlip(bankBarcodeFromLine(digits), digits, referenceDate);
+  }
+
+  if (digits.length === 48) {
+    if (digits[0] !== '8') {
+      throw new Error('Linha digitável de convênio deve começar com 8');
+    }
+    const checkDigit = utilityCheckDigit(digits[2]);
+    if (!checkDigit) {
+      throw new Error('Identificador de valor do boleto inválido');
+    }
+    const blocks = [0, 1, 2, 3].map(i => digits.slice(i * 12, i * 12 + 11));
+    blocks.forEach((block, index) => {
+      if (checkDigit(block) !== Number(digits[index * 12 + 11])) {
+        throw new Error(`Dígito verificador do bloco ${index + 1} inválido`);
+      }
+    });
+    return parseUtilitySlip(blocks.join(''), digits, referenceDate);
+  }
+
+  if (digits.length === 44) {
+    if (digits[0] === '8') {
+      const checkDigit = utilityCheckDigit(digits[2]);
+      if (!checkDigit) {
+        throw new Error('Identificador de valor do boleto inválido');
+      }
+      const line = [0, 1, 2, 3].map(i => {
+        const block = digits.slice(i * 11, i * 11 + 11);
+        return block + checkDigit(block);
+      }).join('');
+      return parseUtilitySlip(digits, line, referenceDate);
+    }
+    return parseBankSlip(digits, bankLineFromBarcode(digits), referenceDate);
+  }
+
+  throw new Error('Informe a linha digitável (47 ou 48 dígitos) ou o código de barras (44 dígitos)');
+}
+
+// 00190.00009 02714.710007 12345.678903 8 99990000010000
+export function formatDigitableLine(boleto: Pick<Boleto, 'kind' | 'digitableLine'>): string {
+  const line = boleto.digitableLine;
+  if (boleto.kind === 'utility') {
+    return [0, 1, 2, 3].map(i => `${line.slice(i * 12, i * 12 + 11)}-${line[i * 12 + 11]}`).join(' ');
+  }
+  return [
+    `${line.slice(0, 5)}.${line.slice(5, 10)}`,
+    `${line.slice(10, 15)}.${line.slice(15, 21)}`,
+    `${line.slice(21, 26)}.${line.slice(26, 32)}`,
+    line[32],
+    line.slice(33),
+  ].join(' ');
+}
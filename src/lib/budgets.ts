@@ -0,0 +1,96 @@
+// Budget helpers: which expenses a budget line covers and how much of it was spent
+import { format } from 'date-fns';
+import { Account, normalizeAccountName } from '@/lib/accounts';
+import { Category } from '@/lib/categories';
+
+type PaymentMethod = 'pix' | 'boleto' | 'credito' | 'debito' | 'dinheiro' | 'transferencia';
+
+export interface Budget {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  month: string; // yyyy-MM-01
+  name: string;
+  amount: number;
+  payment_method: PaymentMethod | null;
+  account_id: string | null;
+  category_id: string | null;
+  keywords: string[];
+}
+
+export interface BudgetTransaction {
+  description: string;
+  amount: number;
+  payment_method: PaymentMethod;
+  payment_source: string | null;
+  account_id: string | null;
+  category_id: string | null;
+}
+
+export interface BudgetLookups {
+  accountsById: Map<string, Account>;
+  categoriesById: Map<string, Category>;
+}
+
+export interface BudgetProgress {
+  budget: Budget;
+  spent: number;
+  remaining: number;
+  percent: number;
+  isOver: boolean;
+}
+
+export function getBudgetMonth(month: number, year: number): string {
+  return format(new Date(year, month, 1), 'yyyy-MM-dd');
+}
+
+// "mercado, ifood" -> ['mercado', 'ifood']
+export function parseKeywords(value: string): string[] {
+  return [...new Set(value.split(',').map(k => k.trim()).filter(Boolean))];
+}
+
+// Every filter set on the line must match; empty filters match everything
+export function matchesBudget(budget: Budget, transaction: BudgetTransaction, lookups: BudgetLookups): boolean {
+  if (budget.payment_method && transaction.payment_method !== budget.payment_method) return false;
+
+  if (budget.account_id && transaction.account_id !== budget.account_id) {
+    // Legacy rows only carry the free-text source
+    const account = lookups.accountsById.get(budget.account_id);
+    if (transaction.account_id || !account || !transaction.payment_source) return false;
+    if (normalizeAccountName(transaction.payment_source) !== normalizeAccountName(account.name)) return false;
+  }
+
+  if (budget.category_id && transaction.category_id !== budget.category_id) {
+    const category = transaction.category_id ? lookups.categoriesById.get(transaction.category_id) : undefined;
+    if (category?.parent_id !== budget.category_id) return false;
+  }
+
+  if (budget.keywords.length > 0) {
+    const description = normalizeAccountName(transaction.description);
+    if (!budget.keywords.some(k => description.includes(normalizeAccountName(k)))) return false;
+  }
+
+  return true;
+}
+
+// Spent amount per line. Lines may overlap, so one expense can count towards several of them.
+export function computeBudgetProgress(
+  budgets: Budget[],
+  transactions: BudgetTransaction[],
+  lookups: BudgetLookups
+): BudgetProgress[] {
+  return budgets.map(budget => {
+    const spent = transactions
+      .filter(t => matchesBudget(budget, t, lookups))
+      .reduce((sum, t) => sum + Number(t.amount), 0);
+    const planned = Number(budget.amount);
+
+    return {
+      budget,
+      spent,
+      remaining: planned - spent,
+      percent: planned > 0 ? (spent / planned) * 100 : 0,
+      isOver: spent > planned,
+    };
+  });
+}
@@ -0,0 +1,146 @@
+// Category taxonomy helpers and default category set
+import {
+  Home,
+  UtensilsCrossed,
+  Car,
+  HeartPulse,
+  GraduationCap,
+  PartyPopper,
+  ShoppingBag,
+  Landmark,
+  PawPrint,
+  Tag,
+  Briefcase,
+  Laptop,
+  TrendingUp,
+  Undo2,
+  CircleDollarSign,
+  ShoppingCart,
+  Zap,
+  Plane,
+  Gift,
+  type LucideIcon,
+} from 'lucide-react';
+
+export type CategoryType = 'income' | 'expense';
+
+export interface Category {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  parent_id: string | null;
+  type: CategoryType;
+  name: string;
+  icon: string | null;
+  color: string | null;
+}
+
+interface DefaultCategory {
+  name: string;
+  type: CategoryType;
+  icon: string;
+  color: string;
+  children?: string[];
+}
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Home,
+  UtensilsCrossed,
+  ShoppingCart,
+  Car,
+  HeartPulse,
+  GraduationCap,
+  PartyPopper,
+  Plane,
+  ShoppingBag,
+  Landmark,
+  Zap,
+  PawPrint,
+  Gift,
+  Briefcase,
+  Laptop,
+  TrendingUp,
+  Undo2,
+  CircleDollarSign,
+  Tag,
+};
+
+export const DEFAULT_CATEGORY_COLOR = '#64748b';
+
+// Default category set seeded for every new profile
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  { name: 'Moradia', type: 'expense', icon: 'Home', color: '#2563eb', children: ['Aluguel', 'Condomínio', 'Energia', 'Água', 'Internet', 'Gás'] },
+  { name: 'Alimentação', type: 'expense', icon: 'UtensilsCrossed', color: '#ea580c', children: ['Supermercado', 'Restaurantes', 'Delivery'] },
+  { name: 'Transporte', type: 'expense', icon: 'Car', color: '#0891b2', children: ['Combustível', 'Transporte público', 'Aplicativos', 'Estacionamento'] },
+  { name: 'Saúde', type: 'expense', icon: 'HeartPulse', color: '#dc2626', children: ['Plano de saúde', 'Farmácia', 'Consultas'] },
+  { name: 'Educação', type: 'expense', icon: 'GraduationCap', color: '#7c3aed', children: ['Mensalidade', 'Cursos', 'Livros'] },
+  { name: 'Lazer', type: 'expense', icon: 'PartyPopper', color: '#db2777', children: ['Viagens', 'Streaming', 'Eventos'] },
+  { name: 'Compras', type: 'expense', icon: 'ShoppingBag', color: '#854d0e', children: ['Vestuário', 'Eletrônicos', 'Casa'] },
+  { name: 'Impostos e Taxas', type: 'expense', icon: 'Landmark', color: '#475569', children: ['IPTU', 'IPVA', 'Tarifas bancárias'] },
+  { name: 'Pets', type: 'expense', icon: 'PawPrint', color: '#16a34a' },
+  { name: 'Outras despesas', type: 'expense', icon: 'Tag', color: DEFAULT_CATEGORY_COLOR },
+  { name: 'Salário', type: 'income', icon: 'Briefcase', color: '#16a34a', children: ['13º salário', 'Férias'] },
+  { name: 'Freelance', type: 'income', icon: 'Laptop', color: '#0891b2' },
+  { name: 'Investimentos', type: 'income', icon: 'TrendingUp', color: '#7c3aed', children: ['Rendimentos', 'Dividendos'] },
+  { name: 'Reembolsos', type: 'income', icon: 'Undo2', color: '#ea580c' },
+  { name: 'Outras receitas', type: 'income', icon: 'CircleDollarSign', color: DEFAULT_CATEGORY_COLOR },
+];
+
+export const CATEGORY_PATH_SEPARATOR = ' › ';
+
+// Resolve the icon for a category, falling back to its parent's icon
+export function getCategoryIcon(category: Category, byId: Map<string, Category>): LucideIcon {
+  const parent = category.parent_id ? byId.get(category.parent_id) : undefined;
+  const iconName = category.icon || parent?.icon;
+  return (iconName && CATEGORY_ICONS[iconName]) || Tag;
+}
+
+export function getCategoryColor(category: Category, byId: Map<string, Category>): string {
+  const parent = category.parent_id ? byId.get(category.parent_id) : undefined;
+  return category.color || parent?.color || DEFAULT_CATEGORY_COLOR;
+}
+
+// Full label including the parent, e.g. "Alimentação › Supermercado"
+export function getCategoryLabel(category: Category, byId: Map<string, Category>): string {
+  const parent = category.parent_id ? byId.get(category.parent_id) : undefined;
+  return parent ? `${parent.name}${CATEGORY_PATH_SEPARATOR}${category.name}` : category.name;
+}
+
+export function getCategoryLabels(categories: Category[]): Record<string, string> {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  return Object.fromEntries(categories.map(c => [c.id, getCategoryLabel(c, byId)]));
+}
+
+// Order categories as parent followed by its children, alphabetically
+export function sortCategoriesAsTree(categories: Category[]): Category[] {
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name, 'pt-BR');
+  const roots = categories.filter(c => !c.parent_id).sort(byName);
+  const ordered: Category[] = [];
+
+  roots.forEach(root => {
+    ordered.push(root);
+    ordered.push(...categories.filter(c => c.parent_id === root.id).sort(byName));
+  });
+
+  // Children whose parent is missing are kept at the end
+  const orphans = categories.filter(c => c.parent_id && !ordered.includes(c)).sort(byName);
+  return [...ordered, ...orphans];
+}
+
+// Match a category by full label ("Pai › Filho" or "Pai > Filho") or by name
+export function findCategoryByName(
+  categories: Category[],
+  name: string,
+  type?: CategoryType
+): Category | undefined {
+  const normalized = name.toLowerCase().replace(/\s*[›>/]\s*/g, CATEGORY_PATH_SEPARATOR).trim();
+  if (!normalized) return undefined;
+
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const candidates = type ? categories.filter(c => c.type === type) : categories;
+
+  return (
+    candidates.find(c => getCategoryLabel(c, byId).toLowerCase() === normalized) ||
+    candidates.find(c => c.name.toLowerCase() === normalized)
+  );
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { Account } from '@/lib/accounts';
+import {
+  StatementTransaction,
+  buildStatements,
+  getStatementClosingDate,
+  getStatementDueDate,
+  getStatementLabel,
+} from '@/lib/creditCards';
+
+const card: Account = {
+  id: 'card',
+  profile_id: 'profile',
+  user_id: 'user',
+  name: 'Cartão',
+  institution: null,
+  type: 'credit',
+  opening_balance: 0,
+  color: null,
+  closing_day: 25,
+  due_day: 5,
+  credit_limit: 5000,
+};
+
+const purchase = (
+  id: string,
+  transaction_date: string,
+  amount: number,
+  type: StatementTransaction['type'] = 'expense'
+): StatementTransaction => ({ id, description: id, amount, type, transaction_date });
+
+describe('getStatementClosingDate', () => {
+  it('keeps purchases up to the closing day in the statement of the month', () => {
+    expect(getStatementClosingDate(new Date(2026, 2, 10), 25)).toEqual(new Date(2026, 2, 25));
+    expect(getStatementClosingDate(new Date(2026, 2, 25), 25)).toEqual(new Date(2026, 2, 25));
+  });
+
+  it('moves purchases after the closing day to the next statement', () => {
+    expect(getStatementClosingDate(new Date(2026, 2, 26), 25)).toEqual(new Date(2026, 3, 25));
+    expect(getStatementClosingDate(new Date(2026, 11, 26), 25)).toEqual(new Date(2027, 0, 25));
+  });
+
+  it('ignores the time of the purchase on the closing day', () => {
+    expect(getStatementClosingDate(new Date(2026, 2, 25, 23, 59), 25)).toEqual(new Date(2026, 2, 25));
+  });
+
+  it('closes on the last day of shorter months', () => {
+    expect(getStatementClosingDate(new Date(2026, 1, 28), 31)).toEqual(new Date(2026, 1, 28));
+    expect(getStatementClosingDate(new Date(2028, 1, 29), 30)).toEqual(new Date(2028, 1, 29));
+    // Jan 31 is after a closing day of 30, so it goes to February, which closes on the 28th
+    expect(getStatementClosingDate(new Date(2026, 0, 31), 30)).toEqual(new Date(2026, 1, 28));
+  });
+});
+
+describe('getStatementDueDate', () => {
+  it('is due in the closing month when the due day comes after the closing day', () => {
+    expect(getStatementDueDate(new Date(2026, 2, 5), 5, 15)).toEqual(new Date(2026, 2, 15));
+  });
+
+  it('is due in the following month otherwise', () => {
+    expect(getStatementDueDate(new Date(2026, 2, 25), 25, 5)).toEqual(new Date(2026, 3, 5));
+    expect(getStatementDueDate(new Date(2026, 11, 25), 25, 5)).toEqual(new Date(2027, 0, 5));
+    expect(getStatementDueDate(new Date(2026, 2, 10), 10, 10)).toEqual(new Date(2026, 3, 10));
+  });
+
+  it('falls on the last day of shorter months', () => {
+    expect(getStatementDueDate(new Date(2026, 0, 20), 20, 31)).toEqual(new Date(2026, 0, 31));
+    expect(getStatementDueDate(new Date(2026, 0, 31), 31, 30)).toEqual(new Date(2026, 1, 28));
+  });
+});
+
+describe('buildStatements', () => {
+  it('returns nothing for cards without closing and due days', () => {
+    expect(buildStatements({ ...card, closing_day: null }, [purchase('a', '2026-03-10', 10)], [])).toEqual([]);
+  });
+
+  it('groups purchases by cycle, newest first, with the period each one covers', () => {
+    const statements = buildStatements(
+      card,
+      [purchase('a', '2026-02-26', 100), purchase('b', '2026-03-25', 50), purchase('c', '2026-03-26', 30)],
+      [],
+      new Date(2026, 3, 1)
+    );
+
+    expect(statements.map(s => s.referenceMonth)).toEqual(['2026-05-01', '2026-04-01']);
+    const [current, previous] = statements;
+    expect(current.transactions.map(t => t.id)).toEqual(['c']);
+    expect(previous).toMatchObject({
+      periodStart: new Date(2026, 1, 26),
+      closingDate: new Date(2026, 2, 25),
+      dueDate: new Date(2026, 3, 5),
+      total: 150,
+      status: 'closed',
+    });
+  });
+
+  it('starts the cycle after the last day of a shorter month', () => {
+    const [statement] = buildStatements(
+      { ...card, closing_day: 31, due_day: 10 },
+      [purchase('a', '2026-03-01', 10)],
+      [],
+      new Date(2026, 2, 1)
+    );
+
+    expect(statement.periodStart).toEqual(new Date(2026, 2, 1));
+    expect(statement.closingDate).toEqual(new Date(2026, 2, 31));
+  });
+
+  it('includes the current cycle even without purchases', () => {
+    const statements = buildStatements(card, [], [], new Date(2026, 2, 26));
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0]).toMatchObject({ closingDate: new Date(2026, 3, 25), total: 0, status: 'open' });
+  });
+
+  it('subtracts refunds and leaves transfers out', () => {
+    const [statement] = buildStatements(
+      card,
+      [purchase('a', '2026-03-10', 100), purchase('b', '2026-03-12', 40, 'income'), purchase('c', '2026-03-15', 500, 'transfer')],
+      [],
+      new Date(2026, 2, 20)
+    );
+
+    expect(statement.total).toBe(60);
+    expect(statement.transactions.map(t => t.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps the statement open through the closing day', () => {
+    const [statement] = buildStatements(card, [], [], new Date(2026, 2, 25, 18, 0));
+
+    expect(statement.status).toBe('open');
+  });
+
+  it('marks a statement paid only once its payment has a transaction', () => {
+    const transactions = [purchase('a', '2026-02-10', 100), purchase('b', '2026-01-10', 80)];
+    const statements = buildStatements(
+      card,
+      transactions,
+      [
+        { id: 'p1', reference_month: '2026-03-01', payment_transaction_id: 'payment' },
+        { id: 'p2', reference_month: '2026-02-01', payment_transaction_id: null },
+      ],
+      new Date(2026, 2, 10)
+    );
+
+    expect(statements.map(s => [s.referenceMonth, s.status])).toEqual([
+      ['2026-04-01', 'open'],
+      ['2026-03-01', 'paid'],
+      ['2026-02-01', 'closed'],
+    ]);
+  });
+});
+
+describe('getStatementLabel', () => {
+  it('names the statement after its due month', () => {
+    const [statement] = buildStatements(card, [], [], new Date(2026, 1, 26));
+
+    expect(getStatementLabel(statement)).toBe('Abril/2026');
+  });
+});
@@ -0,0 +1,127 @@
+// Credit card helpers: statement (fatura) cycles from the card's closing and due days
+import { format, getDaysInMonth, parseISO, startOfDay } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Account } from '@/lib/accounts';
+
+export type StatementStatus = 'open' | 'closed' | 'paid';
+
+export interface StatementTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  transaction_date: string;
+}
+
+export interface StatementPayment {
+  id: string;
+  reference_month: string;
+  payment_transaction_id: string | null;
+}
+
+export interface CreditCardStatement<T extends StatementTransaction = StatementTransaction> {
+  referenceMonth: string; // yyyy-MM-01 of the due date
+  periodStart: Date;
+  closingDate: Date;
+  dueDate: Date;
+  transactions: T[];
+  total: number;
+  status: StatementStatus;
+  payment?: StatementPayment;
+}
+
+export const STATEMENT_STATUS_LABELS: Record<StatementStatus, string> = {
+  open: 'Aberta',
+  closed: 'Fechada',
+  paid: 'Paga',
+};
+
+// Day of month clamped to the month's length, so a closing day of 31 falls on Feb 28/29
+function dayInMonth(year: number, month: number, day: number): Date {
+  return new Date(year, month, Math.min(day, getDaysInMonth(new Date(year, month, 1))));
+}
+
+export function isCreditCardConfigured(account: Account): boolean {
+  return account.type === 'credit' && !!account.closing_day && !!account.due_day;
+}
+
+// Closing date of the statement a purchase made on `date` belongs to
+export function getStatementClosingDate(date: Date, closingDay: number): Date {
+  const closing = dayInMonth(date.getFullYear(), date.getMonth(), closingDay);
+  if (startOfDay(date) <= closing) return closing;
+  return dayInMonth(date.getFullYear(), date.getMonth() + 1, closingDay);
+}
+
+// The due date falls in the closing month when the due day comes after the closing day,
+// otherwise in the following month
+export function getStatementDueDate(closingDate: Date, closingDay: number, dueDay: number): Date {
+  const offset = dueDay > closingDay ? 0 : 1;
+  return dayInMonth(closingDate.getFullYear(), closingDate.getMonth() + offset, dueDay);
+}
+
+function buildStatement<T extends StatementTransaction>(
+  closingDate: Date,
+  closingDay: number,
+  dueDay: number
+): CreditCardStatement<T> {
+  const previousClosing = dayInMonth(closingDate.getFullYear(), closingDate.getMonth() - 1, closingDay);
+  const dueDate = getStatementDueDate(closingDate, closingDay, dueDay);
+  return {
+    referenceMonth: format(dueDate, 'yyyy-MM-01'),
+    periodStart: new Date(previousClosing.getFullYear(), previousClosing.getMonth(), previousClosing.getDate() + 1),
+    closingDate,
+    dueDate,
+    transactions: [],
+    total: 0,
+    status: 'open',
+  };
+}
+
+// Group card transactions into statements, newest first. The statement of the current
+// cycle is always included, even when empty. Refunds (incomes) reduce the amount due.
+export function buildStatements<T extends StatementTransaction>(
+  card: Account,
+  transactions: T[],
+  payments: StatementPayment[],
+  today: Date = new Date()
+): CreditCardStatement<T>[] {
+  if (!card.closing_day || !card.due_day) return [];
+  const { closing_day: closingDay, due_day: dueDay } = card;
+
+  const statements = new Map<string, CreditCardStatement<T>>();
+  const statementFor = (date: Date) => {
+    const closingDate = getStatementClosingDate(date, closingDay);
+    const key = format(closingDate, 'yyyy-MM-dd');
+    if (!statements.has(key)) statements.set(key, buildStatement<T>(closingDate, closingDay, dueDay));
+    return statements.get(key);
+  };
+
+  statementFor(today);
+  transactions
+    .filter(t => t.type !== 'transfer')
+    .forEach(t => {
+      const statement = statementFor(parseISO(t.transaction_date));
+      statement.transactions.push(t);
+      statement.total += t.type === 'expense' ? Number(t.amount) : -Number(t.amount);
+    });
+
+  const paymentsByMonth = new Map(payments.map(p => [p.reference_month, p]));
+  const todayStart = startOfDay(today);
+
+  return [...statements.values()]
+    .map(statement => {
+      const payment = paymentsByMonth.get(statement.referenceMonth);
+      const status: StatementStatus = payment?.payment_transaction_id
+        ? 'paid'
+        : todayStart <= statement.closingDate ? 'open' : 'closed';
+      return { ...statement, payment, status };
+    })
+    .sort((a, b) => b.closingDate.getTime() - a.closingDate.getTime());
+}
+
+// Statement label by due month, e.g. "Março/2026"
+export function getStatementLabel(statement: CreditCardStatement): string {
+  const label = format(parseISO(statement.referenceMonth), 'MMMM/yyyy', { locale: ptBR });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
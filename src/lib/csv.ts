@@ -1,14 +1,23 @@
 // CSV utility functions for export and import
 import { z } from 'zod';
+import { Category, findCategoryByName } from '@/lib/categories';
+import { Account, findAccountByName } from '@/lib/accounts';
+import { parseTagList } from '@/lib/tags';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { MAX_SPLIT_LABEL_LENGTH, SplitLine, formatSplitList, parseSplitList, splitsMatchAmount } from '@/lib/splits';
 
 export interface TransactionCSV {
   descricao: string;
   valor: string;
   tipo: string;
+  categoria: string;
   forma_pagamento: string;
   fonte_pagamento: string;
   data: string;
   observacao: string;
+  tags: string;
+  divisao: string;
+  moeda: string;
 }
 
 // Validation constants
@@ -17,6 +26,9 @@ const MIN_AMOUNT = 0.01;
 const MAX_DESCRIPTION_LENGTH = 500;
 const MAX_NOTES_LENGTH = 1000;
 const MAX_PAYMENT_SOURCE_LENGTH = 100;
+// Same limits as the transactions table constraints
+const MIN_TRANSACTION_DATE = '1990-01-01';
+const MAX_TRANSACTION_DATE = '2100-12-31';
 
 // Zod schema for transaction validation
 const transactionSchema = z.object({
@@ -26,21 +38,43 @@ const transactionSchema = z.object({
     .max(MAX_DESCRIPTION_LENGTH, `Descrição deve ter no máximo ${MAX_DESCRIPTION_LENGTH} caracteres`)
     .transform(sanitizeText),
   amount: z.number()
-    .min(MIN_AMOUNT, `Valor mínimo é R$ ${MIN_AMOUNT.toFixed(2)}`)
-    .max(MAX_AMOUNT, `Valor máximo é R$ ${MAX_AMOUNT.toLocaleString('pt-BR')}`),
+    .min(MIN_AMOUNT, `Valor mínimo é ${MIN_AMOUNT.toFixed(2)}`)
+    .max(MAX_AMOUNT, `Valor máximo é ${MAX_AMOUNT.toLocaleString('pt-BR')}`),
+  currency: z.string()
+    .regex(/^[A-Z]{3}$/, 'Moeda inválida (use o código de 3 letras, ex: USD)')
+    .optional(),
   type: z.enum(['income', 'expense']),
   payment_method: z.enum(['pix', 'boleto', 'credito', 'debito', 'dinheiro', 'transferencia']),
   payment_source: z.string()
     .max(MAX_PAYMENT_SOURCE_LENGTH, `Fonte deve ter no máximo ${MAX_PAYMENT_SOURCE_LENGTH} caracteres`)
     .transform(sanitizeText)
     .nullable(),
-  transaction_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida'),
+  transaction_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida')
+    .refine(
+      (date) => date >= MIN_TRANSACTION_DATE && date <= MAX_TRANSACTION_DATE,
+      'Data deve estar entre 1990 e 2100'
+    ),
   notes: z.string()
     .max(MAX_NOTES_LENGTH, `Observação deve ter no máximo ${MAX_NOTES_LENGTH} caracteres`)
     .transform(sanitizeText)
     .nullable(),
+  category_id: z.string().uuid().nullable(),
+  account_id: z.string().uuid().nullable(),
 });
 
+// Same rules as the transaction form: at least two lines adding up to the amount
+function validateSplits(splits: SplitLine[], amount: number): string | null {
+  if (splits.length === 0) return null;
+  if (splits.length === 1) return 'Divisão deve ter pelo menos duas linhas';
+  if (splits.some(s => !s.label || s.label.length > MAX_SPLIT_LABEL_LENGTH)) {
+    return `Finalidade da divisão deve ter de 1 a ${MAX_SPLIT_LABEL_LENGTH} caracteres`;
+  }
+  if (splits.some(s => isNaN(s.amount) || s.amount <= 0)) return 'Valor da divisão inválido';
+  if (!splitsMatchAmount(splits, amount)) return 'A soma das divisões deve ser igual ao valor';
+  return null;
+}
+
 // Sanitize text to prevent injection attacks
 function sanitizeText(text: string): string {
   if (!text) return text;
@@ -102,9 +136,9 @@ export function formatCurrency(value: number): string {
 }
 
 export function parseCurrency(value: string): number {
-  // Handle Brazilian format: 1.234,56 -> 1234.56
+  // Handle Brazilian format: 1.234,56 -> 1234.56, with or without a symbol (R$, US$, €)
   const cleaned = value
-    .replace(/[R$\s]/g, '')
+    .replace(/[^\d,.-]/g, '')
     .replace(/\./g, '')
     .replace(',', '.');
   return parseFloat(cleaned) || 0;
@@ -133,24 +167,44 @@ export interface TransactionData {
   id?: string;
   description: string;
   amount: number;
+  currency?: string;
   type: 'income' | 'expense';
   payment_method: 'pix' | 'boleto' | 'credito' | 'debito' | 'dinheiro' | 'transferencia';
   payment_source: string | null;
   transaction_date: string;
   notes: string | null;
+  category_id?: string | null;
+  account_id?: string | null;
+  tags?: string[];
+  splits?: SplitLine[];
 }
 
-export function transactionsToCSV(transactions: TransactionData[]): string {
-  const headers = ['Descrição', 'Valor', 'Tipo', 'Forma de Pagamento', 'Fonte/Cartão', 'Data', 'Observação'];
+export interface ValidationLookups {
+  categories?: Category[];
+  accounts?: Account[];
+}
+
+// categoryLabels maps category ids to their display label ("Pai › Filho"); amounts are in the
+// currency of the "Moeda" column; tags are exported
+// comma-separated in a single column and split lines as "Finalidade: valor" pairs joined by " | "
+export function transactionsToCSV(
+  transactions: TransactionData[],
+  categoryLabels: Record<string, string> = {}
+): string {
+  const headers = ['Descrição', 'Valor', 'Moeda', 'Tipo', 'Categoria', 'Forma de Pagamento', 'Fonte/Cartão', 'Data', 'Observação', 'Tags', 'Divisão'];
   
   const rows = transactions.map(t => [
     escapeCsvField(t.description),
     formatCurrency(t.amount),
+    t.currency || DEFAULT_CURRENCY,
     TYPE_LABELS[t.type] || t.type,
+    escapeCsvField((t.category_id && categoryLabels[t.category_id]) || ''),
     PAYMENT_METHOD_LABELS[t.payment_method] || t.payment_method,
     escapeCsvField(t.payment_source || ''),
     formatDate(t.transaction_date),
     escapeCsvField(t.notes || ''),
+    escapeCsvField((t.tags ?? []).join(', ')),
+    escapeCsvField(formatSplitList(t.splits)),
   ]);
 
   const csvContent = [
@@ -189,11 +243,15 @@ export function parseCSV(csvContent: string): TransactionCSV[] {
     const row: TransactionCSV = {
       descricao: findColumn(headers, values, ['descrição', 'descricao', 'description', 'pagamento', 'nome']) || '',
       valor: findColumn(headers, values, ['valor', 'value', 'amount', 'quantia']) || '0',
-      tipo: findColumn(headers, values, ['tipo', 'type', 'categoria']) || 'expense',
+      tipo: findColumn(headers, values, ['tipo', 'type']) || 'expense',
+      categoria: findColumn(headers, values, ['categoria', 'category']) || '',
       forma_pagamento: findColumn(headers, values, ['forma de pagamento', 'forma_pagamento', 'payment_method', 'metodo', 'método']) || 'pix',
       fonte_pagamento: findColumn(headers, values, ['fonte', 'fonte/cartão', 'fonte_pagamento', 'cartão', 'cartao', 'pagador', 'source']) || '',
       data: findColumn(headers, values, ['data', 'date', 'transaction_date', 'dia']) || '',
       observacao: findColumn(headers, values, ['observação', 'observacao', 'notes', 'obs', 'comentário', 'comentario']) || '',
+      tags: findColumn(headers, values, ['tags', 'tag', 'etiquetas']) || '',
+      divisao: findColumn(headers, values, ['divisão', 'divisao', 'splits']) || '',
+      moeda: findColumn(headers, values, ['moeda', 'currency']) || '',
     };
     
     results.push(row);
@@ -245,6 +303,105 @@ function findColumn(headers: string[], values: string[], possibleNames: string[]
   return undefined;
 }
 
+export interface ExchangeRateData {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string;
+}
+
+// Exchange rates CSV: Data;Moeda;Para;Taxa (e.g. 05/01/2026;USD;BRL;5,4321). When the target
+// column is missing, rates are read as quotes in defaultTarget.
+export function parseExchangeRatesCSV(
+  csvContent: string,
+  defaultTarget: string
+): { rates: ExchangeRateData[]; errors: ValidationError[] } {
+  const lines = csvContent.split(/\r?\n/).filter(line => line.trim());
+
+  if (lines.length < 2) {
+    throw new Error('O arquivo CSV está vazio ou não contém dados');
+  }
+
+  const headers = parseCSVLine(lines[0].replace(/^\ufeff/, ''));
+  const rates: ExchangeRateData[] = [];
+  const errors: ValidationError[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = parseCSVLine(lines[i]);
+    if (values.every(v => !v.trim())) continue;
+
+    const rawRate = findColumn(headers, values, ['taxa', 'cotação', 'cotacao', 'rate']) || '';
+    const rawDate = findColumn(headers, values, ['data', 'date']) || '';
+    const rate = {
+      from_currency: (findColumn(headers, values, ['moeda', 'de', 'from', 'currency']) || '').trim().toUpperCase(),
+      to_currency: (findColumn(headers, values, ['para', 'base', 'to']) || defaultTarget).trim().toUpperCase(),
+      // "5,4321" (Brazilian) or "5.4321"
+      rate: rawRate.includes(',') ? parseCurrency(rawRate) : parseFloat(rawRate),
+      rate_date: rawDate ? parseDate(rawDate) : '',
+    };
+
+    if (!/^[A-Z]{3}$/.test(rate.from_currency) || !/^[A-Z]{3}$/.test(rate.to_currency)) {
+      errors.push({ row: i, field: 'moeda', message: 'Moeda inválida (use o código de 3 letras, ex: USD)' });
+    } else if (rate.from_currency === rate.to_currency) {
+      errors.push({ row: i, field: 'moeda', message: 'As moedas de origem e destino devem ser diferentes' });
+    } else if (isNaN(rate.rate) || rate.rate <= 0) {
+      errors.push({ row: i, field: 'taxa', message: 'Taxa deve ser maior que zero' });
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.rate_date)) {
+      errors.push({ row: i, field: 'data', message: 'Data inválida' });
+    } else {
+      rates.push(rate);
+    }
+  }
+
+  return { rates, errors };
+}
+
+export interface InvestmentPriceData {
+  ticker: string;
+  price: number;
+  price_date: string;
+}
+
+// Investment prices CSV: Data;Ativo;Preço (e.g. 05/01/2026;PETR4;38,45). The asset is matched by ticker.
+export function parseInvestmentPricesCSV(
+  csvContent: string
+): { prices: InvestmentPriceData[]; errors: ValidationError[] } {
+  const lines = csvContent.split(/\r?\n/).filter(line => line.trim());
+
+  if (lines.length < 2) {
+    throw new Error('O arquivo CSV está vazio ou não contém dados');
+  }
+
+  const headers = parseCSVLine(lines[0].replace(/^\ufeff/, ''));
+  const prices: InvestmentPriceData[] = [];
+  const errors: ValidationError[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = parseCSVLine(lines[i]);
+    if (values.every(v => !v.trim())) continue;
+
+    const rawPrice = findColumn(headers, values, ['preço', 'preco', 'cotação', 'cotacao', 'price', 'fechamento']) || '';
+    const rawDate = findColumn(headers, values, ['data', 'date']) || '';
+    const price = {
+      ticker: (findColumn(headers, values, ['ativo', 'ticker', 'código', 'codigo']) || '').trim().toUpperCase(),
+      price: rawPrice.includes(',') ? parseCurrency(rawPrice) : parseFloat(rawPrice),
+      price_date: rawDate ? parseDate(rawDate) : '',
+    };
+
+    if (!price.ticker) {
+      errors.push({ row: i, field: 'ativo', message: 'Ativo é obrigatório' });
+    } else if (isNaN(price.price) || price.price <= 0) {
+      errors.push({ row: i, field: 'preço', message: 'Preço deve ser maior que zero' });
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(price.price_date)) {
+      errors.push({ row: i, field: 'data', message: 'Data inválida' });
+    } else {
+      prices.push(price);
+    }
+  }
+
+  return { prices, errors };
+}
+
 export function csvToTransactions(csvRows: TransactionCSV[]): Omit<TransactionData, 'id'>[] {
   return csvRows.map(row => {
     const normalizedType = row.tipo.toLowerCase().trim();
@@ -262,8 +419,13 @@ export function csvToTransactions(csvRows: TransactionCSV[]): Omit<TransactionDa
   }).filter(t => t.description && t.amount > 0);
 }
 
-// Validate and sanitize transactions before database insertion
-export function validateTransactions(csvRows: TransactionCSV[]): ValidationResult {
+// Validate and sanitize transactions before database insertion.
+// Category and account names are resolved against the profile's records; a source without
+// a matching account is kept as free text in payment_source.
+export function validateTransactions(
+  csvRows: TransactionCSV[],
+  { categories = [], accounts = [] }: ValidationLookups = {}
+): ValidationResult {
   const errors: ValidationError[] = [];
   const validTransactions: TransactionData[] = [];
   
@@ -271,15 +433,22 @@ export function validateTransactions(csvRows: TransactionCSV[]): ValidationResul
     const rowNumber = index + 1; // 1-indexed for user display
     const normalizedType = row.tipo.toLowerCase().trim();
     const normalizedMethod = row.forma_pagamento.toLowerCase().trim();
+    const type = (TYPE_REVERSE[normalizedType] || 'expense') as 'income' | 'expense';
+    const category = findCategoryByName(categories, row.categoria, type);
+    const account = findAccountByName(accounts, row.fonte_pagamento);
     
     const rawTransaction = {
       description: sanitizeText(row.descricao.trim()),
       amount: parseCurrency(row.valor),
-      type: (TYPE_REVERSE[normalizedType] || 'expense') as 'income' | 'expense',
+      // Without a currency the transaction takes the profile's base currency
+      currency: row.moeda.trim() ? row.moeda.trim().toUpperCase() : undefined,
+      type,
       payment_method: (PAYMENT_METHOD_REVERSE[normalizedMethod] || 'pix') as TransactionData['payment_method'],
-      payment_source: row.fonte_pagamento.trim() ? sanitizeText(row.fonte_pagamento.trim()) : null,
+      payment_source: !account && row.fonte_pagamento.trim() ? sanitizeText(row.fonte_pagamento.trim()) : null,
       transaction_date: parseDate(row.data),
       notes: row.observacao.trim() ? sanitizeText(row.observacao.trim()) : null,
+      category_id: category?.id ?? null,
+      account_id: account?.id ?? null,
     };
     
     // Validate the transaction
@@ -307,7 +476,17 @@ export function validateTransactions(csvRows: TransactionCSV[]): ValidationResul
           message: `Data fora do intervalo permitido (${minDate.getFullYear()}-${maxDate.getFullYear()})`,
         });
       } else {
-        validTransactions.push(result.data as TransactionData);
+        const splits = parseSplitList(sanitizeText(row.divisao));
+        const splitError = validateSplits(splits, result.data.amount);
+        if (splitError) {
+          errors.push({ row: rowNumber, field: 'splits', message: splitError });
+        } else {
+          validTransactions.push({
+            ...result.data,
+            tags: parseTagList(sanitizeText(row.tags)),
+            splits,
+          } as TransactionData);
+        }
       }
     }
   });
@@ -0,0 +1,110 @@
+// Currency helpers: formatting in any ISO 4217 currency and conversion through stored exchange rates
+
+export const DEFAULT_CURRENCY = 'BRL';
+
+export const DEFAULT_LOCALE = 'pt-BR';
+
+// Number formats a profile can pick for its amounts
+export const LOCALES: { code: string; label: string }[] = [
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'pt-PT', label: 'Português (Portugal)' },
+  { code: 'en-US', label: 'Inglês (Estados Unidos)' },
+  { code: 'en-GB', label: 'Inglês (Reino Unido)' },
+  { code: 'es-ES', label: 'Espanhol (Espanha)' },
+  { code: 'es-AR', label: 'Espanhol (Argentina)' },
+  { code: 'de-DE', label: 'Alemão (Alemanha)' },
+  { code: 'fr-FR', label: 'Francês (França)' },
+];
+
+export const CURRENCIES: { code: string; label: string }[] = [
+  { code: 'BRL', label: 'Real (BRL)' },
+  { code: 'USD', label: 'Dólar americano (USD)' },
+  { code: 'EUR', label: 'Euro (EUR)' },
+  { code: 'GBP', label: 'Libra esterlina (GBP)' },
+  { code: 'ARS', label: 'Peso argentino (ARS)' },
+  { code: 'CAD', label: 'Dólar canadense (CAD)' },
+  { code: 'CHF', label: 'Franco suíço (CHF)' },
+  { code: 'JPY', label: 'Iene (JPY)' },
+];
+
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string;
+}
+
+// `options` adjusts the notation, e.g. compact amounts on chart axes
+export function formatMoney(
+  value: number,
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = DEFAULT_LOCALE,
+  options?: Intl.NumberFormatOptions
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    ...options,
+  }).format(value);
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+// Rate that turns one unit of `from` into `to` on `date` (yyyy-MM-dd): the latest rate on or
+// before the date, or the earliest one after it when the date predates every stored rate.
+// The inverse pair is used when only the opposite direction was entered.
+export function findRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  const pick = (candidates: ExchangeRate[]) => {
+    const sorted = [...candidates].sort((a, b) => a.rate_date.localeCompare(b.rate_date));
+    const before = sorted.filter(r => r.rate_date <= date);
+    return before.length > 0 ? before[before.length - 1] : sorted[0];
+  };
+
+  const direct = pick(rates.filter(r => r.from_currency === from && r.to_currency === to));
+  if (direct) return Number(direct.rate);
+
+  const inverse = pick(rates.filter(r => r.from_currency === to && r.to_currency === from));
+  if (inverse) return 1 / Number(inverse.rate);
+
+  return null;
+}
+
+export interface Converter {
+  baseCurrency: string;
+  // Amount in the base currency, or null when there is no rate for the currency
+  convert: (amount: number, currency: string | null | undefined, date: string) => number | null;
+}
+
+export function createConverter(rates: ExchangeRate[], baseCurrency: string = DEFAULT_CURRENCY): Converter {
+  return {
+    baseCurrency,
+    convert: (amount, currency, date) => {
+      const rate = findRate(rates, currency || baseCurrency, baseCurrency, date);
+      return rate === null ? null : Number(amount) * rate;
+    },
+  };
+}
+
+// Converts the amount of every row into the base currency. Rows without a rate are left out
+// (adding them unconverted would mix currencies) and their currencies reported in `missing`.
+export function convertAmounts<T extends { amount: number; currency?: string | null; transaction_date: string }>(
+  rows: T[],
+  converter: Converter
+): { rows: T[]; missing: string[] } {
+  const missing = new Set<string>();
+  const converted: T[] = [];
+  rows.forEach(row => {
+    const amount = converter.convert(row.amount, row.currency, row.transaction_date);
+    if (amount === null) {
+      missing.add(row.currency);
+    } else {
+      converted.push({ ...row, amount });
+    }
+  });
+  return { rows: converted, missing: [...missing] };
+}
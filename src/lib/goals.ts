@@ -0,0 +1,121 @@
+// Savings goal helpers: contributions, required monthly amount and projected completion
+import { addMonths, differenceInCalendarMonths, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { TransferDirection } from '@/lib/transfers';
+
+// Months considered when averaging recent contributions for the projection
+export const GOAL_AVERAGE_MONTHS = 3;
+
+export const DEFAULT_GOAL_COLOR = '#16a34a';
+
+export interface Goal {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  color: string | null;
+  notes: string | null;
+}
+
+export interface ManualContribution {
+  id: string;
+  goal_id: string;
+  amount: number;
+  contribution_date: string;
+  notes: string | null;
+}
+
+export interface GoalTransaction {
+  id: string;
+  goal_id: string | null;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  transfer_direction: TransferDirection | null;
+  transaction_date: string;
+}
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  amount: number; // negative for withdrawals
+  date: string;
+  description: string;
+  source: 'manual' | 'transaction';
+}
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  percent: number;
+  isCompleted: boolean;
+  monthsLeft: number;
+  requiredMonthly: number;
+  monthlyAverage: number;
+  projectedDate: Date | null;
+}
+
+export function manualToContribution(c: ManualContribution): GoalContribution {
+  return {
+    id: c.id,
+    goal_id: c.goal_id,
+    amount: Number(c.amount),
+    date: c.contribution_date,
+    description: c.notes || (Number(c.amount) < 0 ? 'Resgate' : 'Aporte'),
+    source: 'manual',
+  };
+}
+
+// Expenses and transfers linked to a goal put money into it; linked income takes money out.
+// Only the outgoing leg of a transfer counts, so the pair is not counted twice.
+export function transactionToContribution(t: GoalTransaction): GoalContribution | null {
+  if (!t.goal_id || t.transfer_direction === 'in') return null;
+  return {
+    id: t.id,
+    goal_id: t.goal_id,
+    amount: t.type === 'income' ? -Number(t.amount) : Number(t.amount),
+    date: t.transaction_date,
+    description: t.description,
+    source: 'transaction',
+  };
+}
+
+export function computeGoalProgress(
+  goal: Goal,
+  contributions: GoalContribution[],
+  today: Date = new Date()
+): GoalProgress {
+  const target = Number(goal.target_amount);
+  const saved = contributions.reduce((sum, c) => sum + c.amount, 0);
+  const remaining = Math.max(target - saved, 0);
+  const isCompleted = saved >= target;
+
+  // The current month counts as one of the months left
+  const monthsLeft = Math.max(differenceInCalendarMonths(parseISO(goal.target_date), today) + 1, 0);
+  const requiredMonthly = isCompleted ? 0 : remaining / Math.max(monthsLeft, 1);
+
+  const averageFrom = format(startOfMonth(subMonths(today, GOAL_AVERAGE_MONTHS - 1)), 'yyyy-MM-dd');
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const monthlyAverage = contributions
+    .filter(c => c.date >= averageFrom && c.date <= todayKey)
+    .reduce((sum, c) => sum + c.amount, 0) / GOAL_AVERAGE_MONTHS;
+
+  let projectedDate: Date | null = null;
+  if (isCompleted) {
+    projectedDate = today;
+  } else if (monthlyAverage > 0) {
+    projectedDate = addMonths(startOfMonth(today), Math.ceil(remaining / monthlyAverage) - 1);
+  }
+
+  return {
+    saved,
+    remaining,
+    percent: target > 0 ? Math.min((saved / target) * 100, 100) : 0,
+    isCompleted,
+    monthsLeft,
+    requiredMonthly,
+    monthlyAverage,
+    projectedDate,
+  };
+}
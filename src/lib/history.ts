@@ -0,0 +1,73 @@
+// Transaction history helpers: entries written by the record_transaction_history trigger
+import type { TablesUpdate } from '@/integrations/supabase/types';
+
+export type HistoryOperation = 'insert' | 'update' | 'delete' | 'trash' | 'restore';
+
+export const HISTORY_OPERATION_LABELS: Record<HistoryOperation, string> = {
+  insert: 'Criado',
+  update: 'Alterado',
+  delete: 'Excluído',
+  trash: 'Movido para a lixeira',
+  restore: 'Restaurado da lixeira',
+};
+
+// Fields shown in the history and brought back on restore, in display order
+export const HISTORY_FIELD_LABELS = {
+  description: 'Descrição',
+  amount: 'Valor',
+  currency: 'Moeda',
+  status: 'Situação',
+  transaction_date: 'Data',
+  payment_method: 'Forma de pagamento',
+  account_id: 'Conta',
+  category_id: 'Categoria',
+  payee_id: 'Favorecido',
+  goal_id: 'Meta',
+  notes: 'Observação',
+} as const;
+
+export type HistoryField = keyof typeof HISTORY_FIELD_LABELS;
+
+export type TransactionSnapshot = Partial<Record<HistoryField, string | number | null>>;
+
+export interface HistoryEntry {
+  id: string;
+  transaction_id: string;
+  operation: HistoryOperation;
+  old_data: TransactionSnapshot | null;
+  new_data: TransactionSnapshot | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+}
+
+export interface FieldChange {
+  field: HistoryField;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+const HISTORY_FIELDS = Object.keys(HISTORY_FIELD_LABELS) as HistoryField[];
+
+// Fields whose value differs between the row before and after the change
+export function getFieldChanges(entry: Pick<HistoryEntry, 'old_data' | 'new_data'>): FieldChange[] {
+  if (!entry.old_data || !entry.new_data) return [];
+  return HISTORY_FIELDS
+    .map(field => ({ field, before: entry.old_data[field] ?? null, after: entry.new_data[field] ?? null }))
+    .filter(change => String(change.before) !== String(change.after));
+}
+
+// The version of the transaction left by an entry; a deletion leaves the row as it was before
+export function getEntryVersion(entry: Pick<HistoryEntry, 'old_data' | 'new_data'>): TransactionSnapshot | null {
+  return entry.new_data ?? entry.old_data;
+}
+
+// Values written back when restoring a version; tags, splits and attachments are not versioned
+export function getRestoreValues(snapshot: TransactionSnapshot): TablesUpdate<'transactions'> {
+  return Object.fromEntries(HISTORY_FIELDS.map(field => [field, snapshot[field] ?? null]));
+}
+
+// Whether a version matches the current row on every tracked field
+export function isSameVersion(a: TransactionSnapshot, b: TransactionSnapshot): boolean {
+  return HISTORY_FIELDS.every(field => String(a[field] ?? null) === String(b[field] ?? null));
+}
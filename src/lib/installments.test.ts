@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInstallments,
+  getInstallmentDates,
+  getInstallmentLabel,
+  isInstallmentAmountValid,
+  splitInstallmentAmounts,
+} from '@/lib/installments';
+
+describe('splitInstallmentAmounts', () => {
+  it('gives the remaining cents to the last installment', () => {
+    // 100,00 / 3 = 33,33 + 33,33 + 33,34
+    expect(splitInstallmentAmounts(100, 3, 'total')).toEqual([33.33, 33.33, 33.34]);
+    // 1.000,00 / 7 = 6 x 142,85 + 142,90
+    expect(splitInstallmentAmounts(1000, 7, 'total')).toEqual([142.85, 142.85, 142.85, 142.85, 142.85, 142.85, 142.9]);
+  });
+
+  it('keeps the total exact in cents', () => {
+    const amounts = splitInstallmentAmounts(0.1 + 0.2, 2, 'total');
+
+    expect(amounts).toEqual([0.15, 0.15]);
+    expect(Math.round(amounts.reduce((sum, a) => sum + a, 0) * 100)).toBe(30);
+  });
+
+  it('splits even totals equally', () => {
+    expect(splitInstallmentAmounts(1200, 12, 'total')).toEqual(Array(12).fill(100));
+  });
+
+  it('repeats the amount when it is already per installment', () => {
+    expect(splitInstallmentAmounts(49.9, 4, 'installment')).toEqual([49.9, 49.9, 49.9, 49.9]);
+  });
+});
+
+describe('isInstallmentAmountValid', () => {
+  it('needs at least one cent in every installment of a total', () => {
+    expect(isInstallmentAmountValid(0.1, 10, 'total')).toBe(true);
+    // 0,05 / 10 would leave nine installments of 0,00
+    expect(isInstallmentAmountValid(0.05, 10, 'total')).toBe(false);
+  });
+
+  it('accepts any per-installment amount of at least one cent', () => {
+    expect(isInstallmentAmountValid(0.01, 120, 'installment')).toBe(true);
+    expect(isInstallmentAmountValid(0.004, 2, 'installment')).toBe(false);
+  });
+});
+
+describe('getInstallmentDates', () => {
+  it('keeps the day in every month, clamped to shorter months', () => {
+    expect(getInstallmentDates('2026-01', 4, 31)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+
+  it('crosses into the next year', () => {
+    expect(getInstallmentDates('2025-11', 3, 10)).toEqual(['2025-11-10', '2025-12-10', '2026-01-10']);
+  });
+});
+
+describe('buildInstallments', () => {
+  it('numbers the rows and shares the other values', () => {
+    const rows = buildInstallments(
+      { description: 'Notebook' },
+      { count: 3, amount: 100, mode: 'total', firstMonth: '2026-03', day: 15 },
+      'group-1'
+    );
+
+    expect(rows).toEqual([
+      { description: 'Notebook', amount: 33.33, transaction_date: '2026-03-15', installment_group_id: 'group-1', installment_number: 1, installment_count: 3 },
+      { description: 'Notebook', amount: 33.33, transaction_date: '2026-04-15', installment_group_id: 'group-1', installment_number: 2, installment_count: 3 },
+      { description: 'Notebook', amount: 33.34, transaction_date: '2026-05-15', installment_group_id: 'group-1', installment_number: 3, installment_count: 3 },
+    ]);
+  });
+});
+
+describe('getInstallmentLabel', () => {
+  it('shows the number out of the count', () => {
+    expect(getInstallmentLabel({ installment_number: 3, installment_count: 10 })).toBe('3/10');
+    expect(getInstallmentLabel({ installment_number: null, installment_count: null })).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+// Installment helpers: split a purchase into N monthly transactions linked by a group id
+import { format, getDaysInMonth, parseISO } from 'date-fns';
+
+export type InstallmentMode = 'total' | 'installment';
+
+export const MAX_INSTALLMENTS = 120;
+
+export interface InstallmentPlan {
+  count: number;
+  amount: number; // total or per-installment value, depending on mode
+  mode: InstallmentMode;
+  firstMonth: string; // yyyy-MM
+  day: number; // day of month of each installment, clamped to the month's length
+}
+
+// Installment values in cents-safe arithmetic. For a total, every installment gets the
+// rounded-down share and the last one absorbs the remaining cents.
+export function splitInstallmentAmounts(amount: number, count: number, mode: InstallmentMode): number[] {
+  if (mode === 'installment') return Array(count).fill(amount);
+
+  const totalCents = Math.round(amount * 100);
+  const baseCents = Math.floor(totalCents / count);
+  const lastCents = totalCents - baseCents * (count - 1);
+  return Array.from({ length: count }, (_, i) => (i === count - 1 ? lastCents : baseCents) / 100);
+}
+
+// Whether every installment gets at least one cent, e.g. not 0,05 split in 10
+export function isInstallmentAmountValid(amount: number, count: number, mode: InstallmentMode): boolean {
+  return splitInstallmentAmounts(amount, count, mode).every(value => value >= 0.01);
+}
+
+export function getInstallmentDates(firstMonth: string, count: number, day: number): string[] {
+  const first = parseISO(`${firstMonth}-01`);
+  return Array.from({ length: count }, (_, i) => {
+    const month = new Date(first.getFullYear(), first.getMonth() + i, 1);
+    return format(new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month))), 'yyyy-MM-dd');
+  });
+}
+
+// One row per installment, sharing every other value
+export function buildInstallments<T extends object>(values: T, plan: InstallmentPlan, groupId: string) {
+  const amounts = splitInstallmentAmounts(plan.amount, plan.count, plan.mode);
+  const dates = getInstallmentDates(plan.firstMonth, plan.count, plan.day);
+
+  return amounts.map((amount, i) => ({
+    ...values,
+    amount,
+    transaction_date: dates[i],
+    installment_group_id: groupId,
+    installment_number: i + 1,
+    installment_count: plan.count,
+  }));
+}
+
+// e.g. "3/10"
+export function getInstallmentLabel(transaction: { installment_number: number | null; installment_count: number | null }): string | null {
+  if (!transaction.installment_number || !transaction.installment_count) return null;
+  return `${transaction.installment_number}/${transaction.installment_count}`;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { createConverter } from '@/lib/currency';
+import {
+  InvestmentAsset,
+  InvestmentMovement,
+  InvestmentPrice,
+  computeAllocation,
+  computePortfolio,
+  computePortfolioTotals,
+  computePosition,
+  movementAmount,
+} from '@/lib/investments';
+
+let nextId = 0;
+const movement = (
+  type: InvestmentMovement['type'],
+  movement_date: string,
+  quantity: number,
+  unit_price: number,
+  fees = 0,
+  asset_id = 'petr4'
+): InvestmentMovement => ({
+  id: `m${++nextId}`,
+  asset_id,
+  type,
+  movement_date,
+  quantity,
+  unit_price,
+  fees,
+  amount: movementAmount(type, quantity, unit_price, fees),
+  transaction_id: null,
+  notes: null,
+});
+
+const price = (asset_id: string, value: number, price_date: string): InvestmentPrice => ({
+  id: `p${asset_id}${price_date}`,
+  asset_id,
+  price: value,
+  price_date,
+});
+
+describe('movementAmount', () => {
+  it('adds the fees to buys and takes them from sells', () => {
+    expect(movementAmount('buy', 100, 10, 5)).toBe(1005);
+    expect(movementAmount('sell', 60, 15, 4.5)).toBe(895.5);
+    expect(movementAmount('dividend', 90, 0.35, 0)).toBe(31.5);
+  });
+});
+
+describe('computePosition', () => {
+  // 100 @ 10,00 + 5,00 fees and 50 @ 13,00 + 2,50 fees: 1.657,50 for 150 units, average 11,05.
+  // Selling 60 @ 15,00 - 4,50 fees brings 895,50 against a cost of 60 x 11,05 = 663,00.
+  const movements = [
+    movement('buy', '2026-01-05', 100, 10, 5),
+    movement('buy', '2026-02-05', 50, 13, 2.5),
+    movement('sell', '2026-03-05', 60, 15, 4.5),
+    movement('dividend', '2026-03-20', 90, 0.35),
+  ];
+
+  it('realizes gains against the average cost and keeps the average for what is left', () => {
+    const position = computePosition(movements, []);
+
+    expect(position.quantity).toBe(90);
+    expect(position.averageCost).toBeCloseTo(11.05, 10);
+    expect(position.cost).toBeCloseTo(994.5, 10);
+    expect(position.realizedGain).toBeCloseTo(232.5, 10);
+    expect(position.dividends).toBe(31.5);
+  });
+
+  it('values the position at the latest quote', () => {
+    const position = computePosition(movements, [price('petr4', 11, '2026-03-01'), price('petr4', 12, '2026-04-01')]);
+
+    expect(position.lastPrice).toBe(12);
+    expect(position.lastPriceDate).toBe('2026-04-01');
+    expect(position.marketValue).toBe(1080);
+    expect(position.unrealizedGain).toBeCloseTo(85.5, 10);
+  });
+
+  it('values the position at cost while there is no quote', () => {
+    const position = computePosition(movements, []);
+
+    expect(position.marketValue).toBeCloseTo(994.5, 10);
+    expect(position.unrealizedGain).toBeCloseTo(0, 10);
+  });
+
+  it('applies a buy before a sell made on the same day', () => {
+    const position = computePosition([
+      movement('sell', '2026-03-02', 10, 12),
+      movement('buy', '2026-03-02', 10, 10),
+    ], []);
+
+    expect(position.quantity).toBe(0);
+    expect(position.cost).toBe(0);
+    expect(position.realizedGain).toBe(20);
+  });
+
+  it('closes the position when everything is sold', () => {
+    const position = computePosition([
+      movement('buy', '2026-01-05', 3, 33.33),
+      movement('sell', '2026-02-05', 3, 40),
+    ], []);
+
+    expect(position.quantity).toBe(0);
+    expect(position.averageCost).toBe(0);
+    expect(position.realizedGain).toBeCloseTo(20.01, 10);
+  });
+
+  it('realizes only the units held when a sale is for more', () => {
+    // 10 held @ 10,00; 15 sold @ 12,00 brings 180,00, of which 120,00 is for the 10 held
+    const position = computePosition([
+      movement('buy', '2026-01-05', 10, 10),
+      movement('sell', '2026-02-05', 15, 12),
+    ], []);
+
+    expect(position.quantity).toBe(0);
+    expect(position.cost).toBe(0);
+    expect(position.realizedGain).toBeCloseTo(20, 10);
+  });
+});
+
+describe('portfolio', () => {
+  const asset = (id: string, asset_class: InvestmentAsset['asset_class'], currency = 'BRL'): InvestmentAsset => ({
+    id,
+    profile_id: 'p1',
+    name: id,
+    ticker: null,
+    asset_class,
+    currency,
+    notes: null,
+  });
+
+  const assets = [asset('petr4', 'acao'), asset('voo', 'fundo', 'USD'), asset('btc', 'cripto', 'EUR')];
+  const movements = [
+    movement('buy', '2026-01-05', 10, 30, 0, 'petr4'),
+    movement('buy', '2026-01-05', 2, 100, 0, 'voo'),
+    movement('buy', '2026-01-05', 1, 50, 0, 'btc'),
+  ];
+  const converter = createConverter(
+    [{ id: 'r1', from_currency: 'USD', to_currency: 'BRL', rate: 5, rate_date: '2026-01-01' }],
+    'BRL'
+  );
+  const positions = computePortfolio(assets, movements, [], converter, '2026-03-01');
+
+  it('converts into the base currency and leaves out assets without a rate', () => {
+    expect(positions.map(p => p.rate)).toEqual([1, 5, null]);
+    expect(computePortfolioTotals(positions)).toEqual({
+      marketValue: 1300,
+      cost: 1300,
+      unrealizedGain: 0,
+      realizedGain: 0,
+      dividends: 0,
+    });
+  });
+
+  it('splits the converted value by asset class', () => {
+    expect(computeAllocation(positions).map(s => [s.assetClass, s.value, Math.round(s.percent)])).toEqual([
+      ['fundo', 1000, 77],
+      ['acao', 300, 23],
+    ]);
+  });
+});
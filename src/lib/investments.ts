@@ -0,0 +1,219 @@
+// Investment portfolio helpers: positions by average cost, realized/unrealized gains and allocation
+import { Converter } from '@/lib/currency';
+
+export type AssetClass = 'cdb' | 'tesouro_direto' | 'acao' | 'fii' | 'fundo' | 'cripto' | 'outro';
+export type MovementType = 'buy' | 'sell' | 'dividend';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  cdb: 'CDB',
+  tesouro_direto: 'Tesouro Direto',
+  acao: 'Ações',
+  fii: 'FIIs',
+  fundo: 'Fundos',
+  cripto: 'Cripto',
+  outro: 'Outros',
+};
+
+export const ASSET_CLASS_COLORS: Record<AssetClass, string> = {
+  cdb: '#0ea5e9',
+  tesouro_direto: '#16a34a',
+  acao: '#8b5cf6',
+  fii: '#f59e0b',
+  fundo: '#ec4899',
+  cripto: '#f97316',
+  outro: '#64748b',
+};
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  buy: 'Compra',
+  sell: 'Venda',
+  dividend: 'Provento',
+};
+
+export interface InvestmentAsset {
+  id: string;
+  profile_id: string;
+  name: string;
+  ticker: string | null;
+  asset_class: AssetClass;
+  currency: string;
+  notes: string | null;
+}
+
+export interface InvestmentMovement {
+  id: string;
+  asset_id: string;
+  type: MovementType;
+  movement_date: string;
+  quantity: number;
+  unit_price: number;
+  fees: number;
+  amount: number;
+  transaction_id: string | null;
+  notes: string | null;
+}
+
+export interface InvestmentPrice {
+  id: string;
+  asset_id: string;
+  price: number;
+  price_date: string;
+}
+
+export interface Position {
+  quantity: number;
+  averageCost: number;
+  // Cost of the units still held
+  cost: number;
+  // Latest quote times quantity; the cost itself while the asset has no quote
+  marketValue: number;
+  lastPrice: number | null;
+  lastPriceDate: string | null;
+  unrealizedGain: number;
+  realizedGain: number;
+  dividends: number;
+}
+
+// Buys and sells change the position and their cash amount; dividends carry only the amount
+export function movementAmount(type: MovementType, quantity: number, unitPrice: number, fees: number): number {
+  const gross = quantity * unitPrice;
+  return Math.round((type === 'buy' ? gross + fees : type === 'sell' ? gross - fees : gross) * 100) / 100;
+}
+
+// Same-day movements: a day trade buys before it sells
+const MOVEMENT_ORDER: Record<MovementType, number> = { buy: 0, sell: 1, dividend: 2 };
+
+// Average cost method (preço médio), as used for Brazilian income tax: buys raise the average
+// with their fees, sells realize the difference to the average and keep it unchanged
+export function computePosition(movements: InvestmentMovement[], prices: InvestmentPrice[]): Position {
+  const ordered = [...movements].sort((a, b) =>
+    a.movement_date.localeCompare(b.movement_date) || MOVEMENT_ORDER[a.type] - MOVEMENT_ORDER[b.type]
+  );
+  let quantity = 0;
+  let cost = 0;
+  let realizedGain = 0;
+  let dividends = 0;
+
+  ordered.forEach(m => {
+    const amount = Number(m.amount);
+    if (m.type === 'dividend') {
+      dividends += amount;
+      return;
+    }
+
+    const units = Number(m.quantity);
+    if (m.type === 'buy') {
+      quantity += units;
+      cost += amount;
+      return;
+    }
+
+    // Only the units held are sold; the proceeds of the rest have no cost to be set against
+    const averageCost = quantity > 0 ? cost / quantity : 0;
+    const sold = Math.min(units, quantity);
+    const proceeds = units > 0 ? amount * sold / units : 0;
+    realizedGain += proceeds - sold * averageCost;
+    cost -= sold * averageCost;
+    quantity -= sold;
+  });
+
+  // Float leftovers after selling everything
+  if (quantity < 1e-8) {
+    quantity = 0;
+    cost = 0;
+  }
+
+  const latest = [...prices].sort((a, b) => b.price_date.localeCompare(a.price_date))[0];
+  const lastPrice = latest ? Number(latest.price) : null;
+  const marketValue = lastPrice !== null ? quantity * lastPrice : cost;
+
+  return {
+    quantity,
+    averageCost: quantity > 0 ? cost / quantity : 0,
+    cost,
+    marketValue,
+    lastPrice,
+    lastPriceDate: latest?.price_date ?? null,
+    unrealizedGain: marketValue - cost,
+    realizedGain,
+    dividends,
+  };
+}
+
+export interface AssetPosition {
+  asset: InvestmentAsset;
+  position: Position;
+  // Multiplier into the base currency; null when there is no exchange rate for the asset currency
+  rate: number | null;
+}
+
+export function computePortfolio(
+  assets: InvestmentAsset[],
+  movements: InvestmentMovement[],
+  prices: InvestmentPrice[],
+  converter: Converter,
+  date: string
+): AssetPosition[] {
+  return assets.map(asset => {
+    const position = computePosition(
+      movements.filter(m => m.asset_id === asset.id),
+      prices.filter(p => p.asset_id === asset.id)
+    );
+    return {
+      asset,
+      position,
+      rate: converter.convert(1, asset.currency, date),
+    };
+  });
+}
+
+export interface AllocationSlice {
+  assetClass: AssetClass;
+  label: string;
+  value: number;
+  percent: number;
+}
+
+// Share of each asset class in the converted market value; assets without a rate are left out
+export function computeAllocation(positions: AssetPosition[]): AllocationSlice[] {
+  const byClass = new Map<AssetClass, number>();
+  positions.forEach(({ asset, position, rate }) => {
+    if (rate === null || position.marketValue <= 0) return;
+    byClass.set(asset.asset_class, (byClass.get(asset.asset_class) ?? 0) + position.marketValue * rate);
+  });
+
+  const total = [...byClass.values()].reduce((sum, value) => sum + value, 0);
+  return [...byClass.entries()]
+    .map(([assetClass, value]) => ({
+      assetClass,
+      label: ASSET_CLASS_LABELS[assetClass],
+      value,
+      percent: total > 0 ? (value / total) * 100 : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+export interface PortfolioTotals {
+  marketValue: number;
+  cost: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  dividends: number;
+}
+
+export function computePortfolioTotals(positions: AssetPosition[]): PortfolioTotals {
+  return positions.reduce(
+    (totals, { position, rate }) => rate === null ? totals : {
+      marketValue: totals.marketValue + position.marketValue * rate,
+      cost: totals.cost + position.cost * rate,
+      unrealizedGain: totals.unrealizedGain + position.unrealizedGain * rate,
+      realizedGain: totals.realizedGain + position.realizedGain * rate,
+      dividends: totals.dividends + position.dividends * rate,
+    },
+    { marketValue: 0, cost: 0, unrealizedGain: 0, realizedGain: 0, dividends: 0 }
+  );
+}
+
+export function formatQuantity(value: number): string {
+  return value.toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+}
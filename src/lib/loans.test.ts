@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LoanInstallmentTransaction,
+  buildAmortizationSchedule,
+  buildLoanInstallments,
+  computeLoanProgress,
+  getInstallmentSplits,
+  getMonthlyRate,
+} from '@/lib/loans';
+
+const loan = {
+  principal: 1000,
+  interest_rate: 1,
+  rate_period: 'monthly' as const,
+  first_due_date: '2026-01-31',
+};
+
+describe('getMonthlyRate', () => {
+  it('keeps monthly rates and compounds annual ones down to a month', () => {
+    expect(getMonthlyRate(1, 'monthly')).toBe(0.01);
+    // (1 + 12,682503%)^(1/12) - 1 = 1% a.m.
+    expect(getMonthlyRate(12.682503, 'annual')).toBeCloseTo(0.01, 8);
+  });
+});
+
+describe('buildAmortizationSchedule', () => {
+  it('amortizes the same amount every month under SAC', () => {
+    // 1.000,00 at 1% a.m. in 4: amortization 250,00 and interest on the falling balance
+    const schedule = buildAmortizationSchedule({ ...loan, term_months: 4, amortization_system: 'sac' });
+
+    expect(schedule).toEqual([
+      { number: 1, dueDate: '2026-01-31', payment: 260, interest: 10, amortization: 250, balance: 750 },
+      { number: 2, dueDate: '2026-02-28', payment: 257.5, interest: 7.5, amortization: 250, balance: 500 },
+      { number: 3, dueDate: '2026-03-31', payment: 255, interest: 5, amortization: 250, balance: 250 },
+      { number: 4, dueDate: '2026-04-30', payment: 252.5, interest: 2.5, amortization: 250, balance: 0 },
+    ]);
+  });
+
+  it('keeps the payment level under Price and settles the cents on the last one', () => {
+    // 1.000,00 at 1% a.m. in 3: PMT = 10 / (1 - 1,01^-3) = 340,02
+    const schedule = buildAmortizationSchedule({ ...loan, term_months: 3, amortization_system: 'price' });
+
+    expect(schedule).toEqual([
+      { number: 1, dueDate: '2026-01-31', payment: 340.02, interest: 10, amortization: 330.02, balance: 669.98 },
+      { number: 2, dueDate: '2026-02-28', payment: 340.02, interest: 6.7, amortization: 333.32, balance: 336.66 },
+      { number: 3, dueDate: '2026-03-31', payment: 340.03, interest: 3.37, amortization: 336.66, balance: 0 },
+    ]);
+  });
+
+  it('splits the principal evenly without interest', () => {
+    const schedule = buildAmortizationSchedule({ ...loan, interest_rate: 0, principal: 900, term_months: 3, amortization_system: 'price' });
+
+    expect(schedule.map(row => row.payment)).toEqual([300, 300, 300]);
+    expect(schedule.map(row => row.interest)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('computeLoanProgress', () => {
+  const schedule = buildAmortizationSchedule({ ...loan, term_months: 4, amortization_system: 'sac' });
+  const installment = (number: number, status: LoanInstallmentTransaction['status']): LoanInstallmentTransaction => ({
+    id: `t${number}`,
+    loan_id: 'loan-1',
+    loan_installment: number,
+    amount: schedule[number - 1].payment,
+    transaction_date: schedule[number - 1].dueDate,
+    status,
+  });
+
+  it('counts only installments that are no longer planned', () => {
+    const progress = computeLoanProgress(loan, schedule, [installment(1, 'cleared'), installment(2, 'planned')]);
+
+    expect(progress).toEqual({
+      outstanding: 750,
+      principalPaid: 250,
+      interestPaid: 10,
+      interestRemaining: 15,
+      paidCount: 1,
+      percent: 25,
+      nextInstallment: schedule[1],
+    });
+  });
+});
+
+describe('buildLoanInstallments', () => {
+  it('creates one expense per installment and marks the past ones as paid on request', () => {
+    const schedule = buildAmortizationSchedule({ ...loan, term_months: 3, amortization_system: 'price' });
+    const rows = buildLoanInstallments({ profile_id: 'p1' }, { name: 'Carro', term_months: 3 }, schedule, true, new Date(2026, 1, 28));
+
+    expect(rows.map(r => [r.description, r.amount, r.status])).toEqual([
+      ['Carro (1/3)', 340.02, 'cleared'],
+      ['Carro (2/3)', 340.02, 'cleared'],
+      ['Carro (3/3)', 340.03, 'planned'],
+    ]);
+  });
+});
+
+describe('getInstallmentSplits', () => {
+  it('leaves out a zero interest line', () => {
+    expect(getInstallmentSplits({ number: 1, dueDate: '2026-01-31', payment: 300, interest: 0, amortization: 300, balance: 600 }))
+      .toEqual([{ label: 'Amortização', amount: 300 }]);
+  });
+});
@@ -0,0 +1,159 @@
+// Loan helpers: SAC and Price amortization schedules and the outstanding balance from paid installments
+import { format } from 'date-fns';
+import { getInstallmentDates } from '@/lib/installments';
+
+export type AmortizationSystem = 'sac' | 'price';
+export type RatePeriod = 'monthly' | 'annual';
+
+export const MAX_LOAN_TERM = 600;
+
+export const AMORTIZATION_SYSTEM_LABELS: Record<AmortizationSystem, string> = {
+  sac: 'SAC',
+  price: 'Price',
+};
+
+export const RATE_PERIOD_LABELS: Record<RatePeriod, string> = {
+  monthly: '% a.m.',
+  annual: '% a.a.',
+};
+
+// Split labels of each installment expense
+export const INTEREST_LABEL = 'Juros';
+export const PRINCIPAL_LABEL = 'Amortização';
+
+export interface Loan {
+  id: string;
+  profile_id: string;
+  name: string;
+  principal: number;
+  interest_rate: number; // percent
+  rate_period: RatePeriod;
+  term_months: number;
+  amortization_system: AmortizationSystem;
+  first_due_date: string;
+  account_id: string | null;
+  category_id: string | null;
+  notes: string | null;
+}
+
+export interface LoanInstallmentTransaction {
+  id: string;
+  loan_id: string;
+  loan_installment: number;
+  amount: number;
+  transaction_date: string;
+  status: 'planned' | 'cleared' | 'reconciled';
+}
+
+export interface ScheduleRow {
+  number: number;
+  dueDate: string;
+  payment: number;
+  interest: number;
+  amortization: number;
+  // Balance left after this installment
+  balance: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Annual rates are converted to the equivalent compound monthly rate
+export function getMonthlyRate(rate: number, period: RatePeriod): number {
+  const fraction = Number(rate) / 100;
+  return period === 'annual' ? Math.pow(1 + fraction, 1 / 12) - 1 : fraction;
+}
+
+// Values are rounded to cents per installment; the last one settles whatever balance is left
+export function buildAmortizationSchedule(loan: Pick<Loan, 'principal' | 'interest_rate' | 'rate_period' | 'term_months' | 'amortization_system' | 'first_due_date'>): ScheduleRow[] {
+  const principal = Number(loan.principal);
+  const term = Number(loan.term_months);
+  const rate = getMonthlyRate(loan.interest_rate, loan.rate_period);
+  const dates = getInstallmentDates(loan.first_due_date.slice(0, 7), term, Number(loan.first_due_date.slice(8, 10)));
+
+  const pricePayment = rate === 0 ? principal / term : (principal * rate) / (1 - Math.pow(1 + rate, -term));
+  const sacAmortization = round(principal / term);
+
+  let balance = principal;
+  return dates.map((dueDate, i) => {
+    const isLast = i === term - 1;
+    const interest = round(balance * rate);
+    let amortization = loan.amortization_system === 'sac'
+      ? sacAmortization
+      : round(pricePayment) - interest;
+    if (isLast || amortization > balance) amortization = balance;
+    amortization = round(amortization);
+    balance = round(balance - amortization);
+
+    return {
+      number: i + 1,
+      dueDate,
+      payment: round(interest + amortization),
+      interest,
+      amortization,
+      balance,
+    };
+  });
+}
+
+export interface LoanProgress {
+  outstanding: number;
+  principalPaid: number;
+  interestPaid: number;
+  // Interest still to be paid if the schedule is followed
+  interestRemaining: number;
+  paidCount: number;
+  percent: number;
+  nextInstallment: ScheduleRow | null;
+}
+
+// Installments count as paid once their expense is no longer planned
+export function computeLoanProgress(
+  loan: Pick<Loan, 'principal'>,
+  schedule: ScheduleRow[],
+  transactions: LoanInstallmentTransaction[]
+): LoanProgress {
+  const paid = new Set(transactions.filter(t => t.status !== 'planned').map(t => t.loan_installment));
+  const paidRows = schedule.filter(row => paid.has(row.number));
+  const principalPaid = round(paidRows.reduce((sum, row) => sum + row.amortization, 0));
+  const interestPaid = round(paidRows.reduce((sum, row) => sum + row.interest, 0));
+  const interestTotal = schedule.reduce((sum, row) => sum + row.interest, 0);
+  const principal = Number(loan.principal);
+
+  return {
+    outstanding: round(principal - principalPaid),
+    principalPaid,
+    interestPaid,
+    interestRemaining: round(interestTotal - interestPaid),
+    paidCount: paidRows.length,
+    percent: principal > 0 ? Math.min((principalPaid / principal) * 100, 100) : 0,
+    nextInstallment: schedule.find(row => !paid.has(row.number)) ?? null,
+  };
+}
+
+// One planned expense per installment, linked to the loan by create_loan; installments already
+// due can be created as paid
+export function buildLoanInstallments<T extends object>(
+  values: T,
+  loan: Pick<Loan, 'name' | 'term_months'>,
+  schedule: ScheduleRow[],
+  markPastAsPaid: boolean,
+  today: Date = new Date()
+) {
+  const todayKey = format(today, 'yyyy-MM-dd');
+  return schedule.map(row => ({
+    ...values,
+    description: `${loan.name} (${row.number}/${loan.term_months})`,
+    amount: row.payment,
+    transaction_date: row.dueDate,
+    status: markPastAsPaid && row.dueDate <= todayKey ? 'cleared' as const : 'planned' as const,
+    loan_installment: row.number,
+  }));
+}
+
+// Interest and principal lines of an installment; a zero line is left out (splits must be positive)
+export function getInstallmentSplits(row: ScheduleRow): { label: string; amount: number }[] {
+  return [
+    { label: INTEREST_LABEL, amount: row.interest },
+    { label: PRINCIPAL_LABEL, amount: row.amortization },
+  ].filter(split => split.amount > 0);
+}
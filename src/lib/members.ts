@@ -0,0 +1,49 @@
+// Profile sharing helpers: members and invitations, with access enforced by the database policies
+
+export type ProfileRole = 'owner' | 'editor' | 'viewer';
+
+export type InvitationRole = Exclude<ProfileRole, 'owner'>;
+
+export const PROFILE_ROLE_LABELS: Record<ProfileRole, string> = {
+  owner: 'Proprietário',
+  editor: 'Editor',
+  viewer: 'Leitor',
+};
+
+export const PROFILE_ROLE_DESCRIPTIONS: Record<InvitationRole, string> = {
+  editor: 'Vê e altera lançamentos, contas e categorias',
+  viewer: 'Apenas visualiza',
+};
+
+export interface ProfileMember {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  email: string | null;
+  role: ProfileRole;
+  created_at: string;
+}
+
+export interface ProfileInvitation {
+  id: string;
+  profile_id: string;
+  email: string;
+  role: InvitationRole;
+  created_at: string;
+}
+
+export interface ReceivedInvitation {
+  id: string;
+  profile_name: string;
+  role: InvitationRole;
+  invited_by_email: string | null;
+  created_at: string;
+}
+
+export function canEditProfile(role: ProfileRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
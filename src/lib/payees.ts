@@ -0,0 +1,53 @@
+// Payee helpers: clean merchant names linked to transactions by matching their raw descriptions
+export const MAX_PAYEE_NAME_LENGTH = 100;
+
+// Report label of the expenses not linked to any payee
+export const NO_PAYEE_LABEL = 'Sem favorecido';
+
+export interface Payee {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface PayeeTransaction {
+  payee_id: string | null;
+  amount: number;
+}
+
+export interface PayeeTotal {
+  payee: Payee | null;
+  amount: number;
+  count: number;
+}
+
+// An alias needs at least one letter or digit besides the * wildcards, or it would match everything
+export function isValidAlias(alias: string): boolean {
+  return /[\p{L}\p{N}]/u.test(alias);
+}
+
+// One alias per line; blank lines and repeated entries are dropped
+export function parseAliasList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const aliases = value.split('\n').map(a => a.trim().replace(/\s+/g, ' ')).filter(Boolean);
+  return [...new Map(aliases.map(a => [a.toLowerCase(), a])).values()];
+}
+
+// Expenses per payee, biggest first; unlinked ones are grouped in a row with a null payee
+export function computePayeeTotals(transactions: PayeeTransaction[], payees: Payee[]): PayeeTotal[] {
+  const payeesById = new Map(payees.map(p => [p.id, p]));
+  const totals = new Map<string | null, PayeeTotal>();
+
+  transactions.forEach(t => {
+    const payee = (t.payee_id && payeesById.get(t.payee_id)) || null;
+    const key = payee?.id ?? null;
+    const total = totals.get(key) ?? { payee, amount: 0, count: 0 };
+    total.amount += Number(t.amount);
+    total.count += 1;
+    totals.set(key, total);
+  });
+
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MonthStart,
+  formatPeriod,
+  getMonthPeriod,
+  getNthBusinessDay,
+  getPeriodMonth,
+  getYearPeriod,
+  isCalendarMonth,
+  toDateRange,
+} from '@/lib/period';
+
+const fifthBusinessDay: MonthStart = { rule: 'business_day', day: 5 };
+const tenthDay: MonthStart = { rule: 'day', day: 10 };
+
+describe('getNthBusinessDay', () => {
+  it('counts the 1st when the month starts on a weekday', () => {
+    // 2026-04-01 is a Wednesday
+    expect(getNthBusinessDay(3, 2026, 1)).toEqual(new Date(2026, 3, 1));
+  });
+
+  it('skips a weekend at the start of the month', () => {
+    // 2026-11-01 is a Sunday and 2026-08-01 a Saturday
+    expect(getNthBusinessDay(10, 2026, 1)).toEqual(new Date(2026, 10, 2));
+    expect(getNthBusinessDay(7, 2026, 1)).toEqual(new Date(2026, 7, 3));
+  });
+
+  it('skips the weekends in between', () => {
+    // March 2026: Mon 2, Tue 3, Wed 4, Thu 5, Fri 6
+    expect(getNthBusinessDay(2, 2026, 5)).toEqual(new Date(2026, 2, 6));
+    // April 2026: Wed 1, Thu 2, Fri 3, Mon 6, Tue 7
+    expect(getNthBusinessDay(3, 2026, 5)).toEqual(new Date(2026, 3, 7));
+  });
+});
+
+describe('getMonthPeriod', () => {
+  it('is the calendar month by default', () => {
+    expect(getMonthPeriod(1, 2026)).toEqual({ start: new Date(2026, 1, 1), end: new Date(2026, 1, 28) });
+  });
+
+  it('runs from the start day to the day before it in the next month', () => {
+    expect(getMonthPeriod(2, 2026, tenthDay)).toEqual({ start: new Date(2026, 2, 10), end: new Date(2026, 3, 9) });
+  });
+
+  it('ends the day before the next Nth business day', () => {
+    expect(getMonthPeriod(2, 2026, fifthBusinessDay)).toEqual({ start: new Date(2026, 2, 6), end: new Date(2026, 3, 6) });
+  });
+
+  it('rolls December over into January', () => {
+    // 5th business day: Mon 2026-12-07 and Thu 2027-01-07
+    expect(getMonthPeriod(11, 2026, fifthBusinessDay)).toEqual({ start: new Date(2026, 11, 7), end: new Date(2027, 0, 6) });
+    expect(getMonthPeriod(11, 2026, tenthDay)).toEqual({ start: new Date(2026, 11, 10), end: new Date(2027, 0, 9) });
+  });
+});
+
+describe('getPeriodMonth', () => {
+  it('places dates before the start day in the previous month', () => {
+    expect(getPeriodMonth(new Date(2026, 3, 6), fifthBusinessDay)).toEqual({ month: 2, year: 2026 });
+    expect(getPeriodMonth(new Date(2026, 3, 7), fifthBusinessDay)).toEqual({ month: 3, year: 2026 });
+  });
+
+  it('goes back into the previous year in early January', () => {
+    expect(getPeriodMonth(new Date(2027, 0, 6), fifthBusinessDay)).toEqual({ month: 11, year: 2026 });
+    expect(getPeriodMonth(new Date(2027, 0, 9), tenthDay)).toEqual({ month: 11, year: 2026 });
+  });
+
+  it('is the calendar month by default', () => {
+    expect(getPeriodMonth(new Date(2026, 0, 1))).toEqual({ month: 0, year: 2026 });
+  });
+});
+
+describe('getYearPeriod', () => {
+  it('spans the twelve financial months', () => {
+    expect(getYearPeriod(2026, tenthDay)).toEqual({ start: new Date(2026, 0, 10), end: new Date(2027, 0, 9) });
+  });
+});
+
+describe('isCalendarMonth', () => {
+  it('is true only for months starting on day 1', () => {
+    expect(isCalendarMonth({ rule: 'day', day: 1 })).toBe(true);
+    expect(isCalendarMonth({ rule: 'business_day', day: 1 })).toBe(false);
+    expect(isCalendarMonth(tenthDay)).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  const period = getMonthPeriod(2, 2026, fifthBusinessDay);
+
+  it('formats the bounds for queries and labels', () => {
+    expect(toDateRange(period)).toEqual({ start: '2026-03-06', end: '2026-04-06' });
+    expect(formatPeriod(period)).toBe('06/03 a 06/04');
+  });
+});
@@ -0,0 +1,90 @@
+// Financial month helpers: a profile can start its month on a day other than the 1st (e.g. payday),
+// so the month named "March" runs from that day of March to the day before it in April
+import { addDays, format, isWeekend } from 'date-fns';
+
+export type MonthStartRule = 'day' | 'business_day';
+
+// `day` is the day of the month, or N for the Nth business day
+export interface MonthStart {
+  rule: MonthStartRule;
+  day: number;
+}
+
+export const DEFAULT_MONTH_START_DAY = 1;
+// Later days don't exist in every month
+export const MAX_MONTH_START_DAY = 28;
+// Every month has at least 20 business days
+export const MAX_MONTH_START_BUSINESS_DAY = 20;
+
+export const DEFAULT_MONTH_START: MonthStart = { rule: 'day', day: DEFAULT_MONTH_START_DAY };
+
+export const MONTH_START_RULE_LABELS: Record<MonthStartRule, string> = {
+  day: 'Dia do mês',
+  business_day: 'Dia útil',
+};
+
+export interface Period {
+  start: Date;
+  end: Date;
+}
+
+// Inclusive bounds as yyyy-MM-dd, for filtering transaction_date
+export function toDateRange(period: Period): { start: string; end: string } {
+  return {
+    start: format(period.start, 'yyyy-MM-dd'),
+    end: format(period.end, 'yyyy-MM-dd'),
+  };
+}
+
+export function isCalendarMonth(start: MonthStart): boolean {
+  return start.rule === 'day' && start.day === 1;
+}
+
+// Business days are Monday to Friday; holidays are not taken into account
+export function getNthBusinessDay(month: number, year: number, n: number): Date {
+  let date = new Date(year, month, 1);
+  let count = isWeekend(date) ? 0 : 1;
+  while (count < n) {
+    date = addDays(date, 1);
+    if (!isWeekend(date)) count++;
+  }
+  return date;
+}
+
+// First day of the financial month named after `month` (0-11) of `year`; months past December
+// or before January roll over into the next or previous year
+export function getMonthStartDate(month: number, year: number, start: MonthStart = DEFAULT_MONTH_START): Date {
+  const first = new Date(year, month, 1);
+  return start.rule === 'business_day'
+    ? getNthBusinessDay(first.getMonth(), first.getFullYear(), start.day)
+    : new Date(first.getFullYear(), first.getMonth(), start.day);
+}
+
+// The financial month named after `month` (0-11) of `year`
+export function getMonthPeriod(month: number, year: number, start: MonthStart = DEFAULT_MONTH_START): Period {
+  return {
+    start: getMonthStartDate(month, year, start),
+    end: addDays(getMonthStartDate(month + 1, year, start), -1),
+  };
+}
+
+// The twelve financial months of a year, from the start of January to the end of December
+export function getYearPeriod(year: number, start: MonthStart = DEFAULT_MONTH_START): Period {
+  return {
+    start: getMonthPeriod(0, year, start).start,
+    end: getMonthPeriod(11, year, start).end,
+  };
+}
+
+// The financial month a date falls in
+export function getPeriodMonth(date: Date, start: MonthStart = DEFAULT_MONTH_START): { month: number; year: number } {
+  const shifted = date < getMonthStartDate(date.getMonth(), date.getFullYear(), start)
+    ? new Date(date.getFullYear(), date.getMonth() - 1, 1)
+    : date;
+  return { month: shifted.getMonth(), year: shifted.getFullYear() };
+}
+
+// e.g. "05/03 a 04/04"
+export function formatPeriod(period: Period): string {
+  return `${format(period.start, 'dd/MM')} a ${format(period.end, 'dd/MM')}`;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { crc16, formatPixNotes, looksLikePix, parsePix } from '@/lib/pix';
+
+// Static code from the BCB manual (Manual de Padrões para Iniciação do Pix)
+const BCB_MANUAL_CODE =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR' +
+  '5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+// Code with an amount and accented text; its CRC (67A5) covers the UTF-8 bytes
+const ACCENTED_CODE =
+  '00020126500014br.gov.bcb.pix0118fulano@example.com0206Almoço520400005303986540542.505802BR' +
+  '5912João Padaria6009São Paulo62130509PEDIDO123630467A5';
+
+describe('crc16', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  it('runs over the UTF-8 bytes of the payload', () => {
+    expect(crc16(ACCENTED_CODE.slice(0, -4))).toBe('67A5');
+  });
+});
+
+describe('parsePix', () => {
+  it('reads the static code of the BCB manual', () => {
+    const pix = parsePix(BCB_MANUAL_CODE);
+
+    expect(pix.key).toBe('123e4567-e12b-12d1-a456-426655440000');
+    expect(pix.merchantName).toBe('Fulano de Tal');
+    expect(pix.merchantCity).toBe('BRASILIA');
+    expect(pix.amount).toBeNull();
+    expect(pix.txid).toBeNull();
+    expect(pix.isDynamic).toBe(false);
+  });
+
+  it('reads the amount, message and accented names', () => {
+    const pix = parsePix(ACCENTED_CODE);
+
+    expect(pix.amount).toBe(42.5);
+    expect(pix.merchantName).toBe('João Padaria');
+    expect(pix.merchantCity).toBe('São Paulo');
+    expect(pix.message).toBe('Almoço');
+    expect(pix.txid).toBe('PEDIDO123');
+    expect(formatPixNotes(pix)).toBe('PIX para João Padaria (São Paulo)\nChave: fulano@example.com\nID: PEDIDO123\nAlmoço');
+  });
+
+  it('rejects a code whose CRC does not match', () => {
+    expect(() => parsePix(BCB_MANUAL_CODE.replace('Fulano', 'Fulana'))).toThrow('CRC do código PIX inválido');
+  });
+
+  it('rejects a code without a CRC', () => {
+    expect(() => parsePix(BCB_MANUAL_CODE.slice(0, -8))).toThrow('Código PIX sem CRC');
+  });
+
+  it('tells PIX codes apart from boletos', () => {
+    expect(looksLikePix(` ${BCB_MANUAL_CODE}`)).toBe(true);
+    expect(looksLikePix('23793.38128 60007.827136 95000.063305 9 75520000370000')).toBe(false);
+  });
+});
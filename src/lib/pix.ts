@@ -0,0 +1,124 @@
+// PIX helpers: parses the copia-e-cola payload (EMV BR Code), a list of ID + 2-digit length + value fields
+// ending with a CRC16 that covers everything before it
+
+export interface PixPayload {
+  merchantName: string;
+  merchantCity: string;
+  // null when the payer types the amount
+  amount: number | null;
+  // '***' means the code has no transaction id
+  txid: string | null;
+  key: string | null;
+  // Free text the receiver attached to the code
+  message: string | null;
+  // Dynamic codes point to a URL served by the receiver's bank instead of carrying a key
+  url: string | null;
+  isDynamic: boolean;
+}
+
+const PIX_GUI = 'br.gov.bcb.pix';
+const BRL_NUMERIC_CODE = '986';
+
+// CRC16/CCITT-FALSE (polynomial 0x1021, initial 0xFFFF), as the BR Code manual requires. It runs over
+// the UTF-8 bytes, so names and cities with accents (e.g. "São Paulo") are checked as the banks do.
+const encoder = new TextEncoder();
+
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (const byte of encoder.encode(payload)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function parseFields(data: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let position = 0;
+
+  while (position < data.length) {
+    const id = data.slice(position, position + 2);
+    const length = Number(data.slice(position + 2, position + 4));
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length) || position + 4 + length > data.length) {
+      throw new Error('Código PIX mal formado');
+    }
+    fields.set(id, data.slice(position + 4, position + 4 + length));
+    position += 4 + length;
+  }
+
+  return fields;
+}
+
+// Cheap check used to tell PIX codes apart from boletos before parsing
+export function looksLikePix(input: string): boolean {
+  return input.trim().startsWith('000201');
+}
+
+export function parsePix(input: string): PixPayload {
+  const payload = input.trim();
+
+  const crcIndex = payload.length - 8;
+  if (crcIndex < 0 || payload.slice(crcIndex, crcIndex + 4) !== '6304') {
+    throw new Error('Código PIX sem CRC');
+  }
+  if (crc16(payload.slice(0, crcIndex + 4)) !== payload.slice(crcIndex + 4).toUpperCase()) {
+    throw new Error('CRC do código PIX inválido');
+  }
+
+  const fields = parseFields(payload);
+  if (fields.get('00') !== '01') {
+    throw new Error('Código PIX com formato desconhecido');
+  }
+
+  // Merchant account information may use any ID from 26 to 51; the PIX one carries the br.gov.bcb.pix GUI
+  let account: Map<string, string> | null = null;
+  for (let id = 26; id <= 51; id++) {
+    const value = fields.get(String(id));
+    if (!value) continue;
+    const subfields = parseFields(value);
+    if (subfields.get('00')?.toLowerCase() === PIX_GUI) {
+      account = subfields;
+      break;
+    }
+  }
+  if (!account) {
+    throw new Error('O código não é um PIX');
+  }
+
+  const currency = fields.get('53');
+  if (currency && currency !== BRL_NUMERIC_CODE) {
+    throw new Error('Código PIX em moeda não suportada');
+  }
+
+  const amount = fields.get('54') ? Number(fields.get('54')) : null;
+  if (amount !== null && (isNaN(amount) || amount <= 0)) {
+    throw new Error('Valor do código PIX inválido');
+  }
+
+  const additional = fields.get('62') ? parseFields(fields.get('62')) : null;
+  const txid = additional?.get('05') ?? null;
+
+  return {
+    merchantName: fields.get('59')?.trim() ?? '',
+    merchantCity: fields.get('60')?.trim() ?? '',
+    amount,
+    txid: txid && txid !== '***' ? txid : null,
+    key: account.get('01') ?? null,
+    message: account.get('02') ?? null,
+    url: account.get('25') ?? null,
+    isDynamic: fields.get('01') === '12' || account.has('25'),
+  };
+}
+
+// Summary kept in the notes so the payment can be traced later
+export function formatPixNotes(pix: PixPayload): string {
+  return [
+    `PIX para ${pix.merchantName}${pix.merchantCity ? ` (${pix.merchantCity})` : ''}`,
+    pix.key && `Chave: ${pix.key}`,
+    pix.txid && `ID: ${pix.txid}`,
+    pix.message,
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RecurringRule,
+  describeRecurrence,
+  getNextOccurrence,
+  getOccurrenceDate,
+  getOccurrences,
+  getPendingOccurrences,
+  getUpcomingOccurrences,
+  occurrenceToTransaction,
+} from '@/lib/recurrence';
+
+const rent: RecurringRule = {
+  id: 'rent',
+  profile_id: 'profile',
+  user_id: 'author',
+  type: 'expense',
+  description: 'Aluguel',
+  amount: 1500,
+  account_id: 'account',
+  category_id: 'category',
+  payment_method: 'boleto',
+  notes: null,
+  frequency: 'monthly',
+  interval: 1,
+  day_of_month: null,
+  start_date: '2026-01-31',
+  end_date: null,
+  occurrence_count: null,
+  is_active: true,
+  materialized_through: null,
+};
+
+const dates = (rule: RecurringRule, from: Date, until: Date) =>
+  getOccurrences(rule, from, until).map(o => o.date);
+
+describe('getOccurrenceDate', () => {
+  it('steps daily and weekly rules by their interval', () => {
+    expect(getOccurrenceDate({ ...rent, frequency: 'daily', interval: 3 }, 1)).toEqual(new Date(2026, 1, 3));
+    expect(getOccurrenceDate({ ...rent, frequency: 'weekly', interval: 2 }, 2)).toEqual(new Date(2026, 1, 28));
+  });
+
+  it('clamps monthly rules to the end of shorter months without drifting', () => {
+    expect([0, 1, 2, 3].map(i => getOccurrenceDate(rent, i))).toEqual([
+      new Date(2026, 0, 31),
+      new Date(2026, 1, 28),
+      new Date(2026, 2, 31),
+      new Date(2026, 3, 30),
+    ]);
+  });
+
+  it('falls on the last day of February in leap years', () => {
+    const rule = { ...rent, start_date: '2028-01-30' };
+
+    expect(getOccurrenceDate(rule, 1)).toEqual(new Date(2028, 1, 29));
+  });
+
+  it('keeps yearly rules on Feb 29 only in leap years', () => {
+    const rule: RecurringRule = { ...rent, frequency: 'yearly', start_date: '2028-02-29' };
+
+    expect([0, 1, 4].map(i => getOccurrenceDate(rule, i))).toEqual([
+      new Date(2028, 1, 29),
+      new Date(2029, 1, 28),
+      new Date(2032, 1, 29),
+    ]);
+  });
+
+  it('uses day_of_month over the day of the start date', () => {
+    const rule = { ...rent, start_date: '2026-01-05', day_of_month: 31, interval: 2 };
+
+    expect(getOccurrenceDate(rule, 1)).toEqual(new Date(2026, 2, 31));
+    expect(getOccurrenceDate(rule, 2)).toEqual(new Date(2026, 4, 31));
+  });
+});
+
+describe('getOccurrences', () => {
+  it('lists the occurrences within the range, both ends included', () => {
+    expect(dates(rent, new Date(2026, 1, 28), new Date(2026, 3, 30))).toEqual([
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+    ]);
+  });
+
+  it('skips a first month whose day_of_month comes before the start date', () => {
+    const rule = { ...rent, start_date: '2026-01-15', day_of_month: 10, occurrence_count: 2 };
+
+    expect(dates(rule, new Date(2026, 0, 1), new Date(2026, 11, 31))).toEqual(['2026-02-10', '2026-03-10']);
+  });
+
+  it('stops at the end date, which is included', () => {
+    const rule = { ...rent, end_date: '2026-03-31' };
+
+    expect(dates(rule, new Date(2026, 0, 1), new Date(2026, 11, 31))).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+    ]);
+  });
+
+  it('counts the occurrences before the range towards the occurrence count', () => {
+    const rule = { ...rent, occurrence_count: 3 };
+
+    expect(dates(rule, new Date(2026, 2, 1), new Date(2026, 11, 31))).toEqual(['2026-03-31']);
+  });
+});
+
+describe('getPendingOccurrences', () => {
+  it('resumes after the last materialized date', () => {
+    const rule = { ...rent, materialized_through: '2026-02-28' };
+
+    expect(getPendingOccurrences(rule, new Date(2026, 3, 30)).map(o => o.date)).toEqual(['2026-03-31', '2026-04-30']);
+  });
+
+  it('starts from the start date when nothing was materialized yet', () => {
+    expect(getPendingOccurrences(rent, new Date(2026, 1, 28)).map(o => o.date)).toEqual(['2026-01-31', '2026-02-28']);
+  });
+
+  it('returns nothing for paused rules', () => {
+    expect(getPendingOccurrences({ ...rent, is_active: false }, new Date(2026, 11, 31))).toEqual([]);
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  it('lists the active rules from tomorrow on, soonest first', () => {
+    const salary: RecurringRule = { ...rent, id: 'salary', type: 'income', start_date: '2026-01-05' };
+    const gym: RecurringRule = { ...rent, id: 'gym', start_date: '2026-01-01', is_active: false };
+    const upcoming = getUpcomingOccurrences([rent, salary, gym], 40, new Date(2026, 1, 4, 15, 0));
+
+    expect(upcoming.map(o => [o.rule.id, o.date])).toEqual([
+      ['salary', '2026-02-05'],
+      ['rent', '2026-02-28'],
+      ['salary', '2026-03-05'],
+    ]);
+  });
+
+  it('leaves out the occurrence of today', () => {
+    expect(getUpcomingOccurrences([rent], 1, new Date(2026, 1, 28))).toEqual([]);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('is the first occurrence after today', () => {
+    expect(getNextOccurrence(rent, new Date(2026, 1, 28))?.date).toBe('2026-03-31');
+  });
+
+  it('reaches rules that repeat every few years', () => {
+    const rule: RecurringRule = { ...rent, frequency: 'yearly', interval: 4, start_date: '2028-02-29' };
+
+    expect(getNextOccurrence(rule, new Date(2028, 2, 1))?.date).toBe('2032-02-29');
+  });
+
+  it('is undefined once the rule has ended', () => {
+    expect(getNextOccurrence({ ...rent, end_date: '2026-02-28' }, new Date(2026, 1, 28))).toBeUndefined();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names the frequency and, for monthly and yearly rules, the day', () => {
+    expect(describeRecurrence(rent)).toBe('Mensal, dia 31');
+    expect(describeRecurrence({ ...rent, interval: 2, day_of_month: 10 })).toBe('A cada 2 meses, dia 10');
+    expect(describeRecurrence({ ...rent, frequency: 'weekly', interval: 2 })).toBe('A cada 2 semanas');
+  });
+});
+
+describe('occurrenceToTransaction', () => {
+  it('copies the rule and credits the user creating the transaction', () => {
+    expect(occurrenceToTransaction({ rule: rent, date: '2026-02-28' }, 'member')).toMatchObject({
+      profile_id: 'profile',
+      user_id: 'member',
+      amount: 1500,
+      transaction_date: '2026-02-28',
+      recurring_rule_id: 'rent',
+      recurrence_date: '2026-02-28',
+    });
+  });
+});
@@ -0,0 +1,139 @@
+// Recurrence helpers: occurrence dates of recurring rules and the rows they materialize into
+import { addDays, addMonths, addWeeks, addYears, format, getDaysInMonth, parseISO, startOfDay } from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  type: 'income' | 'expense';
+  description: string;
+  amount: number;
+  account_id: string | null;
+  category_id: string | null;
+  payment_method: 'pix' | 'boleto' | 'credito' | 'debito' | 'dinheiro' | 'transferencia';
+  notes: string | null;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  occurrence_count: number | null;
+  is_active: boolean;
+  materialized_through: string | null;
+}
+
+export interface Occurrence {
+  rule: RecurringRule;
+  date: string; // yyyy-MM-dd
+}
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Diária',
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+// Units for "a cada N ..." descriptions
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'dias',
+  weekly: 'semanas',
+  monthly: 'meses',
+  yearly: 'anos',
+};
+
+// Safety net for rules without an end, so a far "until" never loops forever
+const MAX_OCCURRENCES = 5000;
+
+export function describeRecurrence(rule: Pick<RecurringRule, 'frequency' | 'interval' | 'day_of_month' | 'start_date'>): string {
+  const every = rule.interval > 1
+    ? `A cada ${rule.interval} ${FREQUENCY_UNITS[rule.frequency]}`
+    : FREQUENCY_LABELS[rule.frequency];
+  if (rule.frequency !== 'monthly' && rule.frequency !== 'yearly') return every;
+  return `${every}, dia ${rule.day_of_month ?? parseISO(rule.start_date).getDate()}`;
+}
+
+// Date of the i-th occurrence (0-based). Monthly and yearly rules fall on day_of_month,
+// clamped to the month's length (day 31 becomes Feb 28/29).
+export function getOccurrenceDate(rule: RecurringRule, index: number): Date {
+  const start = parseISO(rule.start_date);
+  const step = index * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(start, step);
+    case 'weekly':
+      return addWeeks(start, step);
+    default: {
+      const month = rule.frequency === 'monthly'
+        ? addMonths(new Date(start.getFullYear(), start.getMonth(), 1), step)
+        : addYears(new Date(start.getFullYear(), start.getMonth(), 1), step);
+      const day = Math.min(rule.day_of_month ?? start.getDate(), getDaysInMonth(month));
+      return new Date(month.getFullYear(), month.getMonth(), day);
+    }
+  }
+}
+
+// Occurrences of a rule within [from, until], honouring its end date and occurrence count
+export function getOccurrences(rule: RecurringRule, from: Date, until: Date): Occurrence[] {
+  const start = parseISO(rule.start_date);
+  const end = rule.end_date ? parseISO(rule.end_date) : null;
+  const limit = rule.occurrence_count ?? MAX_OCCURRENCES;
+  const occurrences: Occurrence[] = [];
+  let counted = 0;
+
+  for (let i = 0; i <= MAX_OCCURRENCES && counted < limit; i++) {
+    const date = getOccurrenceDate(rule, i);
+    if (date > until || (end && date > end)) break;
+    // A day_of_month before the start date's day would place the first month before the start
+    if (date < start) continue;
+    counted++;
+    if (date >= from) occurrences.push({ rule, date: format(date, 'yyyy-MM-dd') });
+  }
+
+  return occurrences;
+}
+
+// Occurrences that are due up to `until` and were not materialized yet
+export function getPendingOccurrences(rule: RecurringRule, until: Date): Occurrence[] {
+  if (!rule.is_active) return [];
+  const from = rule.materialized_through ? addDays(parseISO(rule.materialized_through), 1) : parseISO(rule.start_date);
+  return getOccurrences(rule, from, until);
+}
+
+// Occurrences still to come (after today) across all active rules, soonest first
+export function getUpcomingOccurrences(rules: RecurringRule[], days: number, today: Date = new Date()): Occurrence[] {
+  const from = addDays(startOfDay(today), 1);
+  const until = addDays(from, days - 1);
+  return rules
+    .filter(r => r.is_active)
+    .flatMap(r => getOccurrences(r, from, until))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// First occurrence after today; a window of `interval` years covers the longest possible step
+export function getNextOccurrence(rule: RecurringRule, today: Date = new Date()): Occurrence | undefined {
+  const from = addDays(startOfDay(today), 1);
+  return getOccurrences(rule, from, addYears(from, rule.interval))[0];
+}
+
+// Transaction row for an occurrence, copied from the rule's template fields. It is credited to
+// the user creating it: the author of the rule may no longer be a member of the profile.
+export function occurrenceToTransaction({ rule, date }: Occurrence, userId: string) {
+  return {
+    profile_id: rule.profile_id,
+    user_id: userId,
+    type: rule.type,
+    description: rule.description,
+    amount: rule.amount,
+    account_id: rule.account_id,
+    category_id: rule.category_id,
+    payment_method: rule.payment_method,
+    notes: rule.notes,
+    transaction_date: date,
+    recurring_rule_id: rule.id,
+    recurrence_date: date,
+  };
+}
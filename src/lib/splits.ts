@@ -0,0 +1,82 @@
+// Split helpers: purpose lines of a transaction whose amounts add up to the transaction amount
+import { normalizeAccountName } from '@/lib/accounts';
+
+export const MAX_SPLIT_LABEL_LENGTH = 100;
+
+// Report label of the part of the month's expenses that was not split
+export const UNSPLIT_LABEL = 'Sem divisão';
+
+export interface SplitLine {
+  label: string;
+  amount: number;
+  notes: string | null;
+}
+
+export interface SplitTransaction {
+  amount: number;
+  transaction_splits?: (SplitLine & { position?: number })[];
+}
+
+export interface SplitTotal {
+  label: string;
+  amount: number;
+  count: number;
+}
+
+// Compared in cents so 33.33 + 33.33 + 33.34 matches 100
+export function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+export function splitsMatchAmount(splits: Pick<SplitLine, 'amount'>[], amount: number): boolean {
+  return splits.reduce((sum, s) => sum + toCents(s.amount), 0) === toCents(amount);
+}
+
+// CSV column format: "Mercado: 80,00 | Farmácia: 20,00"
+export function formatSplitList(splits: SplitLine[] = []): string {
+  return splits
+    .map(s => `${s.label}: ${Number(s.amount).toFixed(2).replace('.', ',')}`)
+    .join(' | ');
+}
+
+// Reverse of formatSplitList; an entry without a valid amount keeps NaN so validation reports it
+export function parseSplitList(value: string | undefined): SplitLine[] {
+  if (!value?.trim()) return [];
+  return value.split('|').map(s => s.trim()).filter(Boolean).map(entry => {
+    const separator = entry.lastIndexOf(':');
+    const label = separator === -1 ? entry : entry.slice(0, separator).trim();
+    const amount = separator === -1
+      ? NaN
+      : parseFloat(entry.slice(separator + 1).replace(/[R$\s.]/g, '').replace(',', '.'));
+    return { label, amount, notes: null };
+  });
+}
+
+// Lines in the order they were entered
+export function sortSplits<T extends { position?: number }>(splits: T[] = []): T[] {
+  return [...splits].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+// Totals per split label (case and accents ignored). Transactions without splits are grouped
+// under UNSPLIT_LABEL, so the report still adds up to the month's total.
+export function computeSplitTotals(transactions: SplitTransaction[]): SplitTotal[] {
+  const totals = new Map<string, SplitTotal>();
+  const add = (label: string, amount: number) => {
+    const key = normalizeAccountName(label);
+    const total = totals.get(key) ?? { label, amount: 0, count: 0 };
+    total.amount += amount;
+    total.count += 1;
+    totals.set(key, total);
+  };
+
+  transactions.forEach(t => {
+    const splits = t.transaction_splits ?? [];
+    if (splits.length === 0) {
+      add(UNSPLIT_LABEL, Number(t.amount));
+    } else {
+      splits.forEach(s => add(s.label, Number(s.amount)));
+    }
+  });
+
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,34 @@
+// Transaction status helpers: planned entries are expected; cleared and reconciled ones already happened
+
+export type TransactionStatus = 'planned' | 'cleared' | 'reconciled';
+
+export const DEFAULT_TRANSACTION_STATUS: TransactionStatus = 'cleared';
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  planned: 'Previsto',
+  cleared: 'Realizado',
+  reconciled: 'Conciliado',
+};
+
+export function isRealized(status: TransactionStatus | null | undefined): boolean {
+  return status !== 'planned';
+}
+
+export interface StatusTotals {
+  realized: number;
+  // Realized plus planned: what the month adds up to once every planned entry happens
+  projected: number;
+}
+
+export function computeStatusTotals(rows: { amount: number; status?: TransactionStatus | null }[]): StatusTotals {
+  return rows.reduce(
+    (totals, row) => {
+      const amount = Number(row.amount);
+      return {
+        realized: totals.realized + (isRealized(row.status) ? amount : 0),
+        projected: totals.projected + amount,
+      };
+    },
+    { realized: 0, projected: 0 }
+  );
+}
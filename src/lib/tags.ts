@@ -0,0 +1,72 @@
+// Tag helpers: free-form labels attached to transactions through transaction_tags
+export const MAX_TAG_LENGTH = 50;
+
+export const DEFAULT_TAG_COLOR = '#64748b';
+
+export interface Tag {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  name: string;
+  color: string | null;
+}
+
+export interface TaggedTransaction {
+  type: 'income' | 'expense' | 'transfer';
+  amount: number;
+  tag_ids: string[];
+}
+
+export interface TagTotal {
+  tag: Tag;
+  income: number;
+  expense: number;
+  count: number;
+}
+
+// Tags are stored lower case with dashes instead of spaces: "#Viagem 2026" -> "viagem-2026"
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// "viagem-2026, reembolsável" -> ['viagem-2026', 'reembolsável']
+export function parseTagList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return [...new Set(value.split(',').map(normalizeTagName).filter(Boolean))];
+}
+
+// Nested select rows ({ transaction_tags: [{ tag_id }] }) flattened into tag_ids
+export function withTagIds<T extends { transaction_tags?: { tag_id: string }[] }>(
+  rows: T[]
+): (Omit<T, 'transaction_tags'> & { tag_ids: string[] })[] {
+  return rows.map(({ transaction_tags, ...row }) => ({
+    ...row,
+    tag_ids: (transaction_tags ?? []).map(t => t.tag_id),
+  }));
+}
+
+// Income and expense per tag; a transaction with several tags counts towards each of them
+export function computeTagTotals(transactions: TaggedTransaction[], tags: Tag[]): TagTotal[] {
+  const totals = new Map<string, TagTotal>(
+    tags.map(tag => [tag.id, { tag, income: 0, expense: 0, count: 0 }])
+  );
+
+  transactions.forEach(t => {
+    t.tag_ids.forEach(tagId => {
+      const total = totals.get(tagId);
+      if (!total) return;
+      if (t.type === 'income') total.income += Number(t.amount);
+      if (t.type === 'expense') total.expense += Number(t.amount);
+      total.count += 1;
+    });
+  });
+
+  return [...totals.values()]
+    .filter(t => t.count > 0)
+    .sort((a, b) => (b.expense + b.income) - (a.expense + a.income));
+}
@@ -0,0 +1,59 @@
+// Transfer helpers: a transfer is stored as two linked rows sharing transfer_id
+export type TransferDirection = 'out' | 'in';
+
+export interface TransferLeg {
+  id: string;
+  account_id: string | null;
+  transfer_id: string | null;
+  transfer_direction: TransferDirection | null;
+}
+
+export type PairedTransfer<T extends TransferLeg> = T & {
+  destination_account_id: string | null;
+  counterpart_id: string | null;
+};
+
+// Collapse each pair into its 'out' leg, carrying the id and destination account of the 'in' leg.
+// Rows that are not part of a transfer are returned unchanged.
+export function pairTransferLegs<T extends TransferLeg>(rows: T[]): PairedTransfer<T>[] {
+  const incoming = new Map<string, T>();
+  rows.forEach(row => {
+    if (row.transfer_id && row.transfer_direction === 'in') incoming.set(row.transfer_id, row);
+  });
+
+  return rows
+    .filter(row => !row.transfer_id || row.transfer_direction === 'out')
+    .map(row => {
+      const counterpart = row.transfer_id ? incoming.get(row.transfer_id) : undefined;
+      return {
+        ...row,
+        destination_account_id: counterpart?.account_id ?? null,
+        counterpart_id: counterpart?.id ?? null,
+      };
+    });
+}
+
+// Rows for both legs of a transfer
+export function buildTransferLegs<T extends object>(
+  values: T,
+  transferId: string,
+  sourceAccountId: string,
+  destinationAccountId: string
+) {
+  return [
+    {
+      ...values,
+      type: 'transfer' as const,
+      account_id: sourceAccountId,
+      transfer_id: transferId,
+      transfer_direction: 'out' as const,
+    },
+    {
+      ...values,
+      type: 'transfer' as const,
+      account_id: destinationAccountId,
+      transfer_id: transferId,
+      transfer_direction: 'in' as const,
+    },
+  ];
+}
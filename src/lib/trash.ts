@@ -0,0 +1,15 @@
+// Trash helpers: deleted transactions and profiles are kept for a retention period, then purged
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [7, 15, 30, 60, 90, 180, 365];
+
+export function getPurgeDate(deletedAt: string, retentionDays: number): Date {
+  return addDays(parseISO(deletedAt), retentionDays);
+}
+
+export function getDaysUntilPurge(deletedAt: string, retentionDays: number, now: Date = new Date()): number {
+  return Math.max(differenceInCalendarDays(getPurgeDate(deletedAt, retentionDays), now), 0);
+}
+
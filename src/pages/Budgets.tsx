@@ -0,0 +1,363 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, PiggyBank, Copy, Target, TrendingDown, Wallet } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBudgetProgress } from '@/hooks/useBudgets';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCategories } from '@/hooks/useCategories';
+import { BudgetDialog, BudgetFormData } from '@/components/budgets/BudgetDialog';
+import { KPICard } from '@/components/dashboard/KPICard';
+import { MonthYearPicker } from '@/components/dashboard/MonthYearPicker';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Budget, getBudgetMonth, parseKeywords } from '@/lib/budgets';
+import { cn } from '@/lib/utils';
+import { formatMoney } from '@/lib/currency';
+
+const paymentMethodLabels: Record<string, string> = {
+  pix: 'Pix',
+  boleto: 'Boleto',
+  credito: 'Crédito',
+  debito: 'Débito',
+  dinheiro: 'Dinheiro',
+  transferencia: 'Transferência',
+};
+
+export default function Budgets() {
+  const now = new Date();
+  const [selectedMonth, setSelectedMonth] = useState(now.getMonth());
+  const [selectedYear, setSelectedYear] = useState(now.getFullYear());
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [deleteBudgetId, setDeleteBudgetId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { progress, isLoading } = useBudgetProgress(selectedProfile?.id, selectedMonth, selectedYear);
+  const { accountsById } = useAccounts(selectedProfile?.id);
+  const { categoriesById } = useCategories(selectedProfile?.id);
+  const queryClient = useQueryClient();
+
+  const formatCurrency = (value: number) => formatMoney(value, selectedProfile?.base_currency);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BudgetFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const values = {
+        name: data.name.trim(),
+        amount: parseFloat(data.amount.replace(',', '.')),
+        payment_method: (data.payment_method || null) as Budget['payment_method'],
+        account_id: data.account_id || null,
+        category_id: data.category_id || null,
+        keywords: parseKeywords(data.keywords || ''),
+      };
+
+      const { error } = editingBudget
+        ? await supabase
+            .from('budgets')
+            .update(values)
+            .eq('id', editingBudget.id)
+        : await supabase
+            .from('budgets')
+            .insert({
+              ...values,
+              month: getBudgetMonth(selectedMonth, selectedYear),
+              profile_id: selectedProfile.id,
+              user_id: user.id,
+            });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe um orçamento com este nome no mês');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast.success(editingBudget ? 'Orçamento atualizado com sucesso!' : 'Orçamento criado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar orçamento: ' + error.message);
+    },
+  });
+
+  // Lines already present in the selected month are kept as they are
+  const copyMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const { data: previous, error: fetchError } = await supabase
+        .from('budgets')
+        .select('*')
+        .eq('profile_id', selectedProfile.id)
+        .eq('month', getBudgetMonth(selectedMonth - 1, selectedYear));
+
+      if (fetchError) throw fetchError;
+      if (previous.length === 0) throw new Error('O mês anterior não tem orçamentos');
+
+      const rows = previous.map(b => ({
+        profile_id: b.profile_id,
+        user_id: user.id,
+        month: getBudgetMonth(selectedMonth, selectedYear),
+        name: b.name,
+        amount: b.amount,
+        payment_method: b.payment_method,
+        account_id: b.account_id,
+        category_id: b.category_id,
+        keywords: b.keywords,
+      }));
+
+      const { error } = await supabase
+        .from('budgets')
+        .upsert(rows, { onConflict: 'profile_id,month,name', ignoreDuplicates: true });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast.success('Orçamentos copiados do mês anterior!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao copiar orçamentos: ' + error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast.success('Orçamento excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir orçamento: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingBudget(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingBudget(budget);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteBudgetId) {
+      deleteMutation.mutate(deleteBudgetId);
+      setDeleteBudgetId(null);
+    }
+  };
+
+  const describeFilters = (budget: Budget): string[] => {
+    const filters: string[] = [];
+    if (budget.payment_method) filters.push(paymentMethodLabels[budget.payment_method]);
+    const account = budget.account_id ? accountsById.get(budget.account_id) : undefined;
+    if (account) filters.push(account.name);
+    const category = budget.category_id ? categoriesById.get(budget.category_id) : undefined;
+    if (category) filters.push(category.name);
+    budget.keywords.forEach(k => filters.push(`"${k}"`));
+    return filters;
+  };
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver os orçamentos.
+        </p>
+      </div>
+    );
+  }
+
+  const planned = progress.reduce((sum, p) => sum + Number(p.budget.amount), 0);
+  const spent = progress.reduce((sum, p) => sum + p.spent, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Orçamentos
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Gastos planejados e realizados de {selectedProfile.name}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <MonthYearPicker
+            selectedMonth={selectedMonth}
+            selectedYear={selectedYear}
+            onMonthChange={setSelectedMonth}
+            onYearChange={setSelectedYear}
+          />
+          <Button
+            variant="outline"
+            onClick={() => copyMutation.mutate()}
+            disabled={copyMutation.isPending}
+            className="gap-2 press-effect"
+          >
+            <Copy className="h-4 w-4" />
+            Copiar mês anterior
+          </Button>
+          <Button onClick={handleOpenNew} className="gap-2 press-effect">
+            <Plus className="h-4 w-4" />
+            Novo Orçamento
+          </Button>
+        </div>
+      </div>
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 lg:gap-6 stagger-children">
+        <KPICard
+          title="Planejado"
+          value={planned}
+          icon={<Target className="h-6 w-6" />}
+          type="income"
+          currency={selectedProfile?.base_currency}
+        />
+        <KPICard
+          title="Gasto"
+          value={spent}
+          icon={<TrendingDown className="h-6 w-6" />}
+          type="expense"
+          currency={selectedProfile?.base_currency}
+        />
+        <KPICard
+          title="Disponível"
+          value={planned - spent}
+          icon={<Wallet className="h-6 w-6" />}
+          type="balance"
+          currency={selectedProfile?.base_currency}
+        />
+      </div>
+
+      <div className="animate-slide-up" style={{ animationDelay: '100ms' }}>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : progress.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <PiggyBank className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <p className="text-lg font-medium text-foreground">Nenhum orçamento neste mês</p>
+            <p className="text-sm text-muted-foreground">Crie um orçamento ou copie os do mês anterior</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border bg-card divide-y">
+            {progress.map(({ budget, spent, remaining, percent, isOver }) => {
+              const filters = describeFilters(budget);
+              return (
+                <div key={budget.id} className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground">{budget.name}</span>
+                        {isOver && <Badge variant="destructive">Estourado</Badge>}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {filters.length === 0 ? (
+                          <span className="text-xs text-muted-foreground">Todas as despesas</span>
+                        ) : (
+                          filters.map((filter) => (
+                            <Badge key={filter} variant="secondary" className="font-normal">
+                              {filter}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(budget)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleteBudgetId(budget.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Progress
+                    value={Math.min(percent, 100)}
+                    className={cn('h-2', isOver ? '[&>div]:bg-expense' : percent >= 80 && '[&>div]:bg-amber-500')}
+                  />
+
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {formatCurrency(spent)} de {formatCurrency(Number(budget.amount))} ({Math.round(percent)}%)
+                    </span>
+                    <span className={cn('font-semibold', isOver ? 'text-expense' : 'text-income')}>
+                      {isOver ? `${formatCurrency(-remaining)} acima` : `${formatCurrency(remaining)} restantes`}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <BudgetDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        budget={editingBudget}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deleteBudgetId} onOpenChange={() => setDeleteBudgetId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir orçamento</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir este orçamento? Os lançamentos não são afetados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
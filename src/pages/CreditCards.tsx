@@ -0,0 +1,360 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertTriangle, CreditCard, Receipt, Wallet, TrendingDown } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccountBalances } from '@/hooks/useAccounts';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { KPICard } from '@/components/dashboard/KPICard';
+import { PayStatementDialog, PayStatementFormData } from '@/components/credit-cards/PayStatementDialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CreditCardStatement,
+  StatementPayment,
+  StatementStatus,
+  STATEMENT_STATUS_LABELS,
+  buildStatements,
+  getStatementLabel,
+  isCreditCardConfigured,
+} from '@/lib/creditCards';
+import { convertAmounts, formatMoney } from '@/lib/currency';
+import { buildTransferLegs } from '@/lib/transfers';
+import { cn } from '@/lib/utils';
+
+interface CardTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  type: 'income' | 'expense' | 'transfer';
+  transaction_date: string;
+}
+
+const statusStyles: Record<StatementStatus, string> = {
+  open: 'bg-primary/10 text-primary',
+  closed: 'bg-expense-muted text-expense',
+  paid: 'bg-income-muted text-income',
+};
+
+export default function CreditCards() {
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [payingStatement, setPayingStatement] = useState<CreditCardStatement | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { accounts, balances, missing: balanceMissing } = useAccountBalances(selectedProfile?.id);
+  const { converter } = useExchangeRates(selectedProfile?.id, selectedProfile?.base_currency);
+  const queryClient = useQueryClient();
+
+  const cards = accounts.filter(a => a.type === 'credit');
+  const card = cards.find(c => c.id === selectedCardId) ?? cards[0];
+
+  const formatCurrency = (value: number) => formatMoney(value, selectedProfile?.base_currency);
+
+  const { data: cardTransactions = [], isLoading } = useQuery({
+    queryKey: ['transactions', 'card', card?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, description, amount, currency, type, transaction_date')
+        .is('deleted_at', null)
+        .eq('account_id', card.id)
+        .in('type', ['income', 'expense'])
+        .order('transaction_date', { ascending: false });
+
+      if (error) throw error;
+      return data as CardTransaction[];
+    },
+    enabled: !!card,
+  });
+
+  const { data: payments = [] } = useQuery({
+    queryKey: ['credit_card_statements', card?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('credit_card_statements')
+        .select('id, reference_month, payment_transaction_id, transactions(deleted_at)')
+        .eq('account_id', card.id);
+
+      if (error) throw error;
+      // A payment moved to the trash leaves the statement unpaid
+      return data.map(({ transactions, ...payment }) => ({
+        ...payment,
+        payment_transaction_id: transactions?.deleted_at ? null : payment.payment_transaction_id,
+      })) as StatementPayment[];
+    },
+    enabled: !!card,
+  });
+
+  // Statements are totalled in the base currency; purchases without a rate are left out
+  const converted = useMemo(
+    () => convertAmounts(cardTransactions, converter),
+    [cardTransactions, converter]
+  );
+
+  const statements = useMemo(
+    () => (card ? buildStatements(card, converted.rows, payments) : []),
+    [card, converted, payments]
+  );
+
+  // Paying a statement is a transfer from the chosen account to the card,
+  // recorded against the statement through its incoming leg
+  const payMutation = useMutation({
+    mutationFn: async ({ statement, data }: { statement: CreditCardStatement; data: PayStatementFormData }) => {
+      if (!selectedProfile || !user || !card) throw new Error('Perfil ou usuário não encontrado');
+
+      const { data: legs, error } = await supabase
+        .from('transactions')
+        .insert(buildTransferLegs(
+          {
+            profile_id: selectedProfile.id,
+            user_id: user.id,
+            description: `Pagamento fatura ${card.name} ${getStatementLabel(statement)}`,
+            amount: parseFloat(data.amount.replace(',', '.')),
+            payment_method: 'transferencia' as const,
+            transaction_date: format(data.payment_date, 'yyyy-MM-dd'),
+            notes: null,
+          },
+          uuidv4(),
+          data.account_id,
+          card.id
+        ))
+        .select('id, transfer_direction');
+
+      if (error) throw error;
+
+      const { error: statementError } = await supabase
+        .from('credit_card_statements')
+        .upsert(
+          {
+            profile_id: selectedProfile.id,
+            user_id: user.id,
+            account_id: card.id,
+            reference_month: statement.referenceMonth,
+            payment_transaction_id: legs.find(l => l.transfer_direction === 'in')?.id,
+          },
+          { onConflict: 'account_id,reference_month' }
+        );
+
+      if (statementError) throw statementError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['credit_card_statements'] });
+      toast.success('Fatura paga com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao pagar fatura: ' + error.message);
+    },
+  });
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver as faturas.
+        </p>
+      </div>
+    );
+  }
+
+  if (!card) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <div className="w-20 h-20 rounded-2xl bg-muted flex items-center justify-center mb-4">
+          <CreditCard className="h-10 w-10 text-muted-foreground" />
+        </div>
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum cartão de crédito
+        </h2>
+        <p className="text-muted-foreground max-w-md">
+          Cadastre uma conta do tipo cartão de crédito em{' '}
+          <Link to="/configuracoes" className="text-primary hover:underline">Configurações</Link>{' '}
+          para acompanhar suas faturas.
+        </p>
+      </div>
+    );
+  }
+
+  const used = Math.max(0, -(balances[card.id] ?? 0));
+  const limit = card.credit_limit != null ? Number(card.credit_limit) : null;
+  const today = startOfDay(new Date());
+  const currentStatement = statements.find(s => s.periodStart <= today && today <= s.closingDate);
+  const missingCurrencies = [...new Set([...converted.missing, ...balanceMissing])];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Faturas
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Faturas dos cartões de crédito de {selectedProfile.name}
+          </p>
+        </div>
+        <Select value={card.id} onValueChange={setSelectedCardId}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {cards.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {missingCurrencies.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Cotação não encontrada</AlertTitle>
+          <AlertDescription>
+            Compras em {missingCurrencies.join(', ')} não entram nas faturas por falta de cotação
+            para {selectedProfile.base_currency}. Cadastre as cotações em Configurações.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!isCreditCardConfigured(card) ? (
+        <div className="rounded-lg border bg-card p-8 text-center animate-slide-up">
+          <p className="text-muted-foreground">
+            Informe os dias de fechamento e vencimento de {card.name} em{' '}
+            <Link to="/configuracoes" className="text-primary hover:underline">Configurações</Link>{' '}
+            para agrupar as compras em faturas.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* KPI Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 lg:gap-6 stagger-children">
+            <KPICard
+              title="Fatura Atual"
+              value={currentStatement?.total ?? 0}
+              icon={<Receipt className="h-6 w-6" />}
+              type="expense"
+              currency={selectedProfile.base_currency}
+            />
+            <KPICard
+              title="Limite Utilizado"
+              value={used}
+              icon={<TrendingDown className="h-6 w-6" />}
+              type="expense"
+              currency={selectedProfile.base_currency}
+            />
+            {limit != null && (
+              <KPICard
+                title="Limite Disponível"
+                value={limit - used}
+                icon={<Wallet className="h-6 w-6" />}
+                type="balance"
+                currency={selectedProfile.base_currency}
+              />
+            )}
+          </div>
+
+          {/* Statements */}
+          <div className="rounded-lg border bg-card animate-slide-up" style={{ animationDelay: '100ms' }}>
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <Accordion type="single" collapsible defaultValue={currentStatement?.referenceMonth}>
+                {statements.map((statement) => (
+                  <AccordionItem key={statement.referenceMonth} value={statement.referenceMonth} className="px-4">
+                    <AccordionTrigger className="hover:no-underline">
+                      <div className="flex flex-1 flex-wrap items-center justify-between gap-3 pr-4">
+                        <div className="text-left">
+                          <p className="font-medium text-foreground">{getStatementLabel(statement)}</p>
+                          <p className="text-sm text-muted-foreground font-normal">
+                            {format(statement.periodStart, 'dd/MM')} a {format(statement.closingDate, 'dd/MM')}
+                            {' · '}vence em {format(statement.dueDate, 'dd/MM/yyyy')}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <Badge variant="secondary" className={cn('font-medium', statusStyles[statement.status])}>
+                            {STATEMENT_STATUS_LABELS[statement.status]}
+                          </Badge>
+                          <span className="font-semibold text-expense min-w-[110px] text-right">
+                            {formatCurrency(statement.total)}
+                          </span>
+                        </div>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      {statement.transactions.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-2">Nenhuma compra nesta fatura.</p>
+                      ) : (
+                        <div className="divide-y">
+                          {statement.transactions.map((t) => (
+                            <div key={t.id} className="flex items-center justify-between py-2 text-sm">
+                              <div className="flex items-center gap-3">
+                                <span className="text-muted-foreground w-12">
+                                  {format(parseISO(t.transaction_date), 'dd/MM')}
+                                </span>
+                                <span className="text-foreground">{t.description}</span>
+                              </div>
+                              <span className={cn('font-medium', t.type === 'income' ? 'text-income' : 'text-foreground')}>
+                                {t.type === 'income' ? '- ' : ''}{formatCurrency(Number(t.amount))}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {statement.status !== 'paid' && statement.total > 0 && (
+                        <div className="flex justify-end pt-4">
+                          <Button onClick={() => setPayingStatement(statement)} className="gap-2 press-effect">
+                            <Wallet className="h-4 w-4" />
+                            Pagar fatura
+                          </Button>
+                        </div>
+                      )}
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            )}
+          </div>
+        </>
+      )}
+
+      <PayStatementDialog
+        open={!!payingStatement}
+        onOpenChange={(open) => !open && setPayingStatement(null)}
+        card={card}
+        statement={payingStatement}
+        accounts={accounts}
+        onSubmit={async (data) => {
+          await payMutation.mutateAsync({ statement: payingStatement, data });
+        }}
+      />
+    </div>
+  );
+}
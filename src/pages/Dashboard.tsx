@@ -1,11 +1,30 @@
-import { useState } from 'react';
-import { TrendingUp, TrendingDown, Wallet } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { parseISO } from 'date-fns';
+import { AlertTriangle, TrendingUp, TrendingDown, Wallet } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useProfiles } from '@/contexts/ProfileContext';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { KPICard } from '@/components/dashboard/KPICard';
 import { FinancialChart } from '@/components/dashboard/FinancialChart';
 import { MonthYearPicker } from '@/components/dashboard/MonthYearPicker';
+import { UpcomingTransactions } from '@/components/dashboard/UpcomingTransactions';
+import { BudgetAlert } from '@/components/dashboard/BudgetAlert';
+import { TagReport } from '@/components/dashboard/TagReport';
+import { SplitReport } from '@/components/dashboard/SplitReport';
+import { useBudgetProgress } from '@/hooks/useBudgets';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
+import { useTags } from '@/hooks/useTags';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useMaterializeRecurring, useRecurringRules } from '@/hooks/useRecurringRules';
+import { getUpcomingOccurrences } from '@/lib/recurrence';
+import { computeTagTotals, withTagIds } from '@/lib/tags';
+import { computeSplitTotals } from '@/lib/splits';
+import { DEFAULT_CURRENCY, convertAmounts } from '@/lib/currency';
+import { computeStatusTotals } from '@/lib/status';
+import { getMonthPeriod, getPeriodMonth, getYearPeriod, toDateRange } from '@/lib/period';
+
+const UPCOMING_DAYS = 30;
 
 const months = [
   'Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun',
@@ -17,82 +36,148 @@ export default function Dashboard() {
   const [selectedMonth, setSelectedMonth] = useState(now.getMonth());
   const [selectedYear, setSelectedYear] = useState(now.getFullYear());
   const { selectedProfile } = useProfiles();
+  const { locale, monthStart } = useProfileSettings(selectedProfile?.id);
+  const { rules } = useRecurringRules(selectedProfile?.id);
+  const { progress: budgetProgress } = useBudgetProgress(selectedProfile?.id, selectedMonth, selectedYear);
+  const { tags } = useTags(selectedProfile?.id);
+  const baseCurrency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { converter } = useExchangeRates(selectedProfile?.id, baseCurrency);
+  useMaterializeRecurring(selectedProfile?.id);
 
-  // Fetch transactions for KPIs
-  const { data: kpiData } = useQuery({
-    queryKey: ['kpi', selectedProfile?.id, selectedMonth, selectedYear],
-    queryFn: async () => {
-      if (!selectedProfile) return { income: 0, expense: 0 };
+  // Open on the financial month that contains today
+  useEffect(() => {
+    const current = getPeriodMonth(new Date(), monthStart);
+    setSelectedMonth(current.month);
+    setSelectedYear(current.year);
+  }, [monthStart]);
+
+  const monthRange = toDateRange(getMonthPeriod(selectedMonth, selectedYear, monthStart));
+  const yearRange = toDateRange(getYearPeriod(selectedYear, monthStart));
 
-      const startDate = new Date(selectedYear, selectedMonth, 1);
-      const endDate = new Date(selectedYear, selectedMonth + 1, 0);
+  // Fetch transactions for KPIs; amounts are converted to the base currency below
+  const { data: kpiTransactions = [] } = useQuery({
+    queryKey: ['kpi', selectedProfile?.id, monthRange.start, monthRange.end],
+    queryFn: async () => {
+      if (!selectedProfile) return [];
 
       const { data, error } = await supabase
         .from('transactions')
-        .select('type, amount')
+        .select('type, amount, currency, status, transaction_date')
+        .is('deleted_at', null)
         .eq('profile_id', selectedProfile.id)
-        .gte('transaction_date', startDate.toISOString().split('T')[0])
-        .lte('transaction_date', endDate.toISOString().split('T')[0]);
+        .in('type', ['income', 'expense']) // transfers only move money between accounts
+        .gte('transaction_date', monthRange.start)
+        .lte('transaction_date', monthRange.end);
 
       if (error) throw error;
-
-      const income = data
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + Number(t.amount), 0);
-      
-      const expense = data
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + Number(t.amount), 0);
-
-      return { income, expense };
+      return data;
     },
     enabled: !!selectedProfile,
   });
 
   // Fetch annual data for chart
-  const { data: chartData = [] } = useQuery({
-    queryKey: ['chart', selectedProfile?.id, selectedYear],
+  const { data: chartTransactions = [] } = useQuery({
+    queryKey: ['chart', selectedProfile?.id, yearRange.start, yearRange.end],
     queryFn: async () => {
       if (!selectedProfile) return [];
 
-      const startDate = new Date(selectedYear, 0, 1);
-      const endDate = new Date(selectedYear, 11, 31);
-
       const { data, error } = await supabase
         .from('transactions')
-        .select('type, amount, transaction_date')
+        .select('type, amount, currency, transaction_date')
+        .is('deleted_at', null)
         .eq('profile_id', selectedProfile.id)
-        .gte('transaction_date', startDate.toISOString().split('T')[0])
-        .lte('transaction_date', endDate.toISOString().split('T')[0]);
+        .in('type', ['income', 'expense'])
+        .gte('transaction_date', yearRange.start)
+        .lte('transaction_date', yearRange.end);
 
       if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedProfile,
+  });
 
-      // Group by month
-      const monthlyData = months.map((month, index) => {
-        const monthTransactions = data.filter(t => {
-          const date = new Date(t.transaction_date);
-          return date.getMonth() === index;
-        });
+  // Fetch tagged transactions of the month for the per-tag report
+  const { data: taggedTransactions = [] } = useQuery({
+    queryKey: ['transactions', 'tags', selectedProfile?.id, monthRange.start, monthRange.end],
+    queryFn: async () => {
+      if (!selectedProfile) return [];
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('type, amount, currency, transaction_date, transaction_tags!inner(tag_id)')
+        .is('deleted_at', null)
+        .eq('profile_id', selectedProfile.id)
+        .in('type', ['income', 'expense'])
+        .gte('transaction_date', monthRange.start)
+        .lte('transaction_date', monthRange.end);
 
-        const receitas = monthTransactions
-          .filter(t => t.type === 'income')
-          .reduce((sum, t) => sum + Number(t.amount), 0);
+      if (error) throw error;
+      return withTagIds(data);
+    },
+    enabled: !!selectedProfile,
+  });
 
-        const despesas = monthTransactions
-          .filter(t => t.type === 'expense')
-          .reduce((sum, t) => sum + Number(t.amount), 0);
+  // Fetch the month's expenses with their split lines for the per-purpose report
+  const { data: splitExpenses = [] } = useQuery({
+    queryKey: ['transactions', 'splits', selectedProfile?.id, monthRange.start, monthRange.end],
+    queryFn: async () => {
+      if (!selectedProfile) return [];
 
-        return { month, receitas, despesas };
-      });
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('amount, currency, transaction_date, transaction_splits(label, amount, notes)')
+        .is('deleted_at', null)
+        .eq('profile_id', selectedProfile.id)
+        .eq('type', 'expense')
+        .gte('transaction_date', monthRange.start)
+        .lte('transaction_date', monthRange.end);
 
-      return monthlyData;
+      if (error) throw error;
+      return data;
     },
     enabled: !!selectedProfile,
   });
 
-  const income = kpiData?.income || 0;
-  const expense = kpiData?.expense || 0;
-  const balance = income - expense;
+  // Realized values count cleared and reconciled entries; projected ones also count planned entries
+  const kpi = convertAmounts(kpiTransactions, converter);
+  const income = computeStatusTotals(kpi.rows.filter(t => t.type === 'income'));
+  const expense = computeStatusTotals(kpi.rows.filter(t => t.type === 'expense'));
+  const balance = {
+    realized: income.realized - expense.realized,
+    projected: income.projected - expense.projected,
+  };
+
+  // Group by financial month
+  const chart = convertAmounts(chartTransactions, converter);
+  const chartData = months.map((month, index) => {
+    const monthTransactions = chart.rows.filter(
+      t => getPeriodMonth(parseISO(t.transaction_date), monthStart).month === index
+    );
+
+    const receitas = monthTransactions
+      .filter(t => t.type === 'income')
+      .reduce((sum, t) => sum + Number(t.amount), 0);
+
+    const despesas = monthTransactions
+      .filter(t => t.type === 'expense')
+      .reduce((sum, t) => sum + Number(t.amount), 0);
+
+    return { month, receitas, despesas };
+  });
+  const missingCurrencies = [...new Set([...kpi.missing, ...chart.missing])];
+
+  const upcoming = getUpcomingOccurrences(rules, UPCOMING_DAYS).slice(0, 8);
+  const tagTotals = computeTagTotals(convertAmounts(taggedTransactions, converter).rows, tags);
+  const hasSplits = splitExpenses.some(t => t.transaction_splits.length > 0);
+  // Split lines follow the conversion of their transaction
+  const splitTotals = hasSplits
+    ? computeSplitTotals(splitExpenses.flatMap(t => {
+        const amount = converter.convert(t.amount, t.currency, t.transaction_date);
+        if (amount === null) return [];
+        const rate = amount / Number(t.amount);
+        return [{ amount, transaction_splits: t.transaction_splits.map(s => ({ ...s, amount: Number(s.amount) * rate })) }];
+      }))
+    : [];
 
   if (!selectedProfile) {
     return (
@@ -127,35 +212,77 @@ export default function Dashboard() {
           selectedYear={selectedYear}
           onMonthChange={setSelectedMonth}
           onYearChange={setSelectedYear}
+          monthStart={monthStart}
         />
       </div>
 
+      <BudgetAlert progress={budgetProgress} currency={baseCurrency} />
+
+      {missingCurrencies.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Cotação não encontrada</AlertTitle>
+          <AlertDescription>
+            Lançamentos em {missingCurrencies.join(', ')} não entram nos totais por falta de cotação
+            para {baseCurrency}. Cadastre as cotações em Configurações.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 lg:gap-6 stagger-children">
         <KPICard
           title="Total Receitas"
-          value={income}
+          value={income.realized}
+          projected={income.projected}
           icon={<TrendingUp className="h-6 w-6" />}
           type="income"
+          currency={baseCurrency}
+          locale={locale}
         />
         <KPICard
           title="Total Despesas"
-          value={expense}
+          value={expense.realized}
+          projected={expense.projected}
           icon={<TrendingDown className="h-6 w-6" />}
           type="expense"
+          currency={baseCurrency}
+          locale={locale}
         />
         <KPICard
           title="Balanço Líquido"
-          value={balance}
+          value={balance.realized}
+          projected={balance.projected}
           icon={<Wallet className="h-6 w-6" />}
           type="balance"
+          currency={baseCurrency}
+          locale={locale}
         />
       </div>
 
       {/* Chart */}
       <div className="animate-slide-up" style={{ animationDelay: '200ms' }}>
-        <FinancialChart data={chartData} />
+        <FinancialChart data={chartData} currency={baseCurrency} locale={locale} />
+      </div>
+
+      {/* Upcoming recurring transactions */}
+      <div className="animate-slide-up" style={{ animationDelay: '250ms' }}>
+        <UpcomingTransactions occurrences={upcoming} days={UPCOMING_DAYS} currency={baseCurrency} />
       </div>
+
+      {/* Totals per tag */}
+      {tags.length > 0 && (
+        <div className="animate-slide-up" style={{ animationDelay: '300ms' }}>
+          <TagReport totals={tagTotals} currency={baseCurrency} />
+        </div>
+      )}
+
+      {/* Expenses per split purpose */}
+      {hasSplits && (
+        <div className="animate-slide-up" style={{ animationDelay: '350ms' }}>
+          <SplitReport totals={splitTotals} currency={baseCurrency} />
+        </div>
+      )}
     </div>
   );
 }
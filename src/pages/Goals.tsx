@@ -0,0 +1,388 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Plus, Edit2, Trash2, Target, ChevronDown, Link2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGoalContributions, useGoals } from '@/hooks/useGoals';
+import { GoalDialog, GoalFormData } from '@/components/goals/GoalDialog';
+import { ContributionDialog, ContributionFormData } from '@/components/goals/ContributionDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatMoney } from '@/lib/currency';
+import { DEFAULT_GOAL_COLOR, GOAL_AVERAGE_MONTHS, Goal, computeGoalProgress } from '@/lib/goals';
+import { cn } from '@/lib/utils';
+
+export default function Goals() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [contributingGoal, setContributingGoal] = useState<Goal | null>(null);
+  const [deleteGoalId, setDeleteGoalId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { goals, isLoading } = useGoals(selectedProfile?.id);
+  const { contributionsByGoal } = useGoalContributions(selectedProfile?.id);
+  const queryClient = useQueryClient();
+
+  const formatCurrency = (value: number) => formatMoney(value, selectedProfile?.base_currency);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: GoalFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const values = {
+        name: data.name.trim(),
+        target_amount: parseFloat(data.target_amount.replace(',', '.')),
+        target_date: format(data.target_date, 'yyyy-MM-dd'),
+        color: data.color,
+        notes: data.notes || null,
+      };
+
+      const { error } = editingGoal
+        ? await supabase
+            .from('goals')
+            .update(values)
+            .eq('id', editingGoal.id)
+        : await supabase
+            .from('goals')
+            .insert({
+              ...values,
+              profile_id: selectedProfile.id,
+              user_id: user.id,
+            });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      toast.success(editingGoal ? 'Meta atualizada com sucesso!' : 'Meta criada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar meta: ' + error.message);
+    },
+  });
+
+  // Linked transactions keep existing; they only lose the link to the goal
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('goals')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['goal_contributions'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast.success('Meta excluída com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir meta: ' + error.message);
+    },
+  });
+
+  const contributeMutation = useMutation({
+    mutationFn: async (data: ContributionFormData) => {
+      if (!selectedProfile || !user || !contributingGoal) throw new Error('Meta não encontrada');
+
+      const amount = parseFloat(data.amount.replace(',', '.'));
+      const { error } = await supabase
+        .from('goal_contributions')
+        .insert({
+          goal_id: contributingGoal.id,
+          profile_id: selectedProfile.id,
+          user_id: user.id,
+          amount: data.kind === 'withdrawal' ? -amount : amount,
+          contribution_date: format(data.contribution_date, 'yyyy-MM-dd'),
+          notes: data.notes || null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goal_contributions'] });
+      toast.success('Movimento registrado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao registrar movimento: ' + error.message);
+    },
+  });
+
+  const deleteContributionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('goal_contributions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goal_contributions'] });
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir movimento: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingGoal(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (goal: Goal) => {
+    setEditingGoal(goal);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteGoalId) {
+      deleteMutation.mutate(deleteGoalId);
+      setDeleteGoalId(null);
+    }
+  };
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver as metas.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Metas
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Objetivos de economia de {selectedProfile.name}
+          </p>
+        </div>
+        <Button onClick={handleOpenNew} className="gap-2 press-effect">
+          <Plus className="h-4 w-4" />
+          Nova Meta
+        </Button>
+      </div>
+
+      <div className="animate-slide-up" style={{ animationDelay: '100ms' }}>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : goals.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <Target className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <p className="text-lg font-medium text-foreground">Nenhuma meta cadastrada</p>
+            <p className="text-sm text-muted-foreground">Crie metas como reserva de emergência ou uma viagem</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
+            {goals.map((goal) => {
+              const contributions = contributionsByGoal.get(goal.id) ?? [];
+              const progress = computeGoalProgress(goal, contributions);
+              const targetDate = parseISO(goal.target_date);
+              const isLate = !progress.isCompleted && (
+                progress.monthsLeft === 0 || (progress.projectedDate !== null && progress.projectedDate > targetDate)
+              );
+
+              return (
+                <Card key={goal.id} className="card-finance">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <CardTitle className="font-display flex items-center gap-2">
+                          <span
+                            className="w-3 h-3 rounded-full shrink-0"
+                            style={{ backgroundColor: goal.color || DEFAULT_GOAL_COLOR }}
+                          />
+                          <span className="truncate">{goal.name}</span>
+                        </CardTitle>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {formatCurrency(Number(goal.target_amount))} até{' '}
+                          {format(targetDate, "MMM/yyyy", { locale: ptBR })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(goal)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteGoalId(goal.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-semibold text-foreground">{formatCurrency(progress.saved)}</span>
+                        <span className="text-muted-foreground">{Math.round(progress.percent)}%</span>
+                      </div>
+                      <Progress value={progress.percent} className={cn('h-2', progress.isCompleted && '[&>div]:bg-income')} />
+                    </div>
+
+                    {progress.isCompleted ? (
+                      <Badge className="bg-income-muted text-income hover:bg-income-muted">Meta atingida</Badge>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <p className="text-muted-foreground">Necessário por mês</p>
+                          <p className="font-semibold text-foreground">
+                            {formatCurrency(progress.requiredMonthly)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {progress.monthsLeft === 0
+                              ? 'Prazo encerrado'
+                              : `${progress.monthsLeft} ${progress.monthsLeft === 1 ? 'mês restante' : 'meses restantes'}`}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Previsão de conclusão</p>
+                          <p className={cn('font-semibold', isLate ? 'text-expense' : 'text-income')}>
+                            {progress.projectedDate
+                              ? format(progress.projectedDate, "MMM/yyyy", { locale: ptBR })
+                              : 'Sem aportes recentes'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Média de {formatCurrency(progress.monthlyAverage)}/mês nos últimos {GOAL_AVERAGE_MONTHS} meses
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    <Collapsible>
+                      <div className="flex items-center justify-between">
+                        <CollapsibleTrigger asChild>
+                          <Button variant="ghost" size="sm" className="gap-1 -ml-2 text-muted-foreground">
+                            Histórico ({contributions.length})
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                        </CollapsibleTrigger>
+                        <Button size="sm" variant="outline" onClick={() => setContributingGoal(goal)}>
+                          Registrar movimento
+                        </Button>
+                      </div>
+                      <CollapsibleContent>
+                        {contributions.length === 0 ? (
+                          <p className="text-sm text-muted-foreground py-2">Nenhum aporte ainda.</p>
+                        ) : (
+                          <div className="divide-y">
+                            {contributions.map((c) => (
+                              <div key={c.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                                <div className="flex items-center gap-3 min-w-0">
+                                  <span className="text-muted-foreground w-20 shrink-0">
+                                    {format(parseISO(c.date), 'dd/MM/yyyy')}
+                                  </span>
+                                  {c.source === 'transaction' && (
+                                    <Link2 className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                                  )}
+                                  <span className="truncate text-foreground">{c.description}</span>
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                  <span className={cn('font-semibold', c.amount < 0 ? 'text-expense' : 'text-income')}>
+                                    {c.amount < 0 ? '-' : '+'} {formatCurrency(Math.abs(c.amount))}
+                                  </span>
+                                  {c.source === 'manual' && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-7 w-7 text-destructive hover:text-destructive"
+                                      onClick={() => deleteContributionMutation.mutate(c.id)}
+                                    >
+                                      <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </CollapsibleContent>
+                    </Collapsible>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <GoalDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        goal={editingGoal}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <ContributionDialog
+        open={!!contributingGoal}
+        onOpenChange={(open) => !open && setContributingGoal(null)}
+        goal={contributingGoal}
+        onSubmit={async (data) => {
+          await contributeMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deleteGoalId} onOpenChange={() => setDeleteGoalId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir meta</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir esta meta? Os aportes manuais serão removidos e os lançamentos vinculados serão mantidos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,665 @@
+import { useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import {
+  Plus,
+  Edit2,
+  Trash2,
+  Upload,
+  LineChart,
+  Wallet,
+  Coins,
+  TrendingUp,
+  BadgeDollarSign,
+  AlertTriangle,
+  Link2,
+  ArrowLeftRight,
+  RefreshCw,
+} from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useInvestmentAssets, useInvestmentMovements, useInvestmentPrices } from '@/hooks/useInvestments';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { AssetDialog, AssetFormData } from '@/components/investments/AssetDialog';
+import { MovementDialog, MovementFormData } from '@/components/investments/MovementDialog';
+import { PriceDialog, PriceFormData } from '@/components/investments/PriceDialog';
+import { KPICard } from '@/components/dashboard/KPICard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  ASSET_CLASS_COLORS,
+  ASSET_CLASS_LABELS,
+  InvestmentAsset,
+  MOVEMENT_TYPE_LABELS,
+  computeAllocation,
+  computePortfolio,
+  computePortfolioTotals,
+  formatQuantity,
+  movementAmount,
+} from '@/lib/investments';
+import { InvestmentPriceData, parseInvestmentPricesCSV } from '@/lib/csv';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+const parseNumber = (val: string | undefined) => parseFloat((val || '').replace(',', '.'));
+
+export default function Investments() {
+  const [assetDialogOpen, setAssetDialogOpen] = useState(false);
+  const [editingAsset, setEditingAsset] = useState<InvestmentAsset | null>(null);
+  const [movementAsset, setMovementAsset] = useState<InvestmentAsset | null>(null);
+  const [priceAsset, setPriceAsset] = useState<InvestmentAsset | null>(null);
+  const [deleteAssetId, setDeleteAssetId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const baseCurrency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { assets, isLoading } = useInvestmentAssets(selectedProfile?.id);
+  const { movements } = useInvestmentMovements(selectedProfile?.id);
+  const { prices } = useInvestmentPrices(selectedProfile?.id);
+  const { converter } = useExchangeRates(selectedProfile?.id, baseCurrency);
+  const queryClient = useQueryClient();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const positions = useMemo(
+    () => computePortfolio(assets, movements, prices, converter, today),
+    [assets, movements, prices, converter, today]
+  );
+  const totals = computePortfolioTotals(positions);
+  const allocation = computeAllocation(positions);
+  const missingCurrencies = [...new Set(positions.filter(p => p.rate === null).map(p => p.asset.currency))];
+  const assetsById = new Map(assets.map(a => [a.id, a]));
+
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency);
+
+  const saveAssetMutation = useMutation({
+    mutationFn: async (data: AssetFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const values = {
+        name: data.name.trim(),
+        ticker: data.ticker?.trim() || null,
+        asset_class: data.asset_class,
+        currency: data.currency,
+        notes: data.notes || null,
+      };
+
+      const { error } = editingAsset
+        ? await supabase
+            .from('investment_assets')
+            .update(values)
+            .eq('id', editingAsset.id)
+        : await supabase
+            .from('investment_assets')
+            .insert({
+              ...values,
+              profile_id: selectedProfile.id,
+              user_id: user.id,
+            });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe um ativo com este código');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['investment_assets'] });
+      toast.success(editingAsset ? 'Ativo atualizado com sucesso!' : 'Ativo criado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar ativo: ' + error.message);
+    },
+  });
+
+  // Movements and prices go away with the asset; linked transactions are kept
+  const deleteAssetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('investment_assets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['investment_assets'] });
+      queryClient.invalidateQueries({ queryKey: ['investment_movements'] });
+      queryClient.invalidateQueries({ queryKey: ['investment_prices'] });
+      toast.success('Ativo excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir ativo: ' + error.message);
+    },
+  });
+
+  const addMovementMutation = useMutation({
+    mutationFn: async (data: MovementFormData) => {
+      if (!selectedProfile || !user || !movementAsset) throw new Error('Ativo não encontrado');
+
+      const isDividend = data.type === 'dividend';
+      const quantity = isDividend ? 0 : parseNumber(data.quantity);
+      const unitPrice = isDividend ? 0 : parseNumber(data.unit_price);
+      const fees = isDividend || !data.fees ? 0 : parseNumber(data.fees);
+      const amount = isDividend ? parseNumber(data.amount) : movementAmount(data.type, quantity, unitPrice, fees);
+
+      const { error } = await supabase
+        .from('investment_movements')
+        .insert({
+          asset_id: movementAsset.id,
+          profile_id: selectedProfile.id,
+          user_id: user.id,
+          type: data.type,
+          movement_date: format(data.movement_date, 'yyyy-MM-dd'),
+          quantity,
+          unit_price: unitPrice,
+          fees,
+          amount,
+          transaction_id: data.transaction_id || null,
+          notes: data.notes || null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['investment_movements'] });
+      toast.success('Movimento registrado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao registrar movimento: ' + error.message);
+    },
+  });
+
+  const deleteMovementMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('investment_movements')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['investment_movements'] });
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir movimento: ' + error.message);
+    },
+  });
+
+  // A price for the same asset and date replaces the stored one
+  const savePricesMutation = useMutation({
+    mutationFn: async (values: { asset_id: string; price: number; price_date: string }[]) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const { error } = await supabase
+        .from('investment_prices')
+        .upsert(
+          values.map(v => ({ ...v, profile_id: selectedProfile.id, user_id: user.id })),
+          { onConflict: 'asset_id,price_date' }
+        );
+
+      if (error) throw error;
+      return values.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['investment_prices'] });
+      toast.success(count === 1 ? 'Cotação salva com sucesso!' : `${count} cotações importadas com sucesso!`);
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar cotação: ' + error.message);
+    },
+  });
+
+  const handleSavePrice = async (data: PriceFormData) => {
+    if (!priceAsset) return;
+    await savePricesMutation.mutateAsync([{
+      asset_id: priceAsset.id,
+      price: parseNumber(data.price),
+      price_date: format(data.price_date, 'yyyy-MM-dd'),
+    }]);
+  };
+
+  // Prices are matched to assets by ticker; unknown tickers stop the import
+  const importPrices = (parsed: InvestmentPriceData[]) => {
+    const assetsByTicker = new Map(assets.filter(a => a.ticker).map(a => [a.ticker.toUpperCase(), a]));
+    const unknown = [...new Set(parsed.filter(p => !assetsByTicker.has(p.ticker)).map(p => p.ticker))];
+    if (unknown.length > 0) {
+      toast.error(`Ativos não cadastrados: ${unknown.join(', ')}`);
+      return;
+    }
+    savePricesMutation.mutate(parsed.map(p => ({
+      asset_id: assetsByTicker.get(p.ticker).id,
+      price: p.price,
+      price_date: p.price_date,
+    })));
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const { prices: parsed, errors } = parseInvestmentPricesCSV(e.target?.result as string);
+        if (errors.length > 0) {
+          const first = errors[0];
+          toast.error(`Linha ${first.row}: ${first.message}` + (errors.length > 1 ? ` (e mais ${errors.length - 1} erros)` : ''));
+          return;
+        }
+        if (parsed.length === 0) {
+          toast.error('Nenhuma cotação encontrada no arquivo');
+          return;
+        }
+        importPrices(parsed);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Erro ao processar o arquivo CSV');
+      }
+    };
+    reader.onerror = () => {
+      toast.error('Erro ao ler o arquivo');
+    };
+    reader.readAsText(file, 'UTF-8');
+  };
+
+  const handleOpenNew = () => {
+    setEditingAsset(null);
+    setAssetDialogOpen(true);
+  };
+
+  const handleEdit = (asset: InvestmentAsset) => {
+    setEditingAsset(asset);
+    setAssetDialogOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteAssetId) {
+      deleteAssetMutation.mutate(deleteAssetId);
+      setDeleteAssetId(null);
+    }
+  };
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver os investimentos.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Investimentos
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Carteira de {selectedProfile.name}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2 press-effect">
+            <Upload className="h-4 w-4" />
+            Importar cotações
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleFile} />
+          <Button onClick={handleOpenNew} className="gap-2 press-effect">
+            <Plus className="h-4 w-4" />
+            Novo Ativo
+          </Button>
+        </div>
+      </div>
+
+      {missingCurrencies.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Cotação não encontrada</AlertTitle>
+          <AlertDescription>
+            Ativos em {missingCurrencies.join(', ')} não entram nos totais por falta de cotação
+            para {baseCurrency}. Cadastre as cotações em Configurações.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 lg:gap-6 stagger-children">
+        <KPICard
+          title="Patrimônio"
+          value={totals.marketValue}
+          icon={<Wallet className="h-6 w-6" />}
+          type="balance"
+          currency={baseCurrency}
+        />
+        <KPICard
+          title="Custo"
+          value={totals.cost}
+          icon={<Coins className="h-6 w-6" />}
+          type="expense"
+          currency={baseCurrency}
+        />
+        <KPICard
+          title="Ganho não realizado"
+          value={totals.unrealizedGain}
+          icon={<TrendingUp className="h-6 w-6" />}
+          type="balance"
+          currency={baseCurrency}
+        />
+        <KPICard
+          title="Realizado + proventos"
+          value={totals.realizedGain + totals.dividends}
+          icon={<BadgeDollarSign className="h-6 w-6" />}
+          type="balance"
+          currency={baseCurrency}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 lg:gap-6 animate-slide-up" style={{ animationDelay: '100ms' }}>
+        {/* Positions */}
+        <Card className="card-finance xl:col-span-2">
+          <CardHeader>
+            <CardTitle className="font-display">Posições</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center h-40">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : assets.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-40 text-center">
+                <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                  <LineChart className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <p className="text-lg font-medium text-foreground">Nenhum ativo cadastrado</p>
+                <p className="text-sm text-muted-foreground">Cadastre CDBs, títulos do Tesouro, ações ou FIIs</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ativo</TableHead>
+                      <TableHead className="text-right">Quantidade</TableHead>
+                      <TableHead className="text-right">Preço médio</TableHead>
+                      <TableHead className="text-right">Cotação</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                      <TableHead className="text-right">Ganho</TableHead>
+                      <TableHead className="w-[150px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {positions.map(({ asset, position }) => {
+                      const gainPercent = position.cost > 0 ? (position.unrealizedGain / position.cost) * 100 : 0;
+                      return (
+                        <TableRow key={asset.id} className={cn(position.quantity === 0 && 'text-muted-foreground')}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span
+                                className="w-2.5 h-2.5 rounded-full shrink-0"
+                                style={{ backgroundColor: ASSET_CLASS_COLORS[asset.asset_class] }}
+                              />
+                              <div className="min-w-0">
+                                <p className="font-medium truncate">{asset.ticker || asset.name}</p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                  {asset.ticker ? `${asset.name} · ` : ''}{ASSET_CLASS_LABELS[asset.asset_class]}
+                                </p>
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{formatQuantity(position.quantity)}</TableCell>
+                          <TableCell className="text-right">
+                            {position.quantity > 0 ? formatMoney(position.averageCost, asset.currency) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {position.lastPrice !== null ? (
+                              <div>
+                                <p>{formatMoney(position.lastPrice, asset.currency)}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {format(parseISO(position.lastPriceDate), 'dd/MM/yyyy')}
+                                </p>
+                              </div>
+                            ) : (
+                              <Badge variant="outline" className="font-normal">Sem cotação</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatMoney(position.marketValue, asset.currency)}
+                          </TableCell>
+                          <TableCell className={cn(
+                            'text-right',
+                            position.unrealizedGain > 0 && 'text-income',
+                            position.unrealizedGain < 0 && 'text-expense'
+                          )}>
+                            <p>{formatMoney(position.unrealizedGain, asset.currency)}</p>
+                            {position.cost > 0 && (
+                              <p className="text-xs">{gainPercent.toFixed(1).replace('.', ',')}%</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Registrar movimento"
+                                onClick={() => setMovementAsset(asset)}
+                              >
+                                <ArrowLeftRight className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Atualizar cotação"
+                                onClick={() => setPriceAsset(asset)}
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(asset)}>
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-destructive hover:text-destructive"
+                                onClick={() => setDeleteAssetId(asset.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Allocation */}
+        <Card className="card-finance">
+          <CardHeader>
+            <CardTitle className="font-display">Alocação por classe</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {allocation.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Registre compras para ver a alocação da carteira.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="h-[200px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={allocation}
+                        dataKey="value"
+                        nameKey="label"
+                        innerRadius={50}
+                        outerRadius={80}
+                        paddingAngle={2}
+                      >
+                        {allocation.map((slice) => (
+                          <Cell key={slice.assetClass} fill={ASSET_CLASS_COLORS[slice.assetClass]} />
+                        ))}
+                      </Pie>
+                      <Tooltip
+                        formatter={(value: number) => formatCurrency(value)}
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '0.5rem',
+                        }}
+                      />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="space-y-2">
+                  {allocation.map((slice) => (
+                    <div key={slice.assetClass} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span
+                          className="w-2.5 h-2.5 rounded-full shrink-0"
+                          style={{ backgroundColor: ASSET_CLASS_COLORS[slice.assetClass] }}
+                        />
+                        <span className="truncate">{slice.label}</span>
+                      </div>
+                      <span className="text-muted-foreground shrink-0">
+                        {formatCurrency(slice.value)} · {slice.percent.toFixed(1).replace('.', ',')}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Movements */}
+      {movements.length > 0 && (
+        <Card className="card-finance animate-slide-up" style={{ animationDelay: '150ms' }}>
+          <CardHeader>
+            <CardTitle className="font-display">Movimentações</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {movements.map((m) => {
+                const asset = assetsById.get(m.asset_id);
+                return (
+                  <div key={m.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-muted-foreground w-20 shrink-0">
+                        {format(parseISO(m.movement_date), 'dd/MM/yyyy')}
+                      </span>
+                      <Badge variant="outline" className="font-normal shrink-0">{MOVEMENT_TYPE_LABELS[m.type]}</Badge>
+                      {m.transaction_id && (
+                        <Link2 className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                      )}
+                      <span className="truncate text-foreground">
+                        {asset?.ticker || asset?.name}
+                        {m.type !== 'dividend' && ` · ${formatQuantity(Number(m.quantity))} × ${formatMoney(Number(m.unit_price), asset?.currency)}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <span className={cn('font-semibold', m.type === 'buy' ? 'text-expense' : 'text-income')}>
+                        {m.type === 'buy' ? '-' : '+'} {formatMoney(Number(m.amount), asset?.currency)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => deleteMovementMutation.mutate(m.id)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AssetDialog
+        open={assetDialogOpen}
+        onOpenChange={setAssetDialogOpen}
+        asset={editingAsset}
+        defaultCurrency={baseCurrency}
+        onSubmit={async (data) => {
+          await saveAssetMutation.mutateAsync(data);
+        }}
+      />
+
+      <MovementDialog
+        open={!!movementAsset}
+        onOpenChange={(open) => !open && setMovementAsset(null)}
+        asset={movementAsset}
+        profileId={selectedProfile.id}
+        onSubmit={async (data) => {
+          await addMovementMutation.mutateAsync(data);
+        }}
+      />
+
+      <PriceDialog
+        open={!!priceAsset}
+        onOpenChange={(open) => !open && setPriceAsset(null)}
+        asset={priceAsset}
+        onSubmit={handleSavePrice}
+      />
+
+      <AlertDialog open={!!deleteAssetId} onOpenChange={() => setDeleteAssetId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir ativo</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir este ativo? Os movimentos e cotações serão removidos e os lançamentos vinculados serão mantidos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Plus, Edit2, Trash2, Landmark, ChevronDown, Check, Undo2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLoanInstallments, useLoans } from '@/hooks/useLoans';
+import { LoanDialog, LoanFormData } from '@/components/loans/LoanDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  AMORTIZATION_SYSTEM_LABELS,
+  Loan,
+  RATE_PERIOD_LABELS,
+  buildAmortizationSchedule,
+  buildLoanInstallments,
+  computeLoanProgress,
+  getInstallmentSplits,
+} from '@/lib/loans';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { isRealized } from '@/lib/status';
+import { cn } from '@/lib/utils';
+
+export default function Loans() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLoan, setEditingLoan] = useState<Loan | null>(null);
+  const [deleteLoanId, setDeleteLoanId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { loans, isLoading } = useLoans(selectedProfile?.id);
+  const { installmentsByLoan } = useLoanInstallments(selectedProfile?.id);
+  const queryClient = useQueryClient();
+  const currency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['loans'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['kpi'] });
+    queryClient.invalidateQueries({ queryKey: ['chart'] });
+  };
+
+  // Creating a loan generates one expense per installment, split into interest and principal
+  const saveMutation = useMutation({
+    mutationFn: async (data: LoanFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const values = {
+        name: data.name.trim(),
+        account_id: data.account_id || null,
+        category_id: data.category_id || null,
+        notes: data.notes || null,
+      };
+
+      if (editingLoan) {
+        const { error } = await supabase
+          .from('loans')
+          .update(values)
+          .eq('id', editingLoan.id);
+
+        if (error) throw error;
+
+        // Installments still to be paid follow the new account and category
+        const { error: installmentsError } = await supabase
+          .from('transactions')
+          .update({ account_id: values.account_id, category_id: values.category_id })
+          .eq('loan_id', editingLoan.id)
+          .eq('status', 'planned');
+
+        if (installmentsError) throw installmentsError;
+        return;
+      }
+
+      const loan = {
+        ...values,
+        profile_id: selectedProfile.id,
+        user_id: user.id,
+        principal: parseFloat(data.principal.replace(',', '.')),
+        interest_rate: parseFloat(data.interest_rate.replace(',', '.')),
+        rate_period: data.rate_period,
+        term_months: Number(data.term_months),
+        amortization_system: data.amortization_system,
+        first_due_date: format(data.first_due_date, 'yyyy-MM-dd'),
+      };
+
+      // The loan, its installments and their splits are created together or not at all
+      const schedule = buildAmortizationSchedule(loan);
+      const installments = buildLoanInstallments({ payment_method: 'boleto' as const }, loan, schedule, data.mark_past_paid)
+        .map((installment, i) => ({ ...installment, splits: getInstallmentSplits(schedule[i]) }));
+
+      const { error } = await supabase.rpc('create_loan', { _loan: loan, _installments: installments });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success(editingLoan ? 'Financiamento atualizado com sucesso!' : 'Financiamento criado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar financiamento: ' + error.message);
+    },
+  });
+
+  // Installments still to be paid go to the trash; paid ones stay as expenses
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: installmentsError } = await supabase
+        .from('transactions')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('loan_id', id)
+        .eq('status', 'planned')
+        .is('deleted_at', null);
+
+      if (installmentsError) throw installmentsError;
+
+      const { error } = await supabase
+        .from('loans')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Financiamento excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir financiamento: ' + error.message);
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async ({ id, paid }: { id: string; paid: boolean }) => {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ status: paid ? 'cleared' : 'planned' })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error('Erro ao registrar pagamento: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingLoan(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (loan: Loan) => {
+    setEditingLoan(loan);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteLoanId) {
+      deleteMutation.mutate(deleteLoanId);
+      setDeleteLoanId(null);
+    }
+  };
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver os financiamentos.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Financiamentos
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Empréstimos e financiamentos de {selectedProfile.name}
+          </p>
+        </div>
+        <Button onClick={handleOpenNew} className="gap-2 press-effect">
+          <Plus className="h-4 w-4" />
+          Novo Financiamento
+        </Button>
+      </div>
+
+      <div className="animate-slide-up" style={{ animationDelay: '100ms' }}>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : loans.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <Landmark className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <p className="text-lg font-medium text-foreground">Nenhum financiamento cadastrado</p>
+            <p className="text-sm text-muted-foreground">Cadastre o financiamento do carro ou do imóvel para acompanhar o saldo devedor</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
+            {loans.map((loan) => {
+              const schedule = buildAmortizationSchedule(loan);
+              const installments = installmentsByLoan.get(loan.id) ?? [];
+              const progress = computeLoanProgress(loan, schedule, installments);
+              const installmentByNumber = new Map(installments.map(t => [t.loan_installment, t]));
+              const isPaidOff = progress.outstanding <= 0;
+
+              return (
+                <Card key={loan.id} className="card-finance">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <CardTitle className="font-display flex items-center gap-2">
+                          <span className="truncate">{loan.name}</span>
+                          <Badge variant="outline" className="font-normal shrink-0">
+                            {AMORTIZATION_SYSTEM_LABELS[loan.amortization_system]}
+                          </Badge>
+                        </CardTitle>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {formatCurrency(Number(loan.principal))} em {loan.term_months}x ·{' '}
+                          {Number(loan.interest_rate).toLocaleString('pt-BR', { maximumFractionDigits: 4 })}
+                          {RATE_PERIOD_LABELS[loan.rate_period]}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(loan)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteLoanId(loan.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {progress.paidCount} de {loan.term_months} parcelas pagas
+                        </span>
+                        <span className="text-muted-foreground">{Math.round(progress.percent)}%</span>
+                      </div>
+                      <Progress value={progress.percent} className={cn('h-2', isPaidOff && '[&>div]:bg-income')} />
+                    </div>
+
+                    {isPaidOff ? (
+                      <Badge className="bg-income-muted text-income hover:bg-income-muted">Quitado</Badge>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <p className="text-muted-foreground">Saldo devedor</p>
+                          <p className="font-semibold text-expense">{formatCurrency(progress.outstanding)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Juros restantes: {formatCurrency(progress.interestRemaining)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Próxima parcela</p>
+                          {progress.nextInstallment && (
+                            <>
+                              <p className="font-semibold text-foreground">
+                                {formatCurrency(progress.nextInstallment.payment)}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {progress.nextInstallment.number}/{loan.term_months} ·{' '}
+                                {format(parseISO(progress.nextInstallment.dueDate), "dd 'de' MMM/yyyy", { locale: ptBR })}
+                              </p>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      Pago até agora: {formatCurrency(progress.principalPaid)} de amortização e{' '}
+                      {formatCurrency(progress.interestPaid)} de juros
+                    </p>
+
+                    <Collapsible>
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" className="gap-1 -ml-2 text-muted-foreground">
+                          Tabela de amortização
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <ScrollArea className="h-[320px] rounded-lg border">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Nº</TableHead>
+                                <TableHead>Vencimento</TableHead>
+                                <TableHead className="text-right">Parcela</TableHead>
+                                <TableHead className="text-right">Juros</TableHead>
+                                <TableHead className="text-right">Amortização</TableHead>
+                                <TableHead className="text-right">Saldo</TableHead>
+                                <TableHead className="w-[48px]"></TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {schedule.map((row) => {
+                                const transaction = installmentByNumber.get(row.number);
+                                const isPaid = !!transaction && isRealized(transaction.status);
+                                return (
+                                  <TableRow key={row.number} className={cn(isPaid && 'text-muted-foreground')}>
+                                    <TableCell>{row.number}</TableCell>
+                                    <TableCell>{format(parseISO(row.dueDate), 'dd/MM/yyyy')}</TableCell>
+                                    <TableCell className="text-right font-medium">{formatCurrency(row.payment)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(row.interest)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(row.amortization)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(row.balance)}</TableCell>
+                                    <TableCell>
+                                      {transaction && (
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className={cn('h-7 w-7', isPaid && 'text-income')}
+                                          title={isPaid ? 'Desfazer pagamento' : 'Registrar pagamento'}
+                                          onClick={() => payMutation.mutate({ id: transaction.id, paid: !isPaid })}
+                                          disabled={payMutation.isPending}
+                                        >
+                                          {isPaid ? <Undo2 className="h-3.5 w-3.5" /> : <Check className="h-3.5 w-3.5" />}
+                                        </Button>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                );
+                              })}
+                            </TableBody>
+                          </Table>
+                        </ScrollArea>
+                      </CollapsibleContent>
+                    </Collapsible>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <LoanDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        loan={editingLoan}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deleteLoanId} onOpenChange={() => setDeleteLoanId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir financiamento</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir este financiamento? As parcelas previstas serão removidas e as parcelas pagas serão mantidas como despesas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { DateRange } from 'react-day-picker';
+import { Plus, Edit2, Trash2, Store, CalendarIcon, AlertTriangle } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePayees } from '@/hooks/usePayees';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { PayeeDialog, PayeeFormData } from '@/components/payees/PayeeDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { NO_PAYEE_LABEL, Payee, computePayeeTotals } from '@/lib/payees';
+import { DEFAULT_CURRENCY, convertAmounts, formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+export default function Payees() {
+  const now = new Date();
+  const [period, setPeriod] = useState<DateRange | undefined>({ from: startOfMonth(now), to: endOfMonth(now) });
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPayee, setEditingPayee] = useState<Payee | null>(null);
+  const [deletePayeeId, setDeletePayeeId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { payees, isLoading } = usePayees(selectedProfile?.id);
+  const queryClient = useQueryClient();
+  const baseCurrency = selectedProfile?.base_currency || DEFAULT_CURRENCY;
+  const { converter } = useExchangeRates(selectedProfile?.id, baseCurrency);
+
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency);
+  const from = period?.from ? format(period.from, 'yyyy-MM-dd') : null;
+  const to = period?.to ? format(period.to, 'yyyy-MM-dd') : from;
+
+  // Realized expenses of the period; planned ones have not been spent yet
+  const { data: expenses = [] } = useQuery({
+    queryKey: ['transactions', 'payees', selectedProfile?.id, from, to],
+    queryFn: async () => {
+      if (!selectedProfile) return [];
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('payee_id, amount, currency, transaction_date')
+        .is('deleted_at', null)
+        .eq('profile_id', selectedProfile.id)
+        .eq('type', 'expense')
+        .neq('status', 'planned')
+        .gte('transaction_date', from)
+        .lte('transaction_date', to);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedProfile && !!from,
+  });
+
+  const converted = convertAmounts(expenses, converter);
+  const totals = computePayeeTotals(converted.rows, payees);
+  const total = totals.reduce((sum, t) => sum + t.amount, 0);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['payees'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+  };
+
+  // Transactions still without a payee are matched again against the new names and aliases
+  const relink = async () => {
+    const { data: linked, error } = await supabase.rpc('relink_payees', { _profile_id: selectedProfile.id });
+    if (error) throw error;
+    return linked;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PayeeFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const values = { name: data.name.trim(), aliases: data.aliases };
+
+      const { error } = editingPayee
+        ? await supabase.from('payees').update(values).eq('id', editingPayee.id)
+        : await supabase.from('payees').insert({ ...values, profile_id: selectedProfile.id, user_id: user.id });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe um favorecido com esse nome');
+        throw error;
+      }
+
+      return relink();
+    },
+    onSuccess: (linked) => {
+      invalidate();
+      toast.success(editingPayee ? 'Favorecido atualizado com sucesso!' : 'Favorecido criado com sucesso!');
+      if (linked > 0) toast.info(`${linked} lançamento(s) vinculado(s) ao favorecido`);
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar favorecido: ' + error.message);
+    },
+  });
+
+  // Linked transactions lose their payee and may be matched by another one
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('payees')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await relink();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Favorecido excluído com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir favorecido: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingPayee(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (payee: Payee) => {
+    setEditingPayee(payee);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deletePayeeId) {
+      deleteMutation.mutate(deletePayeeId);
+      setDeletePayeeId(null);
+    }
+  };
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver os favorecidos.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Favorecidos
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Estabelecimentos e pessoas de {selectedProfile.name}
+          </p>
+        </div>
+        <Button onClick={handleOpenNew} className="gap-2 press-effect">
+          <Plus className="h-4 w-4" />
+          Novo Favorecido
+        </Button>
+      </div>
+
+      {converted.missing.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Cotação não encontrada</AlertTitle>
+          <AlertDescription>
+            Lançamentos em {converted.missing.join(', ')} não entram nos totais por falta de cotação
+            para {baseCurrency}. Cadastre as cotações em Configurações.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="card-finance animate-slide-up" style={{ animationDelay: '100ms' }}>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="font-display">Gastos por Favorecido</CardTitle>
+            <CardDescription>Despesas realizadas no período agrupadas por favorecido</CardDescription>
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn('justify-start text-left font-normal gap-2', !period?.from && 'text-muted-foreground')}
+              >
+                <CalendarIcon className="h-4 w-4 opacity-50" />
+                {period?.from
+                  ? `${format(period.from, 'dd/MM/yyyy')} – ${format(period.to ?? period.from, 'dd/MM/yyyy')}`
+                  : 'Selecionar período'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={period}
+                onSelect={setPeriod}
+                numberOfMonths={2}
+                locale={ptBR}
+                initialFocus
+                className="pointer-events-auto"
+              />
+            </PopoverContent>
+          </Popover>
+        </CardHeader>
+        <CardContent>
+          {totals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma despesa realizada neste período.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Favorecido</TableHead>
+                  <TableHead className="text-right">Lançamentos</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">%</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {totals.map(({ payee, amount, count }) => (
+                  <TableRow key={payee?.id ?? 'none'}>
+                    <TableCell className={cn(!payee && 'text-muted-foreground italic')}>
+                      {payee?.name ?? NO_PAYEE_LABEL}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">{count}</TableCell>
+                    <TableCell className="text-right text-expense font-medium">{formatCurrency(amount)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {total > 0 ? `${Math.round((amount / total) * 100)}%` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card-finance animate-slide-up" style={{ animationDelay: '200ms' }}>
+        <CardHeader>
+          <CardTitle className="font-display">Cadastro</CardTitle>
+          <CardDescription>
+            Novos lançamentos são vinculados automaticamente quando a descrição contém o nome ou um dos padrões
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : payees.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-48 text-center">
+              <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                <Store className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-lg font-medium text-foreground">Nenhum favorecido cadastrado</p>
+              <p className="text-sm text-muted-foreground">Cadastre favorecidos para organizar descrições como "PAG*IFOOD SAO PAULO"</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Padrões</TableHead>
+                  <TableHead className="w-[100px]">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payees.map((payee) => (
+                  <TableRow key={payee.id}>
+                    <TableCell className="font-medium">{payee.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {payee.aliases.map((alias) => (
+                          <Badge key={alias} variant="outline" className="font-mono font-normal">
+                            {alias}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(payee)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeletePayeeId(payee.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PayeeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        payee={editingPayee}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deletePayeeId} onOpenChange={() => setDeletePayeeId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir favorecido</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir este favorecido? Os lançamentos vinculados são mantidos e podem ser vinculados a outro favorecido.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
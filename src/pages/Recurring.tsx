@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Edit2, Trash2, Repeat } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMaterializeRecurring, useRecurringRules } from '@/hooks/useRecurringRules';
+import { useAccounts } from '@/hooks/useAccounts';
+import { RecurringRuleDialog, RecurringRuleFormData } from '@/components/recurring/RecurringRuleDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatMoney } from '@/lib/currency';
+import { RecurringRule, describeRecurrence, getNextOccurrence } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+
+export default function Recurring() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null);
+  const [deleteRuleId, setDeleteRuleId] = useState<string | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { rules, isLoading } = useRecurringRules(selectedProfile?.id);
+  const { accountsById } = useAccounts(selectedProfile?.id);
+  const queryClient = useQueryClient();
+  useMaterializeRecurring(selectedProfile?.id);
+
+  const formatCurrency = (value: number) => formatMoney(value, selectedProfile?.base_currency);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RecurringRuleFormData) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      const usesDayOfMonth = data.frequency === 'monthly' || data.frequency === 'yearly';
+      const values = {
+        type: data.type,
+        description: data.description,
+        amount: parseFloat(data.amount.replace(',', '.')),
+        account_id: data.account_id || null,
+        category_id: data.category_id || null,
+        payment_method: data.payment_method,
+        notes: data.notes || null,
+        frequency: data.frequency,
+        interval: Number(data.interval) || 1,
+        day_of_month: usesDayOfMonth && data.day_of_month ? Number(data.day_of_month) : null,
+        start_date: format(data.start_date, 'yyyy-MM-dd'),
+        end_date: data.end_mode === 'date' && data.end_date ? format(data.end_date, 'yyyy-MM-dd') : null,
+        occurrence_count: data.end_mode === 'count' ? Number(data.occurrence_count) : null,
+        is_active: data.is_active,
+      };
+
+      const { error } = editingRule
+        ? await supabase
+            .from('recurring_rules')
+            .update(values)
+            .eq('id', editingRule.id)
+        : await supabase
+            .from('recurring_rules')
+            .insert({
+              ...values,
+              profile_id: selectedProfile.id,
+              user_id: user.id,
+            });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_rules'] });
+      toast.success(editingRule ? 'Recorrência atualizada com sucesso!' : 'Recorrência criada com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar recorrência: ' + error.message);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase
+        .from('recurring_rules')
+        .update({ is_active })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_rules'] });
+    },
+    onError: (error) => {
+      toast.error('Erro ao atualizar recorrência: ' + error.message);
+    },
+  });
+
+  // Transactions already generated are kept; they just lose the link to the rule
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('recurring_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_rules'] });
+      toast.success('Recorrência excluída com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir recorrência: ' + error.message);
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingRule(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (rule: RecurringRule) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (deleteRuleId) {
+      deleteMutation.mutate(deleteRuleId);
+      setDeleteRuleId(null);
+    }
+  };
+
+  if (!selectedProfile) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        <h2 className="text-2xl font-display font-bold text-foreground mb-2">
+          Nenhum perfil selecionado
+        </h2>
+        <p className="text-muted-foreground">
+          Selecione um perfil no menu lateral para ver as recorrências.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Recorrências
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Lançamentos que se repetem em {selectedProfile.name}, gerados automaticamente na data
+          </p>
+        </div>
+        <Button onClick={handleOpenNew} className="gap-2 press-effect">
+          <Plus className="h-4 w-4" />
+          Nova Recorrência
+        </Button>
+      </div>
+
+      <div className="animate-slide-up" style={{ animationDelay: '100ms' }}>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <Repeat className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <p className="text-lg font-medium text-foreground">Nenhuma recorrência cadastrada</p>
+            <p className="text-sm text-muted-foreground">Cadastre aluguel, salário e assinaturas para lançá-los automaticamente</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border bg-card overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="font-semibold">Descrição</TableHead>
+                  <TableHead className="font-semibold">Valor</TableHead>
+                  <TableHead className="font-semibold">Repetição</TableHead>
+                  <TableHead className="font-semibold">Conta</TableHead>
+                  <TableHead className="font-semibold">Próxima</TableHead>
+                  <TableHead className="font-semibold">Ativa</TableHead>
+                  <TableHead className="font-semibold w-[100px]">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => {
+                  const next = rule.is_active ? getNextOccurrence(rule) : undefined;
+                  const account = rule.account_id ? accountsById.get(rule.account_id) : undefined;
+                  return (
+                    <TableRow key={rule.id} className={cn('hover:bg-muted/30', !rule.is_active && 'opacity-60')}>
+                      <TableCell className="font-medium">{rule.description}</TableCell>
+                      <TableCell>
+                        <span className={cn('font-semibold', rule.type === 'income' ? 'text-income' : 'text-expense')}>
+                          {rule.type === 'income' ? '+' : '-'} {formatCurrency(Number(rule.amount))}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm">{describeRecurrence(rule)}</TableCell>
+                      <TableCell>
+                        {account ? (
+                          <Badge variant="secondary" className="font-medium">{account.name}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {next ? format(parseISO(next.date), 'dd/MM/yyyy') : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.is_active}
+                          onCheckedChange={(checked) => toggleMutation.mutate({ id: rule.id, is_active: checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(rule)}>
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => setDeleteRuleId(rule.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <RecurringRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rule={editingRule}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+      />
+
+      <AlertDialog open={!!deleteRuleId} onOpenChange={() => setDeleteRuleId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir recorrência</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir esta recorrência? Os lançamentos já gerados serão mantidos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Download, Upload, Edit2, Trash2, Plus } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Download, Upload, Edit2, Trash2, Plus, Merge, Archive, ArchiveRestore } from 'lucide-react';
 import { useProfiles, Profile } from '@/contexts/ProfileContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,6 +8,15 @@ import { Separator } from '@/components/ui/separator';
 import { ProfileForm } from '@/components/settings/ProfileForm';
 import { ExportCSVDialog } from '@/components/settings/ExportCSVDialog';
 import { ImportCSVDialog } from '@/components/settings/ImportCSVDialog';
+import { MergeProfilesDialog } from '@/components/settings/MergeProfilesDialog';
+import { AccountsManager } from '@/components/settings/AccountsManager';
+import { CategoriesManager } from '@/components/settings/CategoriesManager';
+import { ExchangeRatesManager } from '@/components/settings/ExchangeRatesManager';
+import { ProfileMembersManager } from '@/components/settings/ProfileMembersManager';
+import { ProfileSettingsManager } from '@/components/settings/ProfileSettingsManager';
+import { ReceivedInvitations } from '@/components/settings/ReceivedInvitations';
+import { Badge } from '@/components/ui/badge';
+import { PROFILE_ROLE_LABELS } from '@/lib/members';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,18 +29,19 @@ import {
 } from '@/components/ui/alert-dialog';
 
 export default function Settings() {
-  const { profiles, createProfile, updateProfile, deleteProfile } = useProfiles();
+  const { profiles, archivedProfiles, createProfile, updateProfile, deleteProfile, archiveProfile } = useProfiles();
   const [formOpen, setFormOpen] = useState(false);
   const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
   const [deleteProfileId, setDeleteProfileId] = useState<string | null>(null);
   const [exportOpen, setExportOpen] = useState(false);
   const [importOpen, setImportOpen] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
 
-  const handleCreateProfile = async (data: { name: string; description?: string; color?: string }) => {
+  const handleCreateProfile = async (data: { name: string; description?: string; color?: string; base_currency?: string }) => {
     await createProfile(data);
   };
 
-  const handleUpdateProfile = async (data: { name?: string; description?: string; color?: string }) => {
+  const handleUpdateProfile = async (data: { name?: string; description?: string; color?: string; base_currency?: string }) => {
     if (editingProfile) {
       await updateProfile(editingProfile.id, data);
     }
@@ -73,6 +84,9 @@ export default function Settings() {
         </p>
       </div>
 
+      {/* Invitations to profiles shared with the user */}
+      <ReceivedInvitations />
+
       {/* CSV Management */}
       <Card className="card-finance animate-slide-up" style={{ animationDelay: '50ms' }}>
         <CardHeader>
@@ -106,10 +120,18 @@ export default function Settings() {
               Gerencie os perfis de pessoas ou clientes cujas finanças você administra
             </CardDescription>
           </div>
-          <Button onClick={handleOpenNew} className="gap-2 press-effect">
-            <Plus className="h-4 w-4" />
-            Novo Perfil
-          </Button>
+          <div className="flex items-center gap-2">
+            {profiles.length > 1 && (
+              <Button variant="outline" onClick={() => setMergeOpen(true)} className="gap-2 press-effect">
+                <Merge className="h-4 w-4" />
+                Mesclar
+              </Button>
+            )}
+            <Button onClick={handleOpenNew} className="gap-2 press-effect">
+              <Plus className="h-4 w-4" />
+              Novo Perfil
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {profiles.length === 0 ? (
@@ -133,7 +155,14 @@ export default function Settings() {
                       {profile.name.charAt(0).toUpperCase()}
                     </div>
                     <div>
-                      <p className="font-medium text-foreground">{profile.name}</p>
+                      <p className="font-medium text-foreground">
+                        {profile.name}
+                        {profile.role !== 'owner' && (
+                          <Badge variant="secondary" className="font-normal ml-2">
+                            Compartilhado · {PROFILE_ROLE_LABELS[profile.role]}
+                          </Badge>
+                        )}
+                      </p>
                       {profile.description && (
                         <p className="text-sm text-muted-foreground truncate max-w-[300px]">
                           {profile.description}
@@ -141,24 +170,35 @@ export default function Settings() {
                       )}
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleEdit(profile)}
-                      className="transition-colors duration-200"
-                    >
-                      <Edit2 className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-destructive hover:text-destructive transition-colors duration-200"
-                      onClick={() => setDeleteProfileId(profile.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {profile.role === 'owner' && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleEdit(profile)}
+                        className="transition-colors duration-200"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Arquivar"
+                        onClick={() => archiveProfile(profile.id, true)}
+                        className="transition-colors duration-200"
+                      >
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive transition-colors duration-200"
+                        onClick={() => setDeleteProfileId(profile.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -166,6 +206,64 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Archived profiles */}
+      {archivedProfiles.length > 0 && (
+        <Card className="card-finance animate-slide-up" style={{ animationDelay: '110ms' }}>
+          <CardHeader>
+            <CardTitle className="font-display">Perfis arquivados</CardTitle>
+            <CardDescription>
+              Ficam fora do seletor de perfis, mas os dados continuam disponíveis na exportação
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {archivedProfiles.map((profile) => (
+              <div key={profile.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-dashed">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div
+                    className="w-8 h-8 rounded-lg flex items-center justify-center text-white text-sm font-semibold opacity-60"
+                    style={{ backgroundColor: profile.color }}
+                  >
+                    {profile.name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{profile.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Arquivado em {format(parseISO(profile.archived_at), 'dd/MM/yyyy')}
+                    </p>
+                  </div>
+                </div>
+                {profile.role === 'owner' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => archiveProfile(profile.id, false)}
+                  >
+                    <ArchiveRestore className="h-4 w-4" />
+                    Desarquivar
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preferences of the selected profile */}
+      <ProfileSettingsManager />
+
+      {/* Members of the selected profile */}
+      <ProfileMembersManager />
+
+      {/* Account Management */}
+      <AccountsManager />
+
+      {/* Category Management */}
+      <CategoriesManager />
+
+      {/* Exchange Rates */}
+      <ExchangeRatesManager />
+
       {/* Profile Form Dialog */}
       <ProfileForm
         open={formOpen}
@@ -180,8 +278,8 @@ export default function Settings() {
           <AlertDialogHeader>
             <AlertDialogTitle>Excluir perfil</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir este perfil? Todos os lançamentos associados 
-              também serão excluídos. Esta ação não pode ser desfeita.
+              O perfil e todos os seus lançamentos serão movidos para a lixeira. Você pode
+              restaurá-los na Lixeira até que sejam excluídos definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -199,6 +297,9 @@ export default function Settings() {
       {/* CSV Dialogs */}
       <ExportCSVDialog open={exportOpen} onOpenChange={setExportOpen} />
       <ImportCSVDialog open={importOpen} onOpenChange={setImportOpen} />
+
+      {/* Merge Dialog */}
+      <MergeProfilesDialog open={mergeOpen} onOpenChange={setMergeOpen} />
     </div>
   );
 }
@@ -1,5 +1,7 @@
-import { useState } from 'react';
-import { Plus, TrendingUp, TrendingDown } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, TrendingUp, TrendingDown, ArrowRightLeft, Copy, FolderInput, X } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
@@ -8,79 +10,222 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TransactionsTable } from '@/components/transactions/TransactionsTable';
-import { TransactionDialog } from '@/components/transactions/TransactionDialog';
+import { TransactionDialog, TransactionFormData } from '@/components/transactions/TransactionDialog';
+import { TagFilter } from '@/components/transactions/TagFilter';
+import { MoveTransactionsDialog } from '@/components/transactions/MoveTransactionsDialog';
 import { MonthYearPicker } from '@/components/dashboard/MonthYearPicker';
+import { buildTransferLegs, pairTransferLegs } from '@/lib/transfers';
+import { buildInstallments } from '@/lib/installments';
+import { withTagIds } from '@/lib/tags';
+import { SplitLine } from '@/lib/splits';
+import { Attachment, SourceFile } from '@/lib/attachments';
+import { TransactionStatus } from '@/lib/status';
+import { canEditProfile } from '@/lib/members';
+import { getMonthPeriod, getPeriodMonth, toDateRange } from '@/lib/period';
+import { useMaterializeRecurring } from '@/hooks/useRecurringRules';
+import { useProfileSettings } from '@/hooks/useProfileSettings';
+import { saveTransactionTags, useTags } from '@/hooks/useTags';
+import { uploadTransactionAttachments } from '@/hooks/useAttachments';
 
 interface Transaction {
   id: string;
   description: string;
   amount: number;
+  currency: string;
+  status: TransactionStatus;
   payment_source: string | null;
+  account_id: string | null;
   payment_method: 'pix' | 'boleto' | 'credito' | 'debito' | 'dinheiro' | 'transferencia';
+  category_id: string | null;
+  goal_id: string | null;
+  payee_id: string | null;
   transaction_date: string;
   notes: string | null;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
+  transfer_id: string | null;
+  transfer_direction: 'out' | 'in' | null;
+  destination_account_id?: string | null;
+  counterpart_id?: string | null;
+  installment_group_id: string | null;
+  installment_number: number | null;
+  installment_count: number | null;
+  tag_ids: string[];
+  transaction_splits: (SplitLine & { position: number })[];
+  transaction_attachments: Attachment[];
+  uploaded_files: SourceFile | null;
 }
 
+type TransactionTab = Transaction['type'];
+
 export default function Transactions() {
   const now = new Date();
   const [selectedMonth, setSelectedMonth] = useState(now.getMonth());
   const [selectedYear, setSelectedYear] = useState(now.getFullYear());
-  const [activeTab, setActiveTab] = useState<'expense' | 'income'>('expense');
+  const [activeTab, setActiveTab] = useState<TransactionTab>('expense');
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [moveMode, setMoveMode] = useState<'move' | 'copy' | null>(null);
   
   const { selectedProfile } = useProfiles();
   const { user } = useAuth();
+  const { tags } = useTags(selectedProfile?.id);
+  const { monthStart } = useProfileSettings(selectedProfile?.id);
   const queryClient = useQueryClient();
+  useMaterializeRecurring(selectedProfile?.id);
+  const readOnly = !canEditProfile(selectedProfile?.role);
+
+  // Open on the financial month that contains today
+  useEffect(() => {
+    const current = getPeriodMonth(new Date(), monthStart);
+    setSelectedMonth(current.month);
+    setSelectedYear(current.year);
+  }, [monthStart]);
+
+  const monthRange = toDateRange(getMonthPeriod(selectedMonth, selectedYear, monthStart));
+
+  // The selection only covers the list on screen
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [selectedProfile?.id, selectedMonth, selectedYear, activeTab]);
 
   const { data: transactions = [], isLoading } = useQuery({
-    queryKey: ['transactions', selectedProfile?.id, selectedMonth, selectedYear, activeTab],
+    queryKey: ['transactions', selectedProfile?.id, monthRange.start, monthRange.end, activeTab],
     queryFn: async () => {
       if (!selectedProfile) return [];
 
-      const startDate = new Date(selectedYear, selectedMonth, 1);
-      const endDate = new Date(selectedYear, selectedMonth + 1, 0);
-
       const { data, error } = await supabase
         .from('transactions')
-        .select('*')
+        .select('*, transaction_tags(tag_id), transaction_splits(label, amount, notes, position), transaction_attachments(id, file_name, file_type, storage_path), uploaded_files(file_name, file_type, storage_path)')
+        .is('deleted_at', null)
         .eq('profile_id', selectedProfile.id)
         .eq('type', activeTab)
-        .gte('transaction_date', startDate.toISOString().split('T')[0])
-        .lte('transaction_date', endDate.toISOString().split('T')[0])
+        .gte('transaction_date', monthRange.start)
+        .lte('transaction_date', monthRange.end)
         .order('transaction_date', { ascending: false });
 
       if (error) throw error;
-      return data as Transaction[];
+      const rows = withTagIds(data) as Transaction[];
+      // Each transfer is listed once, as its outgoing leg
+      return activeTab === 'transfer' ? pairTransferLegs(rows) : rows;
     },
     enabled: !!selectedProfile,
   });
 
+  const visibleTransactions = tagFilter.length === 0
+    ? transactions
+    : transactions.filter(t => tagFilter.some(id => t.tag_ids.includes(id)));
+  const selectedTransactionIds = visibleTransactions.filter(t => selectedIds.has(t.id)).map(t => t.id);
+
+  // Fields shared by both legs of a transfer
+  const transferValues = (data: TransactionFormData) => ({
+    profile_id: selectedProfile.id,
+    user_id: user.id,
+    description: data.description,
+    amount: parseFloat(data.amount.replace(',', '.')),
+    currency: data.currency,
+    status: data.status,
+    payment_method: 'transferencia' as const,
+    goal_id: data.goal_id || null,
+    transaction_date: data.transaction_date.toISOString().split('T')[0],
+    notes: data.notes || null,
+  });
+
+  const saveTags = (transactionIds: string[], tagNames: string[]) =>
+    saveTransactionTags(selectedProfile.id, user.id, transactionIds, tagNames);
+
+  const saveAttachments = (transactionId: string, files: File[]) =>
+    uploadTransactionAttachments(selectedProfile.id, user.id, transactionId, files);
+
+  // Split lines are replaced as a whole; an empty list removes the split
+  const saveSplits = async (transactionIds: string[], splits: TransactionFormData['splits']) => {
+    const { error: deleteError } = await supabase
+      .from('transaction_splits')
+      .delete()
+      .in('transaction_id', transactionIds);
+
+    if (deleteError) throw deleteError;
+    if (splits.length === 0) return;
+
+    const { error } = await supabase
+      .from('transaction_splits')
+      .insert(transactionIds.flatMap(transactionId => splits.map((split, position) => ({
+        transaction_id: transactionId,
+        user_id: user.id,
+        position,
+        label: split.label.trim(),
+        amount: parseFloat(split.amount.replace(',', '.')),
+        notes: split.notes || null,
+      }))));
+
+    if (error) throw error;
+  };
+
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async (data: TransactionFormData) => {
       if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
 
-      const { error } = await supabase
+      if (activeTab === 'transfer') {
+        const { data: legs, error } = await supabase
+          .from('transactions')
+          .insert(buildTransferLegs(
+            transferValues(data),
+            uuidv4(),
+            data.account_id,
+            data.destination_account_id
+          ))
+          .select('id');
+
+        if (error) throw error;
+        await saveTags(legs.map(l => l.id), data.tags);
+        // Attachments go on the outgoing leg, the one listed in the table
+        await saveAttachments(legs[0].id, data.attachments);
+        return;
+      }
+
+      const values = {
+        profile_id: selectedProfile.id,
+        user_id: user.id,
+        type: activeTab,
+        description: data.description,
+        amount: parseFloat(data.amount.replace(',', '.')),
+        currency: data.currency,
+        status: data.status,
+        account_id: data.account_id || null,
+        payment_method: data.payment_method,
+        category_id: data.category_id || null,
+        goal_id: data.goal_id || null,
+        payee_id: data.payee_id || null,
+        transaction_date: data.transaction_date.toISOString().split('T')[0],
+        notes: data.notes || null,
+      };
+
+      const installmentCount = Number(data.installment_count) || 1;
+      const { data: created, error } = await supabase
         .from('transactions')
-        .insert({
-          profile_id: selectedProfile.id,
-          user_id: user.id,
-          type: activeTab,
-          description: data.description,
-          amount: parseFloat(data.amount.replace(',', '.')),
-          payment_source: data.payment_source || null,
-          payment_method: data.payment_method,
-          transaction_date: data.transaction_date.toISOString().split('T')[0],
-          notes: data.notes || null,
-        });
+        .insert(installmentCount > 1
+          ? buildInstallments(values, {
+              count: installmentCount,
+              amount: values.amount,
+              mode: data.installment_mode,
+              firstMonth: data.first_installment_month || format(data.transaction_date, 'yyyy-MM'),
+              day: data.transaction_date.getDate(),
+            }, uuidv4())
+          : [values])
+        .select('id');
 
       if (error) throw error;
+      await saveTags(created.map(t => t.id), data.tags);
+      if (data.splits.length > 0) await saveSplits(created.map(t => t.id), data.splits);
+      // An installment purchase keeps its receipt on the first installment
+      await saveAttachments(created[0].id, data.attachments);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['kpi'] });
       queryClient.invalidateQueries({ queryKey: ['chart'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
       toast.success('Transação criada com sucesso!');
     },
     onError: (error) => {
@@ -89,25 +234,96 @@ export default function Transactions() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+    mutationFn: async ({ transaction, data }: { transaction: Transaction; data: TransactionFormData }) => {
+      if (!selectedProfile || !user) throw new Error('Perfil ou usuário não encontrado');
+
+      // Each leg is updated by id and keeps its author; an incoming leg that went missing is
+      // created again, by the user editing the transfer
+      if (transaction.transfer_id) {
+        const { profile_id, user_id, ...values } = transferValues(data);
+        const [outgoing, incoming] = buildTransferLegs(
+          values,
+          transaction.transfer_id,
+          data.account_id,
+          data.destination_account_id
+        );
+
+        const { error } = await supabase
+          .from('transactions')
+          .update(outgoing)
+          .eq('id', transaction.id);
+
+        if (error) throw error;
+
+        const { data: counterpart, error: counterpartError } = transaction.counterpart_id
+          ? await supabase
+              .from('transactions')
+              .update(incoming)
+              .eq('id', transaction.counterpart_id)
+              .select('id')
+              .single()
+          : await supabase
+              .from('transactions')
+              .insert({ ...incoming, profile_id, user_id })
+              .select('id')
+              .single();
+
+        if (counterpartError) throw counterpartError;
+        await saveTags([transaction.id, counterpart.id], data.tags);
+        await saveAttachments(transaction.id, data.attachments);
+        return;
+      }
+
+      const values = {
+        description: data.description,
+        amount: parseFloat(data.amount.replace(',', '.')),
+        currency: data.currency,
+        account_id: data.account_id || null,
+        payment_method: data.payment_method,
+        category_id: data.category_id || null,
+        goal_id: data.goal_id || null,
+        payee_id: data.payee_id || null,
+        notes: data.notes || null,
+      };
+      const transactionDate = data.transaction_date.toISOString().split('T')[0];
+
+      const updatedIds = [transaction.id];
+      const splitIds = [transaction.id];
+
+      // The amount, date and status only change on the edited installment; the others keep theirs,
+      // so the cents the last installment absorbed are not lost
+      if (transaction.installment_group_id && data.apply_to_remaining) {
+        const { amount, ...groupValues } = values;
+        const { data: group, error: groupError } = await supabase
+          .from('transactions')
+          .update(groupValues)
+          .is('deleted_at', null)
+          .eq('installment_group_id', transaction.installment_group_id)
+          .gt('installment_number', transaction.installment_number)
+          .select('id, amount');
+
+        if (groupError) throw groupError;
+        updatedIds.push(...group.map(t => t.id));
+        // A split has to add up to the amount, so it only goes to installments of the same value
+        splitIds.push(...group.filter(t => Number(t.amount) === amount).map(t => t.id));
+      }
+
       const { error } = await supabase
         .from('transactions')
-        .update({
-          description: data.description,
-          amount: parseFloat(data.amount.replace(',', '.')),
-          payment_source: data.payment_source || null,
-          payment_method: data.payment_method,
-          transaction_date: data.transaction_date.toISOString().split('T')[0],
-          notes: data.notes || null,
-        })
-        .eq('id', id);
+        .update({ ...values, transaction_date: transactionDate, status: data.status })
+        .eq('id', transaction.id);
 
       if (error) throw error;
+      await saveTags(updatedIds, data.tags);
+      await saveSplits(splitIds, data.splits);
+      await saveAttachments(transaction.id, data.attachments);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['kpi'] });
       queryClient.invalidateQueries({ queryKey: ['chart'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['transaction_attachments'] });
       toast.success('Transação atualizada com sucesso!');
     },
     onError: (error) => {
@@ -115,12 +331,24 @@ export default function Transactions() {
     },
   });
 
+  // Deleted transactions go to the trash; a transfer leg takes its counterpart along (database trigger).
+  // For installments, `remaining` cancels this one and every later installment of the group.
   const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase
-        .from('transactions')
-        .delete()
-        .eq('id', id);
+    mutationFn: async ({ id, remaining }: { id: string; remaining?: boolean }) => {
+      const transaction = transactions.find(t => t.id === id);
+      const deletedAt = new Date().toISOString();
+
+      const { error } = remaining && transaction?.installment_group_id
+        ? await supabase
+            .from('transactions')
+            .update({ deleted_at: deletedAt })
+            .eq('installment_group_id', transaction.installment_group_id)
+            .gte('installment_number', transaction.installment_number)
+            .is('deleted_at', null)
+        : await supabase
+            .from('transactions')
+            .update({ deleted_at: deletedAt })
+            .eq('id', id);
 
       if (error) throw error;
     },
@@ -128,16 +356,16 @@ export default function Transactions() {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['kpi'] });
       queryClient.invalidateQueries({ queryKey: ['chart'] });
-      toast.success('Transação excluída com sucesso!');
+      toast.success('Transação movida para a lixeira!');
     },
     onError: (error) => {
       toast.error('Erro ao excluir transação: ' + error.message);
     },
   });
 
-  const handleSubmit = async (data: any) => {
+  const handleSubmit = async (data: TransactionFormData) => {
     if (editingTransaction) {
-      await updateMutation.mutateAsync({ id: editingTransaction.id, data });
+      await updateMutation.mutateAsync({ transaction: editingTransaction, data });
     } else {
       await createMutation.mutateAsync(data);
     }
@@ -175,27 +403,50 @@ export default function Transactions() {
             Lançamentos
           </h1>
           <p className="text-muted-foreground mt-1">
-            Gerencie receitas e despesas de {selectedProfile.name}
+            Gerencie receitas, despesas e transferências de {selectedProfile.name}
           </p>
         </div>
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <TagFilter tags={tags} value={tagFilter} onChange={setTagFilter} />
           <MonthYearPicker
             selectedMonth={selectedMonth}
             selectedYear={selectedYear}
             onMonthChange={setSelectedMonth}
             onYearChange={setSelectedYear}
+            monthStart={monthStart}
           />
-          <Button onClick={handleOpenNew} className="gap-2 press-effect">
-            <Plus className="h-4 w-4" />
-            Nova Transação
-          </Button>
+          {!readOnly && (
+            <Button onClick={handleOpenNew} className="gap-2 press-effect">
+              <Plus className="h-4 w-4" />
+              Nova Transação
+            </Button>
+          )}
         </div>
       </div>
 
+      {/* Bulk actions */}
+      {selectedTransactionIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 p-3 rounded-lg border bg-muted/40 animate-fade-in">
+          <span className="text-sm font-medium">{selectedTransactionIds.length} selecionados</span>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setMoveMode('move')}>
+            <FolderInput className="h-4 w-4" />
+            Mover para perfil
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setMoveMode('copy')}>
+            <Copy className="h-4 w-4" />
+            Copiar para perfil
+          </Button>
+          <Button variant="ghost" size="sm" className="gap-2" onClick={() => setSelectedIds(new Set())}>
+            <X className="h-4 w-4" />
+            Limpar seleção
+          </Button>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="animate-slide-up" style={{ animationDelay: '100ms' }}>
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'income' | 'expense')}>
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as TransactionTab)}>
+          <TabsList className="grid w-full max-w-lg grid-cols-3">
             <TabsTrigger value="expense" className="gap-2 transition-all duration-200">
               <TrendingDown className="h-4 w-4" />
               Despesas
@@ -204,23 +455,45 @@ export default function Transactions() {
               <TrendingUp className="h-4 w-4" />
               Receitas
             </TabsTrigger>
+            <TabsTrigger value="transfer" className="gap-2 transition-all duration-200">
+              <ArrowRightLeft className="h-4 w-4" />
+              Transferências
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="expense" className="mt-6 animate-fade-in">
             <TransactionsTable
-              transactions={transactions}
+              transactions={visibleTransactions}
               isLoading={isLoading}
               onEdit={handleEdit}
-              onDelete={(id) => deleteMutation.mutate(id)}
+              onDelete={(id, remaining) => deleteMutation.mutate({ id, remaining })}
+              readOnly={readOnly}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
             />
           </TabsContent>
 
           <TabsContent value="income" className="mt-6 animate-fade-in">
             <TransactionsTable
-              transactions={transactions}
+              transactions={visibleTransactions}
+              isLoading={isLoading}
+              onEdit={handleEdit}
+              onDelete={(id, remaining) => deleteMutation.mutate({ id, remaining })}
+              readOnly={readOnly}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+            />
+          </TabsContent>
+
+          <TabsContent value="transfer" className="mt-6 animate-fade-in">
+            <TransactionsTable
+              transactions={visibleTransactions}
               isLoading={isLoading}
               onEdit={handleEdit}
-              onDelete={(id) => deleteMutation.mutate(id)}
+              onDelete={(id, remaining) => deleteMutation.mutate({ id, remaining })}
+              readOnly={readOnly}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
             />
           </TabsContent>
         </Tabs>
@@ -234,6 +507,14 @@ export default function Transactions() {
         transaction={editingTransaction}
         onSubmit={handleSubmit}
       />
+
+      <MoveTransactionsDialog
+        open={!!moveMode}
+        onOpenChange={(open) => !open && setMoveMode(null)}
+        transactionIds={selectedTransactionIds}
+        copy={moveMode === 'copy'}
+        onDone={() => setSelectedIds(new Set())}
+      />
     </div>
   );
 }
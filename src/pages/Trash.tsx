@@ -0,0 +1,359 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Trash2, RotateCcw, Folder } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfiles } from '@/contexts/ProfileContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import {
+  purgeProfiles,
+  purgeTransactions,
+  useTrashedProfiles,
+  useTrashedTransactions,
+} from '@/hooks/useTrash';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { TRASH_RETENTION_OPTIONS, getDaysUntilPurge } from '@/lib/trash';
+import { canEditProfile } from '@/lib/members';
+import { formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+type PurgeTarget =
+  | { kind: 'transaction'; id: string }
+  | { kind: 'profile'; id: string }
+  | { kind: 'all' };
+
+const amountPrefixes = {
+  income: '+ ',
+  expense: '- ',
+  transfer: '',
+};
+
+export default function Trash() {
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+
+  const { selectedProfile } = useProfiles();
+  const { user } = useAuth();
+  const { trashRetentionDays } = useUserSettings();
+  const { transactions, isLoading: isLoadingTransactions } = useTrashedTransactions(selectedProfile?.id);
+  const { profiles, isLoading: isLoadingProfiles } = useTrashedProfiles();
+  const queryClient = useQueryClient();
+  const canEdit = canEditProfile(selectedProfile?.role);
+
+  const formatDeletedAt = (deletedAt: string) =>
+    format(parseISO(deletedAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+  const formatPurgeIn = (deletedAt: string) => {
+    const days = getDaysUntilPurge(deletedAt, trashRetentionDays);
+    return days === 0 ? 'hoje' : days === 1 ? 'em 1 dia' : `em ${days} dias`;
+  };
+
+  const retentionMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({ user_id: user.id, trash_retention_days: days }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user_settings'] });
+      toast.success('Prazo da lixeira atualizado!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar prazo da lixeira: ' + error.message);
+    },
+  });
+
+  // A restored transfer leg brings the other one back too (database trigger)
+  const restoreTransactionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ deleted_at: null })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi'] });
+      queryClient.invalidateQueries({ queryKey: ['chart'] });
+      toast.success('Lançamento restaurado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao restaurar lançamento: ' + error.message);
+    },
+  });
+
+  const restoreProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ deleted_at: null })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      toast.success('Perfil restaurado com sucesso!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao restaurar perfil: ' + error.message);
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (target: PurgeTarget) => {
+      if (target.kind === 'profile') {
+        await purgeProfiles([target.id]);
+      } else {
+        await purgeTransactions(target.kind === 'all' ? transactions.map(t => t.id) : [target.id]);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast.success('Itens excluídos definitivamente!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir definitivamente: ' + error.message);
+    },
+  });
+
+  const handlePurge = () => {
+    if (purgeTarget) {
+      purgeMutation.mutate(purgeTarget);
+      setPurgeTarget(null);
+    }
+  };
+
+  const renderLoading = () => (
+    <div className="flex items-center justify-center h-32">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+
+  const renderActions = (onRestore: () => void, onPurge: () => void, isRestoring: boolean) => (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Restaurar"
+        onClick={onRestore}
+        disabled={isRestoring}
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-destructive hover:text-destructive"
+        title="Excluir definitivamente"
+        onClick={onPurge}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 animate-fade-in">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground tracking-tight">
+            Lixeira
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Lançamentos e perfis excluídos podem ser restaurados até serem removidos definitivamente
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-sm text-muted-foreground whitespace-nowrap">Manter por</Label>
+          <Select
+            value={String(trashRetentionDays)}
+            onValueChange={(value) => retentionMutation.mutate(Number(value))}
+          >
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days} dias
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {selectedProfile && (
+        <Card className="card-finance animate-slide-up" style={{ animationDelay: '100ms' }}>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="font-display">Lançamentos</CardTitle>
+              <CardDescription>Lançamentos excluídos de {selectedProfile.name}</CardDescription>
+            </div>
+            {canEdit && transactions.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setPurgeTarget({ kind: 'all' })}
+              >
+                Esvaziar
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoadingTransactions ? renderLoading() : transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum lançamento na lixeira.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Excluído em</TableHead>
+                    <TableHead>Remoção</TableHead>
+                    {canEdit && <TableHead className="w-[100px]">Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="font-medium">{transaction.description}</TableCell>
+                      <TableCell>{format(parseISO(transaction.transaction_date), 'dd/MM/yyyy')}</TableCell>
+                      <TableCell
+                        className={cn(
+                          'text-right font-medium',
+                          transaction.type === 'income' && 'text-income',
+                          transaction.type === 'expense' && 'text-expense'
+                        )}
+                      >
+                        {amountPrefixes[transaction.type]}{formatMoney(transaction.amount, transaction.currency)}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{formatDeletedAt(transaction.deleted_at)}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatPurgeIn(transaction.deleted_at)}</TableCell>
+                      {canEdit && (
+                        <TableCell>
+                          {renderActions(
+                            () => restoreTransactionMutation.mutate(transaction.id),
+                            () => setPurgeTarget({ kind: 'transaction', id: transaction.id }),
+                            restoreTransactionMutation.isPending
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="card-finance animate-slide-up" style={{ animationDelay: '200ms' }}>
+        <CardHeader>
+          <CardTitle className="font-display">Perfis</CardTitle>
+          <CardDescription>Perfis excluídos voltam com todos os seus lançamentos, contas e categorias</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingProfiles ? renderLoading() : profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum perfil na lixeira.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Excluído em</TableHead>
+                  <TableHead>Remoção</TableHead>
+                  <TableHead className="w-[100px]">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">
+                      <span className="flex items-center gap-2">
+                        <Folder className="h-4 w-4" style={{ color: profile.color }} />
+                        {profile.name}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatDeletedAt(profile.deleted_at)}</TableCell>
+                    <TableCell className="text-muted-foreground">{formatPurgeIn(profile.deleted_at)}</TableCell>
+                    <TableCell>
+                      {renderActions(
+                        () => restoreProfileMutation.mutate(profile.id),
+                        () => setPurgeTarget({ kind: 'profile', id: profile.id }),
+                        restoreProfileMutation.isPending
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={() => setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.kind === 'profile'
+                ? 'O perfil e todos os seus lançamentos, contas, categorias e arquivos serão apagados. Esta ação não pode ser desfeita.'
+                : purgeTarget?.kind === 'all'
+                  ? 'Todos os lançamentos da lixeira deste perfil serão apagados. Esta ação não pode ser desfeita.'
+                  : 'O lançamento e seus anexos serão apagados. Esta ação não pode ser desfeita.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir definitivamente
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -16,6 +16,54 @@ interface ExtractedTransaction {
   notes: string | null;
 }
 
+interface AccountRecord {
+  id: string;
+  name: string;
+  institution: string | null;
+}
+
+// Lower case, trimmed and without accents (mirrors normalizeAccountName in src/lib/accounts.ts)
+function normalizeAccountName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function findAccountId(accounts: AccountRecord[], source: string | null): string | null {
+  if (!source) return null;
+  const normalized = normalizeAccountName(source);
+  if (!normalized) return null;
+
+  const account =
+    accounts.find((a) => normalizeAccountName(a.name) === normalized) ||
+    accounts.find((a) => a.institution && normalizeAccountName(a.institution) === normalized);
+  return account?.id ?? null;
+}
+
+// Limits enforced by the transactions table constraints (mirrors src/lib/csv.ts)
+const MAX_AMOUNT = 999999999.99;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_PAYMENT_SOURCE_LENGTH = 100;
+const MIN_DATE = "1990-01-01";
+const MAX_DATE = "2100-12-31";
+
+// Rows the table would reject are skipped instead of failing the whole statement
+function isValidExtracted(t: ExtractedTransaction): boolean {
+  const amount = Math.abs(t.amount);
+  return (
+    !!t.description?.trim() &&
+    amount > 0 &&
+    amount <= MAX_AMOUNT &&
+    /^\d{4}-\d{2}-\d{2}$/.test(t.transaction_date) &&
+    t.transaction_date >= MIN_DATE &&
+    t.transaction_date <= MAX_DATE
+  );
+}
+
 // Generic error messages for client responses
 const ERROR_MESSAGES = {
   UNAUTHORIZED: "Acesso não autorizado",
@@ -120,23 +168,24 @@ serve(async (req) => {
       );
     }
 
-    // Verify the profile belongs to the authenticated user
-    const { data: profileRecord, error: profileError } = await supabase
-      .from("profiles")
-      .select("user_id")
-      .eq("id", profileId)
-      .single();
+    // Verify the authenticated user can write to the profile (owner or editor)
+    const { data: memberRecord, error: memberError } = await supabase
+      .from("profile_members")
+      .select("role")
+      .eq("profile_id", profileId)
+      .eq("user_id", authenticatedUserId)
+      .maybeSingle();
 
-    if (profileError || !profileRecord) {
-      console.error("Profile not found:", profileId);
+    if (memberError) {
+      console.error("Failed to check profile membership:", memberError.message);
       return new Response(
-        JSON.stringify({ error: ERROR_MESSAGES.NOT_FOUND }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: ERROR_MESSAGES.PROCESSING_FAILED }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    if (profileRecord.user_id !== authenticatedUserId) {
-      console.error("User", authenticatedUserId, "attempted to use profile owned by", profileRecord.user_id);
+    if (!memberRecord || !["owner", "editor"].includes(memberRecord.role)) {
+      console.error("User", authenticatedUserId, "attempted to use profile", profileId, "without write access");
       return new Response(
         JSON.stringify({ error: ERROR_MESSAGES.FORBIDDEN }),
         { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -335,18 +384,29 @@ IMPORTANTE: Retorne APENAS um JSON válido com a estrutura abaixo, sem texto adi
       );
     }
 
+    // Link extracted sources to the profile's accounts when the names match
+    const { data: accounts } = await supabase
+      .from("accounts")
+      .select("id, name, institution")
+      .eq("profile_id", profileId);
+
     // Insert transactions into database using the authenticated user's ID
-    const transactionsToInsert = extractedData.transactions.map((t) => ({
-      description: t.description,
-      amount: Math.abs(t.amount),
-      type: t.type,
-      payment_method: t.payment_method,
-      payment_source: t.payment_source,
-      transaction_date: t.transaction_date,
-      notes: t.notes,
-      profile_id: profileId,
-      user_id: userId, // Always use authenticated user's ID
-    }));
+    const transactionsToInsert = extractedData.transactions.filter(isValidExtracted).map((t) => {
+      const accountId = findAccountId(accounts ?? [], t.payment_source);
+      return {
+        description: t.description.trim().slice(0, MAX_DESCRIPTION_LENGTH),
+        amount: Math.abs(t.amount),
+        type: t.type,
+        payment_method: t.payment_method,
+        payment_source: accountId ? null : t.payment_source?.slice(0, MAX_PAYMENT_SOURCE_LENGTH) ?? null,
+        account_id: accountId,
+        transaction_date: t.transaction_date,
+        notes: t.notes?.slice(0, MAX_NOTES_LENGTH) ?? null,
+        profile_id: profileId,
+        user_id: userId, // Always use authenticated user's ID
+        uploaded_file_id: fileId, // Statement the row was extracted from
+      };
+    });
 
     if (transactionsToInsert.length > 0) {
       const { error: insertError } = await supabase
@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Keeps each storage request small
+const REMOVE_BATCH_SIZE = 100;
+
+// Generic error messages for responses
+const ERROR_MESSAGES = {
+  UNAUTHORIZED: "Acesso não autorizado",
+  PURGE_FAILED: "Falha ao esvaziar a lixeira",
+};
+
+// Called once a day by the purge-expired-trash cron job with the service role key. The files of
+// the expired rows are removed first; the database then purges only the rows whose files are all
+// gone, so whatever failed is tried again on the next run.
+serve(async (req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (req.headers.get("authorization") !== `Bearer ${supabaseServiceKey}`) {
+    console.error("Purge requested without the service role key");
+    return new Response(
+      JSON.stringify({ error: ERROR_MESSAGES.UNAUTHORIZED }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: storagePaths, error } = await supabase.rpc("get_expired_trash_files");
+    if (error) throw error;
+
+    const paths = (storagePaths ?? []) as string[];
+    const removedPaths: string[] = [];
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+      const { error: storageError } = await supabase.storage.from("uploads").remove(batch);
+
+      if (storageError) {
+        console.error("Storage removal error:", storageError);
+        continue;
+      }
+      removedPaths.push(...batch);
+    }
+
+    const { data: purgedCount, error: purgeError } = await supabase.rpc("purge_expired_trash", {
+      _removed_paths: removedPaths,
+    });
+    if (purgeError) throw purgeError;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        purgedCount,
+        filesCount: removedPaths.length,
+        failedFilesCount: paths.length - removedPaths.length,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Purge error:", error);
+    return new Response(
+      JSON.stringify({ error: ERROR_MESSAGES.PURGE_FAILED }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,57 @@
+-- Create categories table (per-profile taxonomy with optional parent category)
+CREATE TABLE public.categories (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    parent_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    type transaction_type NOT NULL,
+    name TEXT NOT NULL,
+    icon TEXT, -- lucide icon name, e.g. "ShoppingCart"
+    color TEXT DEFAULT '#64748b',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT categories_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+-- Link transactions to a category (kept when the category is removed)
+ALTER TABLE public.transactions
+    ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for categories
+CREATE POLICY "Users can view their own categories"
+ON public.categories FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categories"
+ON public.categories FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories"
+ON public.categories FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories"
+ON public.categories FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_categories_updated_at
+    BEFORE UPDATE ON public.categories
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_categories_profile_id ON public.categories(profile_id);
+CREATE INDEX idx_categories_parent_id ON public.categories(parent_id);
+CREATE INDEX idx_transactions_category_id ON public.transactions(category_id);
+
+-- Category names are unique among siblings of the same type
+CREATE UNIQUE INDEX idx_categories_unique_name ON public.categories(
+    profile_id,
+    type,
+    COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    lower(name)
+);
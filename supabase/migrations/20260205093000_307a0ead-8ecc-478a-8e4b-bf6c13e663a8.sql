@@ -0,0 +1,104 @@
+-- Create enum for account types
+CREATE TYPE public.account_type AS ENUM ('checking', 'savings', 'cash', 'credit');
+
+-- Create accounts table (bank accounts, wallets and cards of a profile)
+CREATE TABLE public.accounts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    institution TEXT, -- e.g., "Nubank", "Itaú"
+    type account_type NOT NULL DEFAULT 'checking',
+    opening_balance DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    color TEXT DEFAULT '#0891b2',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link transactions to an account (payment_source is kept as legacy free text)
+ALTER TABLE public.transactions
+    ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for accounts
+CREATE POLICY "Users can view their own accounts"
+ON public.accounts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own accounts"
+ON public.accounts FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own accounts"
+ON public.accounts FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own accounts"
+ON public.accounts FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_accounts_updated_at
+    BEFORE UPDATE ON public.accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_accounts_profile_id ON public.accounts(profile_id);
+CREATE INDEX idx_transactions_account_id ON public.transactions(account_id);
+CREATE UNIQUE INDEX idx_accounts_unique_name ON public.accounts(profile_id, lower(name));
+
+-- ===== Migrate existing payment_source values into accounts =====
+
+-- Comparison key: lower case, trimmed and without accents
+CREATE FUNCTION pg_temp.account_key(source TEXT)
+RETURNS TEXT AS $$
+    SELECT translate(lower(trim(source)), 'áàâãäéêëíìîïóòôõöúùûüç', 'aaaaaeeeeiiiiooooouuuuc');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Map common spellings of the same institution to a single account name
+CREATE FUNCTION pg_temp.canonical_account_name(source TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN k IN ('nu', 'nubank', 'nu bank') OR k LIKE 'nu pagamentos%' THEN 'Nubank'
+        WHEN k LIKE 'itau%' THEN 'Itaú'
+        WHEN k LIKE 'bradesco%' THEN 'Bradesco'
+        WHEN k LIKE 'santander%' THEN 'Santander'
+        WHEN k = 'bb' OR k LIKE 'banco do brasil%' THEN 'Banco do Brasil'
+        WHEN k = 'cef' OR k LIKE 'caixa%' THEN 'Caixa'
+        WHEN k = 'inter' OR k LIKE 'banco inter%' THEN 'Inter'
+        WHEN k LIKE 'c6%' THEN 'C6 Bank'
+        WHEN k LIKE 'picpay%' THEN 'PicPay'
+        WHEN k LIKE 'mercado pago%' OR k LIKE 'mercadopago%' THEN 'Mercado Pago'
+        WHEN k IN ('dinheiro', 'especie', 'em especie') THEN 'Dinheiro'
+        ELSE trim(source)
+    END
+    FROM (SELECT pg_temp.account_key(source) AS k) normalized;
+$$ LANGUAGE sql IMMUTABLE;
+
+INSERT INTO public.accounts (profile_id, user_id, name, institution, type)
+SELECT DISTINCT ON (t.profile_id, pg_temp.account_key(pg_temp.canonical_account_name(t.payment_source)))
+    t.profile_id,
+    p.user_id,
+    pg_temp.canonical_account_name(t.payment_source),
+    CASE WHEN pg_temp.canonical_account_name(t.payment_source) = 'Dinheiro'
+        THEN NULL
+        ELSE pg_temp.canonical_account_name(t.payment_source)
+    END,
+    CASE WHEN pg_temp.canonical_account_name(t.payment_source) = 'Dinheiro'
+        THEN 'cash'::account_type
+        ELSE 'checking'::account_type
+    END
+FROM public.transactions t
+JOIN public.profiles p ON p.id = t.profile_id
+WHERE t.payment_source IS NOT NULL AND trim(t.payment_source) <> ''
+ORDER BY t.profile_id, pg_temp.account_key(pg_temp.canonical_account_name(t.payment_source)), t.created_at;
+
+UPDATE public.transactions t
+SET account_id = a.id
+FROM public.accounts a
+WHERE a.profile_id = t.profile_id
+  AND t.payment_source IS NOT NULL
+  AND pg_temp.account_key(a.name) = pg_temp.account_key(pg_temp.canonical_account_name(t.payment_source));
@@ -0,0 +1,35 @@
+-- Transfers between accounts: a third transaction kind that is neither income nor expense
+ALTER TYPE public.transaction_type ADD VALUE IF NOT EXISTS 'transfer';
+
+-- Create enum for the side of a transfer
+CREATE TYPE public.transfer_direction AS ENUM ('out', 'in');
+
+-- A transfer is stored as a linked pair of rows sharing transfer_id:
+-- the 'out' leg debits the source account and the 'in' leg credits the destination
+ALTER TABLE public.transactions
+    ADD COLUMN transfer_id UUID,
+    ADD COLUMN transfer_direction transfer_direction,
+    ADD CONSTRAINT transactions_transfer_leg_check
+        CHECK ((transfer_id IS NULL) = (transfer_direction IS NULL));
+
+-- Each transfer has exactly one leg per direction
+CREATE UNIQUE INDEX idx_transactions_transfer_leg
+    ON public.transactions(transfer_id, transfer_direction)
+    WHERE transfer_id IS NOT NULL;
+
+-- Deleting one leg removes the other, so a transfer never ends up half-recorded
+CREATE OR REPLACE FUNCTION public.delete_transfer_counterpart()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.transactions
+    WHERE transfer_id = OLD.transfer_id
+      AND id <> OLD.id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER delete_transactions_transfer_counterpart
+    AFTER DELETE ON public.transactions
+    FOR EACH ROW
+    WHEN (OLD.transfer_id IS NOT NULL)
+    EXECUTE FUNCTION public.delete_transfer_counterpart();
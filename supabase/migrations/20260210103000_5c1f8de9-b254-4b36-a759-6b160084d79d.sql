@@ -0,0 +1,50 @@
+-- Credit card configuration on accounts of type 'credit'
+ALTER TABLE public.accounts
+    ADD COLUMN closing_day SMALLINT CHECK (closing_day BETWEEN 1 AND 31),
+    ADD COLUMN due_day SMALLINT CHECK (due_day BETWEEN 1 AND 31),
+    ADD COLUMN credit_limit DECIMAL(15, 2) CHECK (credit_limit >= 0);
+
+-- Create credit card statements table (faturas). Cycles are derived from the card's
+-- closing and due days; a row records the payment of one statement.
+CREATE TABLE public.credit_card_statements (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+    reference_month DATE NOT NULL, -- first day of the month the statement is due
+    -- Incoming leg of the transfer that paid the statement; deleting it reopens the statement
+    payment_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (account_id, reference_month)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.credit_card_statements ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for credit_card_statements
+CREATE POLICY "Users can view their own credit card statements"
+ON public.credit_card_statements FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own credit card statements"
+ON public.credit_card_statements FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own credit card statements"
+ON public.credit_card_statements FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own credit card statements"
+ON public.credit_card_statements FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_credit_card_statements_updated_at
+    BEFORE UPDATE ON public.credit_card_statements
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_credit_card_statements_profile_id ON public.credit_card_statements(profile_id);
+CREATE INDEX idx_credit_card_statements_payment_transaction_id ON public.credit_card_statements(payment_transaction_id);
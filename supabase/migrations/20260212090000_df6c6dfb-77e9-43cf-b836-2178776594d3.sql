@@ -0,0 +1,19 @@
+-- Installment purchases (compras parceladas): each installment is a transaction linked
+-- to the others by installment_group_id, numbered 1..installment_count
+ALTER TABLE public.transactions
+    ADD COLUMN installment_group_id UUID,
+    ADD COLUMN installment_number SMALLINT,
+    ADD COLUMN installment_count SMALLINT,
+    ADD CONSTRAINT transactions_installment_check CHECK (
+        (installment_group_id IS NULL AND installment_number IS NULL AND installment_count IS NULL)
+        OR (
+            installment_group_id IS NOT NULL
+            AND installment_count BETWEEN 2 AND 120
+            AND installment_number BETWEEN 1 AND installment_count
+        )
+    );
+
+-- Create index for better query performance
+CREATE UNIQUE INDEX idx_transactions_installment
+    ON public.transactions(installment_group_id, installment_number)
+    WHERE installment_group_id IS NOT NULL;
@@ -0,0 +1,64 @@
+-- Create enum for recurrence frequencies
+CREATE TYPE public.recurrence_frequency AS ENUM ('daily', 'weekly', 'monthly', 'yearly');
+
+-- Create recurring rules table (rent, salary, subscriptions...). Template fields are
+-- copied into a transaction for every due occurrence.
+CREATE TABLE public.recurring_rules (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    type transaction_type NOT NULL,
+    description TEXT NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    payment_method payment_method NOT NULL,
+    notes TEXT,
+    frequency recurrence_frequency NOT NULL DEFAULT 'monthly',
+    interval SMALLINT NOT NULL DEFAULT 1 CHECK (interval >= 1),
+    day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31), -- monthly/yearly; defaults to the start date's day
+    start_date DATE NOT NULL,
+    end_date DATE,
+    occurrence_count INTEGER CHECK (occurrence_count >= 1),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    materialized_through DATE, -- last day already turned into transactions
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Link transactions to the rule and occurrence that generated them. The unique pair makes
+-- materialization idempotent: an occurrence is never inserted twice.
+ALTER TABLE public.transactions
+    ADD COLUMN recurring_rule_id UUID REFERENCES public.recurring_rules(id) ON DELETE SET NULL,
+    ADD COLUMN recurrence_date DATE,
+    ADD CONSTRAINT transactions_recurring_occurrence_key UNIQUE (recurring_rule_id, recurrence_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for recurring_rules
+CREATE POLICY "Users can view their own recurring rules"
+ON public.recurring_rules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring rules"
+ON public.recurring_rules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring rules"
+ON public.recurring_rules FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring rules"
+ON public.recurring_rules FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_recurring_rules_updated_at
+    BEFORE UPDATE ON public.recurring_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_recurring_rules_profile_id ON public.recurring_rules(profile_id);
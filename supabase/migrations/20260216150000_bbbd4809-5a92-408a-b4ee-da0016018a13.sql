@@ -0,0 +1,46 @@
+-- Create budgets table: one planned amount per line and month. A line is a filter over
+-- expenses; every filter left empty matches everything.
+CREATE TABLE public.budgets (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1), -- first day of the budgeted month
+    name TEXT NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    payment_method payment_method,
+    account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL, -- payment source
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL, -- includes subcategories
+    keywords TEXT[] NOT NULL DEFAULT '{}', -- description contains any of them
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (profile_id, month, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for budgets
+CREATE POLICY "Users can view their own budgets"
+ON public.budgets FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets"
+ON public.budgets FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budgets"
+ON public.budgets FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budgets"
+ON public.budgets FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_budgets_updated_at
+    BEFORE UPDATE ON public.budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_budgets_profile_month ON public.budgets(profile_id, month);
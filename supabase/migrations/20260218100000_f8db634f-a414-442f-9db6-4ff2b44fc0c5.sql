@@ -0,0 +1,84 @@
+-- Create goals table: an amount to be saved by a target date
+CREATE TABLE public.goals (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    target_amount DECIMAL(15, 2) NOT NULL CHECK (target_amount > 0),
+    target_date DATE NOT NULL,
+    color TEXT,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create goal_contributions table: manual deposits (positive) and withdrawals (negative)
+CREATE TABLE public.goal_contributions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    goal_id UUID REFERENCES public.goals(id) ON DELETE CASCADE NOT NULL,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount <> 0),
+    contribution_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Transactions linked to a goal also count as contributions
+ALTER TABLE public.transactions
+    ADD COLUMN goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goal_contributions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for goals
+CREATE POLICY "Users can view their own goals"
+ON public.goals FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own goals"
+ON public.goals FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goals"
+ON public.goals FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goals"
+ON public.goals FOR DELETE
+USING (auth.uid() = user_id);
+
+-- RLS Policies for goal_contributions
+CREATE POLICY "Users can view their own goal contributions"
+ON public.goal_contributions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own goal contributions"
+ON public.goal_contributions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goal contributions"
+ON public.goal_contributions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goal contributions"
+ON public.goal_contributions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_goals_updated_at
+    BEFORE UPDATE ON public.goals
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_goal_contributions_updated_at
+    BEFORE UPDATE ON public.goal_contributions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_goals_profile_id ON public.goals(profile_id);
+CREATE INDEX idx_goal_contributions_goal_id ON public.goal_contributions(goal_id);
+CREATE INDEX idx_transactions_goal_id ON public.transactions(goal_id);
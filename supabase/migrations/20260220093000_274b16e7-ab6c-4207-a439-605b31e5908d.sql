@@ -0,0 +1,64 @@
+-- Create tags table: free-form labels per profile, stored normalized ("viagem-2026")
+CREATE TABLE public.tags (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+    color TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (profile_id, name)
+);
+
+-- Create transaction_tags join table
+CREATE TABLE public.transaction_tags (
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+    tag_id UUID REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (transaction_id, tag_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tags
+CREATE POLICY "Users can view their own tags"
+ON public.tags FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+ON public.tags FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+ON public.tags FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags FOR DELETE
+USING (auth.uid() = user_id);
+
+-- RLS Policies for transaction_tags
+CREATE POLICY "Users can view their own transaction tags"
+ON public.transaction_tags FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction tags"
+ON public.transaction_tags FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction tags"
+ON public.transaction_tags FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_tags_updated_at
+    BEFORE UPDATE ON public.tags
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_tags_profile_id ON public.tags(profile_id);
+CREATE INDEX idx_transaction_tags_tag_id ON public.transaction_tags(tag_id);
@@ -0,0 +1,42 @@
+-- Create transaction_splits table: purpose lines of a transaction. When a transaction has
+-- splits, their amounts add up to the transaction amount (validated by the app).
+CREATE TABLE public.transaction_splits (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transaction_splits
+CREATE POLICY "Users can view their own transaction splits"
+ON public.transaction_splits FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction splits"
+ON public.transaction_splits FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction splits"
+ON public.transaction_splits FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction splits"
+ON public.transaction_splits FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_transaction_splits_updated_at
+    BEFORE UPDATE ON public.transaction_splits
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_transaction_splits_transaction_id ON public.transaction_splits(transaction_id);
@@ -0,0 +1,70 @@
+-- Base currency of each profile: Dashboard aggregates are converted into it
+ALTER TABLE public.profiles
+    ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'BRL' CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- Currency of each transaction (ISO 4217 code); existing rows are in BRL
+ALTER TABLE public.transactions
+    ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Transactions inserted without a currency (recurring rules, bank statement import)
+-- take the base currency of their profile
+CREATE OR REPLACE FUNCTION public.set_transaction_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.currency IS NULL THEN
+        SELECT base_currency INTO NEW.currency FROM public.profiles WHERE id = NEW.profile_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+ALTER TABLE public.transactions ALTER COLUMN currency DROP DEFAULT;
+
+CREATE TRIGGER set_transactions_currency
+    BEFORE INSERT ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_transaction_currency();
+
+-- Create exchange_rates table: how much one unit of from_currency is worth in to_currency
+-- on a given date. Rates are entered manually or imported from CSV.
+CREATE TABLE public.exchange_rates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+    to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+    rate DECIMAL(20, 8) NOT NULL CHECK (rate > 0),
+    rate_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, from_currency, to_currency, rate_date),
+    CHECK (from_currency <> to_currency)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for exchange_rates
+CREATE POLICY "Users can view their own exchange rates"
+ON public.exchange_rates FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+ON public.exchange_rates FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+ON public.exchange_rates FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+ON public.exchange_rates FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_exchange_rates_updated_at
+    BEFORE UPDATE ON public.exchange_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_exchange_rates_user_pair ON public.exchange_rates(user_id, from_currency, to_currency, rate_date);
@@ -0,0 +1,48 @@
+-- Provenance: the bank statement a transaction was extracted from (set by process-bank-statement)
+ALTER TABLE public.transactions
+    ADD COLUMN uploaded_file_id UUID REFERENCES public.uploaded_files(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_uploaded_file_id ON public.transactions(uploaded_file_id);
+
+-- Create transaction_attachments table: receipts and other files attached to a transaction.
+-- Files are stored in the uploads bucket under <user_id>/<profile_id>/attachments/.
+CREATE TABLE public.transaction_attachments (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    file_name TEXT NOT NULL,
+    file_type TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    storage_path TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transaction_attachments
+CREATE POLICY "Users can view their own transaction attachments"
+ON public.transaction_attachments FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction attachments"
+ON public.transaction_attachments FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction attachments"
+ON public.transaction_attachments FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction attachments"
+ON public.transaction_attachments FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_transaction_attachments_updated_at
+    BEFORE UPDATE ON public.transaction_attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_transaction_attachments_transaction_id ON public.transaction_attachments(transaction_id);
@@ -0,0 +1,9 @@
+-- Transaction status: planned entries are expected but not paid yet; cleared ones were paid
+-- or received; reconciled ones were also checked against the bank statement
+CREATE TYPE public.transaction_status AS ENUM ('planned', 'cleared', 'reconciled');
+
+-- Existing transactions were entered after the fact, so they are cleared
+ALTER TABLE public.transactions
+    ADD COLUMN status public.transaction_status NOT NULL DEFAULT 'cleared';
+
+CREATE INDEX idx_transactions_status ON public.transactions(profile_id, status);
@@ -0,0 +1,130 @@
+-- Asset classes and movement types of the investment portfolio
+CREATE TYPE public.investment_asset_class AS ENUM ('cdb', 'tesouro_direto', 'acao', 'fii', 'fundo', 'cripto', 'outro');
+CREATE TYPE public.investment_movement_type AS ENUM ('buy', 'sell', 'dividend');
+
+-- Create investment_assets table: what the profile holds (a stock, a FII, a CDB, a Tesouro bond...)
+CREATE TABLE public.investment_assets (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    ticker TEXT,
+    asset_class public.investment_asset_class NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$'),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (profile_id, ticker)
+);
+
+-- Create investment_movements table: buys and sells change the position; dividends only add income.
+-- amount is the cash that moved: quantity * unit_price plus fees on buys, minus fees on sells.
+CREATE TABLE public.investment_movements (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    asset_id UUID REFERENCES public.investment_assets(id) ON DELETE CASCADE NOT NULL,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    type public.investment_movement_type NOT NULL,
+    movement_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    quantity DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+    unit_price DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+    fees DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (fees >= 0),
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (type = 'dividend' OR quantity > 0)
+);
+
+-- Create investment_prices table: one quote per asset and day, entered manually or imported from CSV
+CREATE TABLE public.investment_prices (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    asset_id UUID REFERENCES public.investment_assets(id) ON DELETE CASCADE NOT NULL,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    price DECIMAL(20, 8) NOT NULL CHECK (price > 0),
+    price_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (asset_id, price_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.investment_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.investment_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.investment_prices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for investment_assets
+CREATE POLICY "Users can view their own investment assets"
+ON public.investment_assets FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own investment assets"
+ON public.investment_assets FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment assets"
+ON public.investment_assets FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment assets"
+ON public.investment_assets FOR DELETE
+USING (auth.uid() = user_id);
+
+-- RLS Policies for investment_movements
+CREATE POLICY "Users can view their own investment movements"
+ON public.investment_movements FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own investment movements"
+ON public.investment_movements FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment movements"
+ON public.investment_movements FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment movements"
+ON public.investment_movements FOR DELETE
+USING (auth.uid() = user_id);
+
+-- RLS Policies for investment_prices
+CREATE POLICY "Users can view their own investment prices"
+ON public.investment_prices FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own investment prices"
+ON public.investment_prices FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment prices"
+ON public.investment_prices FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment prices"
+ON public.investment_prices FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_investment_assets_updated_at
+    BEFORE UPDATE ON public.investment_assets
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_investment_movements_updated_at
+    BEFORE UPDATE ON public.investment_movements
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_investment_prices_updated_at
+    BEFORE UPDATE ON public.investment_prices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_investment_assets_profile_id ON public.investment_assets(profile_id);
+CREATE INDEX idx_investment_movements_asset_date ON public.investment_movements(asset_id, movement_date);
+CREATE INDEX idx_investment_movements_profile_id ON public.investment_movements(profile_id);
+CREATE INDEX idx_investment_movements_transaction_id ON public.investment_movements(transaction_id);
+CREATE INDEX idx_investment_prices_profile_id ON public.investment_prices(profile_id);
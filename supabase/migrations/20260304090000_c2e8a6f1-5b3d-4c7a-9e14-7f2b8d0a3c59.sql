@@ -0,0 +1,57 @@
+-- Amortization systems: SAC (constant amortization) and Price (constant installment)
+CREATE TYPE public.loan_amortization_system AS ENUM ('sac', 'price');
+
+-- Create loans table: a financing paid in monthly installments. The schedule is derived from
+-- these values; each installment is an expense transaction linked back by loan_id.
+CREATE TABLE public.loans (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    principal DECIMAL(15, 2) NOT NULL CHECK (principal > 0),
+    interest_rate DECIMAL(9, 4) NOT NULL CHECK (interest_rate >= 0),
+    rate_period TEXT NOT NULL DEFAULT 'annual' CHECK (rate_period IN ('monthly', 'annual')),
+    term_months SMALLINT NOT NULL CHECK (term_months BETWEEN 1 AND 600),
+    amortization_system public.loan_amortization_system NOT NULL,
+    first_due_date DATE NOT NULL,
+    account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Installment expenses of a loan. Paid installments outlive the loan (the link is cleared).
+ALTER TABLE public.transactions
+    ADD COLUMN loan_id UUID REFERENCES public.loans(id) ON DELETE SET NULL,
+    ADD COLUMN loan_installment SMALLINT CHECK (loan_installment BETWEEN 1 AND 600);
+
+-- Enable Row Level Security
+ALTER TABLE public.loans ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for loans
+CREATE POLICY "Users can view their own loans"
+ON public.loans FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own loans"
+ON public.loans FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own loans"
+ON public.loans FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own loans"
+ON public.loans FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_loans_updated_at
+    BEFORE UPDATE ON public.loans
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_loans_profile_id ON public.loans(profile_id);
+CREATE INDEX idx_transactions_loan_id ON public.transactions(loan_id, loan_installment);
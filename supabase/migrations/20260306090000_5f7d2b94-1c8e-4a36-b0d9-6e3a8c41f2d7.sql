@@ -0,0 +1,113 @@
+-- Create payees table: the merchant or person behind a transaction. Aliases are match
+-- patterns for the raw descriptions written by banks ("PAG*IFOOD SAO PAULO"); * is a wildcard.
+CREATE TABLE public.payees (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (profile_id, name)
+);
+
+ALTER TABLE public.transactions
+    ADD COLUMN payee_id UUID REFERENCES public.payees(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.payees ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for payees
+CREATE POLICY "Users can view their own payees"
+ON public.payees FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own payees"
+ON public.payees FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own payees"
+ON public.payees FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payees"
+ON public.payees FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_payees_updated_at
+    BEFORE UPDATE ON public.payees
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lower case, no accents, words separated by single spaces: "PAG*IFOOD São Paulo" -> "pag ifood sao paulo".
+-- % survives so wildcards in aliases keep working.
+CREATE OR REPLACE FUNCTION public.normalize_payee_text(value TEXT)
+RETURNS TEXT AS $$
+    SELECT trim(regexp_replace(
+        translate(lower(value), 'áàâãäéèêëíìîïóòôõöúùûüçñ', 'aaaaaeeeeiiiiooooouuuucn'),
+        '[^a-z0-9%]+', ' ', 'g'
+    ));
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- The payee whose name or alias matches whole words of the description; the longest pattern wins
+CREATE OR REPLACE FUNCTION public.match_payee(_profile_id UUID, _description TEXT)
+RETURNS UUID AS $$
+    SELECT p.id
+    FROM public.payees p
+    CROSS JOIN LATERAL unnest(array_prepend(p.name, p.aliases)) AS alias(pattern)
+    CROSS JOIN LATERAL (
+        SELECT public.normalize_payee_text(replace(alias.pattern, '*', '%')) AS pattern
+    ) normalized
+    WHERE p.profile_id = _profile_id
+      AND replace(normalized.pattern, '%', '') ~ '[a-z0-9]'
+      AND ' ' || public.normalize_payee_text(_description) || ' ' LIKE '% ' || normalized.pattern || ' %'
+    ORDER BY char_length(normalized.pattern) DESC, p.name
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Transactions without a payee are linked on insert and when their description changes, so
+-- manual entries, CSV imports and the statement import are all covered
+CREATE OR REPLACE FUNCTION public.set_transaction_payee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.payee_id IS NULL AND NEW.type <> 'transfer' THEN
+        NEW.payee_id := public.match_payee(NEW.profile_id, NEW.description);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_transactions_payee
+    BEFORE INSERT OR UPDATE OF description, payee_id ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_transaction_payee();
+
+-- Links the profile's transactions that have no payee yet, after payees or aliases change.
+-- Runs with the caller's permissions; returns how many transactions were linked.
+CREATE OR REPLACE FUNCTION public.relink_payees(_profile_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    linked INTEGER;
+BEGIN
+    WITH matched AS (
+        SELECT id, public.match_payee(profile_id, description) AS payee_id
+        FROM public.transactions
+        WHERE profile_id = _profile_id
+          AND payee_id IS NULL
+          AND type <> 'transfer'
+    )
+    UPDATE public.transactions t
+    SET payee_id = matched.payee_id
+    FROM matched
+    WHERE t.id = matched.id
+      AND matched.payee_id IS NOT NULL;
+
+    GET DIAGNOSTICS linked = ROW_COUNT;
+    RETURN linked;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create indexes for better query performance
+CREATE INDEX idx_payees_profile_id ON public.payees(profile_id);
+CREATE INDEX idx_transactions_payee_id ON public.transactions(payee_id);
@@ -0,0 +1,66 @@
+-- Create transaction_history table: one row per insert, update or delete of a transaction,
+-- with the row before and after the change and who made it. Written only by the trigger below;
+-- transaction_id has no foreign key so the history outlives deleted transactions.
+CREATE TABLE public.transaction_history (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    transaction_id UUID NOT NULL,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+    old_data JSONB,
+    new_data JSONB,
+    actor_id UUID,
+    actor_email TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transaction_history ENABLE ROW LEVEL SECURITY;
+
+-- History is read-only for users
+CREATE POLICY "Users can view their own transaction history"
+ON public.transaction_history FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Runs as the table owner so the history can be written without an insert policy
+CREATE OR REPLACE FUNCTION public.record_transaction_history()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+    target JSONB := coalesce(new_row, old_row);
+BEGIN
+    -- Updates that only touch updated_at are not worth a history entry
+    IF TG_OP = 'UPDATE' AND (old_row - 'updated_at') = (new_row - 'updated_at') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Deleting a profile takes its transactions and their history along
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.profile_id) THEN
+        RETURN OLD;
+    END IF;
+
+    INSERT INTO public.transaction_history (
+        transaction_id, profile_id, user_id, operation, old_data, new_data, actor_id, actor_email
+    ) VALUES (
+        (target ->> 'id')::uuid,
+        (target ->> 'profile_id')::uuid,
+        (target ->> 'user_id')::uuid,
+        lower(TG_OP),
+        old_row,
+        new_row,
+        auth.uid(),
+        auth.jwt() ->> 'email'
+    );
+
+    RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_transactions_history
+    AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_transaction_history();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_transaction_history_transaction_id ON public.transaction_history(transaction_id, created_at DESC);
@@ -0,0 +1,108 @@
+-- Soft delete: deleted transactions and profiles stay in the trash (Lixeira) until they are
+-- restored or purged. Every query excludes rows with deleted_at set.
+ALTER TABLE public.transactions ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.profiles ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Create user_settings table: preferences of the user across profiles
+CREATE TABLE public.user_settings (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    trash_retention_days SMALLINT NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for user_settings
+CREATE POLICY "Users can view their own settings"
+ON public.user_settings FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+ON public.user_settings FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+ON public.user_settings FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own settings"
+ON public.user_settings FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_user_settings_updated_at
+    BEFORE UPDATE ON public.user_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Moving a transfer leg to the trash, or restoring it, does the same to the other leg
+CREATE OR REPLACE FUNCTION public.sync_transfer_counterpart_deleted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.transactions
+    SET deleted_at = NEW.deleted_at
+    WHERE transfer_id = NEW.transfer_id
+      AND id <> NEW.id
+      AND deleted_at IS DISTINCT FROM NEW.deleted_at;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_transactions_transfer_deleted_at
+    AFTER UPDATE OF deleted_at ON public.transactions
+    FOR EACH ROW
+    WHEN (NEW.transfer_id IS NOT NULL AND OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+    EXECUTE FUNCTION public.sync_transfer_counterpart_deleted_at();
+
+-- The history tells moving to the trash and restoring apart from regular updates
+ALTER TABLE public.transaction_history DROP CONSTRAINT transaction_history_operation_check;
+ALTER TABLE public.transaction_history ADD CONSTRAINT transaction_history_operation_check
+    CHECK (operation IN ('insert', 'update', 'delete', 'trash', 'restore'));
+
+CREATE OR REPLACE FUNCTION public.record_transaction_history()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+    target JSONB := coalesce(new_row, old_row);
+    operation TEXT := lower(TG_OP);
+BEGIN
+    -- Updates that only touch updated_at are not worth a history entry
+    IF TG_OP = 'UPDATE' AND (old_row - 'updated_at') = (new_row - 'updated_at') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Deleting a profile takes its transactions and their history along
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.profile_id) THEN
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+        operation := 'trash';
+    ELSIF TG_OP = 'UPDATE' AND OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+        operation := 'restore';
+    END IF;
+
+    INSERT INTO public.transaction_history (
+        transaction_id, profile_id, user_id, operation, old_data, new_data, actor_id, actor_email
+    ) VALUES (
+        (target ->> 'id')::uuid,
+        (target ->> 'profile_id')::uuid,
+        (target ->> 'user_id')::uuid,
+        operation,
+        old_row,
+        new_row,
+        auth.uid(),
+        auth.jwt() ->> 'email'
+    );
+
+    RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create indexes for better query performance
+CREATE INDEX idx_transactions_deleted_at ON public.transactions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_profiles_deleted_at ON public.profiles(deleted_at) WHERE deleted_at IS NOT NULL;
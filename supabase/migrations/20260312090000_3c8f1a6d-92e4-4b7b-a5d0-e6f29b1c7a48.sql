@@ -0,0 +1,606 @@
+-- Create profile_members table: who can access each profile and with which role.
+-- owner: the user who created the profile; editor: reads and writes; viewer: read-only.
+CREATE TABLE public.profile_members (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    email TEXT,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (profile_id, user_id)
+);
+
+-- Create profile_invitations table: invitations sent by the owner to an email address
+CREATE TABLE public.profile_invitations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    email TEXT NOT NULL CHECK (char_length(email) BETWEEN 3 AND 255),
+    role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Every existing profile is owned by the user who created it
+INSERT INTO public.profile_members (profile_id, user_id, email, role)
+SELECT p.id, p.user_id, u.email, 'owner'
+FROM public.profiles p
+JOIN auth.users u ON u.id = p.user_id;
+
+-- The caller's role in a profile, or NULL when they are not a member. These run as the table
+-- owner so the policies below, including the ones on profile_members, do not recurse.
+CREATE OR REPLACE FUNCTION public.get_profile_role(_profile_id UUID)
+RETURNS TEXT AS $$
+    SELECT role
+    FROM public.profile_members
+    WHERE profile_id = _profile_id
+      AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_profile_member(_profile_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.get_profile_role(_profile_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_profile(_profile_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(public.get_profile_role(_profile_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE public.profile_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profile_invitations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for profile_members. Rows are added by the triggers and functions below only;
+-- the owner changes roles and removes members, and any other member can leave.
+CREATE POLICY "Members can view profile members"
+ON public.profile_members FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Owners can update profile members"
+ON public.profile_members FOR UPDATE
+USING (public.get_profile_role(profile_id) = 'owner' AND role <> 'owner')
+WITH CHECK (role IN ('editor', 'viewer'));
+
+CREATE POLICY "Owners and the member can delete profile members"
+ON public.profile_members FOR DELETE
+USING (role <> 'owner' AND (public.get_profile_role(profile_id) = 'owner' OR auth.uid() = user_id));
+
+-- RLS Policies for profile_invitations. The invitee answers through respond_profile_invitation.
+CREATE POLICY "Owners can view profile invitations"
+ON public.profile_invitations FOR SELECT
+USING (public.get_profile_role(profile_id) = 'owner');
+
+CREATE POLICY "Owners can create profile invitations"
+ON public.profile_invitations FOR INSERT
+WITH CHECK (public.get_profile_role(profile_id) = 'owner' AND auth.uid() = invited_by AND status = 'pending');
+
+CREATE POLICY "Owners can delete profile invitations"
+ON public.profile_invitations FOR DELETE
+USING (public.get_profile_role(profile_id) = 'owner');
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_profile_members_updated_at
+    BEFORE UPDATE ON public.profile_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_profile_invitations_updated_at
+    BEFORE UPDATE ON public.profile_invitations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The user who creates a profile becomes its owner
+CREATE OR REPLACE FUNCTION public.add_profile_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.profile_members (profile_id, user_id, email, role)
+    SELECT NEW.id, NEW.user_id, u.email, 'owner'
+    FROM auth.users u
+    WHERE u.id = NEW.user_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_profiles_owner
+    AFTER INSERT ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.add_profile_owner();
+
+-- Pending invitations sent to the caller's email, with the names the invitee cannot read yet
+CREATE OR REPLACE FUNCTION public.get_received_invitations()
+RETURNS TABLE (id UUID, profile_name TEXT, role TEXT, invited_by_email TEXT, created_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT i.id, p.name, i.role, u.email, i.created_at
+    FROM public.profile_invitations i
+    JOIN public.profiles p ON p.id = i.profile_id
+    LEFT JOIN auth.users u ON u.id = i.invited_by
+    WHERE i.status = 'pending'
+      AND p.deleted_at IS NULL
+      AND lower(i.email) = lower(auth.jwt() ->> 'email')
+    ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Accepts or declines an invitation sent to the caller's email; accepting adds the membership
+CREATE OR REPLACE FUNCTION public.respond_profile_invitation(_invitation_id UUID, _accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+    invitation public.profile_invitations;
+BEGIN
+    SELECT * INTO invitation
+    FROM public.profile_invitations
+    WHERE id = _invitation_id
+      AND status = 'pending'
+      AND lower(email) = lower(auth.jwt() ->> 'email');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Convite não encontrado';
+    END IF;
+
+    IF _accept THEN
+        INSERT INTO public.profile_members (profile_id, user_id, email, role)
+        VALUES (invitation.profile_id, auth.uid(), auth.jwt() ->> 'email', invitation.role)
+        ON CONFLICT (profile_id, user_id) DO NOTHING;
+    END IF;
+
+    UPDATE public.profile_invitations
+    SET status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END,
+        responded_at = now()
+    WHERE id = _invitation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Profiles: members read; only the owner changes, trashes or deletes them. The creator is
+-- checked directly too, since the owner membership is added after the insert returns the row.
+DROP POLICY "Users can view their own profiles" ON public.profiles;
+
+CREATE POLICY "Members can view profiles"
+ON public.profiles FOR SELECT
+USING (auth.uid() = user_id OR public.is_profile_member(id));
+
+-- History: members read the history of the profile's transactions
+DROP POLICY "Users can view their own transaction history" ON public.transaction_history;
+
+CREATE POLICY "Members can view profile transaction history"
+ON public.transaction_history FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+-- Transactions: members read, owners and editors write
+DROP POLICY "Users can view their own transactions" ON public.transactions;
+DROP POLICY "Users can create their own transactions" ON public.transactions;
+DROP POLICY "Users can update their own transactions" ON public.transactions;
+DROP POLICY "Users can delete their own transactions" ON public.transactions;
+
+CREATE POLICY "Members can view profile transactions"
+ON public.transactions FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile transactions"
+ON public.transactions FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile transactions"
+ON public.transactions FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile transactions"
+ON public.transactions FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Files: members read, owners and editors write
+DROP POLICY "Users can view their own files" ON public.uploaded_files;
+DROP POLICY "Users can upload their own files" ON public.uploaded_files;
+DROP POLICY "Users can update their own files" ON public.uploaded_files;
+DROP POLICY "Users can delete their own files" ON public.uploaded_files;
+
+CREATE POLICY "Members can view profile files"
+ON public.uploaded_files FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile files"
+ON public.uploaded_files FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile files"
+ON public.uploaded_files FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile files"
+ON public.uploaded_files FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Categories: members read, owners and editors write
+DROP POLICY "Users can view their own categories" ON public.categories;
+DROP POLICY "Users can create their own categories" ON public.categories;
+DROP POLICY "Users can update their own categories" ON public.categories;
+DROP POLICY "Users can delete their own categories" ON public.categories;
+
+CREATE POLICY "Members can view profile categories"
+ON public.categories FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile categories"
+ON public.categories FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile categories"
+ON public.categories FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile categories"
+ON public.categories FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Accounts: members read, owners and editors write
+DROP POLICY "Users can view their own accounts" ON public.accounts;
+DROP POLICY "Users can create their own accounts" ON public.accounts;
+DROP POLICY "Users can update their own accounts" ON public.accounts;
+DROP POLICY "Users can delete their own accounts" ON public.accounts;
+
+CREATE POLICY "Members can view profile accounts"
+ON public.accounts FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile accounts"
+ON public.accounts FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile accounts"
+ON public.accounts FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile accounts"
+ON public.accounts FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Credit card statements: members read, owners and editors write
+DROP POLICY "Users can view their own credit card statements" ON public.credit_card_statements;
+DROP POLICY "Users can create their own credit card statements" ON public.credit_card_statements;
+DROP POLICY "Users can update their own credit card statements" ON public.credit_card_statements;
+DROP POLICY "Users can delete their own credit card statements" ON public.credit_card_statements;
+
+CREATE POLICY "Members can view profile credit card statements"
+ON public.credit_card_statements FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile credit card statements"
+ON public.credit_card_statements FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile credit card statements"
+ON public.credit_card_statements FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile credit card statements"
+ON public.credit_card_statements FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Recurring rules: members read, owners and editors write
+DROP POLICY "Users can view their own recurring rules" ON public.recurring_rules;
+DROP POLICY "Users can create their own recurring rules" ON public.recurring_rules;
+DROP POLICY "Users can update their own recurring rules" ON public.recurring_rules;
+DROP POLICY "Users can delete their own recurring rules" ON public.recurring_rules;
+
+CREATE POLICY "Members can view profile recurring rules"
+ON public.recurring_rules FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile recurring rules"
+ON public.recurring_rules FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile recurring rules"
+ON public.recurring_rules FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile recurring rules"
+ON public.recurring_rules FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Budgets: members read, owners and editors write
+DROP POLICY "Users can view their own budgets" ON public.budgets;
+DROP POLICY "Users can create their own budgets" ON public.budgets;
+DROP POLICY "Users can update their own budgets" ON public.budgets;
+DROP POLICY "Users can delete their own budgets" ON public.budgets;
+
+CREATE POLICY "Members can view profile budgets"
+ON public.budgets FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile budgets"
+ON public.budgets FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile budgets"
+ON public.budgets FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile budgets"
+ON public.budgets FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Goals: members read, owners and editors write
+DROP POLICY "Users can view their own goals" ON public.goals;
+DROP POLICY "Users can create their own goals" ON public.goals;
+DROP POLICY "Users can update their own goals" ON public.goals;
+DROP POLICY "Users can delete their own goals" ON public.goals;
+
+CREATE POLICY "Members can view profile goals"
+ON public.goals FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile goals"
+ON public.goals FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile goals"
+ON public.goals FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile goals"
+ON public.goals FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Goal contributions: members read, owners and editors write
+DROP POLICY "Users can view their own goal contributions" ON public.goal_contributions;
+DROP POLICY "Users can create their own goal contributions" ON public.goal_contributions;
+DROP POLICY "Users can update their own goal contributions" ON public.goal_contributions;
+DROP POLICY "Users can delete their own goal contributions" ON public.goal_contributions;
+
+CREATE POLICY "Members can view profile goal contributions"
+ON public.goal_contributions FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile goal contributions"
+ON public.goal_contributions FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile goal contributions"
+ON public.goal_contributions FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile goal contributions"
+ON public.goal_contributions FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Tags: members read, owners and editors write
+DROP POLICY "Users can view their own tags" ON public.tags;
+DROP POLICY "Users can create their own tags" ON public.tags;
+DROP POLICY "Users can update their own tags" ON public.tags;
+DROP POLICY "Users can delete their own tags" ON public.tags;
+
+CREATE POLICY "Members can view profile tags"
+ON public.tags FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile tags"
+ON public.tags FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile tags"
+ON public.tags FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile tags"
+ON public.tags FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Investment assets: members read, owners and editors write
+DROP POLICY "Users can view their own investment assets" ON public.investment_assets;
+DROP POLICY "Users can create their own investment assets" ON public.investment_assets;
+DROP POLICY "Users can update their own investment assets" ON public.investment_assets;
+DROP POLICY "Users can delete their own investment assets" ON public.investment_assets;
+
+CREATE POLICY "Members can view profile investment assets"
+ON public.investment_assets FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile investment assets"
+ON public.investment_assets FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile investment assets"
+ON public.investment_assets FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile investment assets"
+ON public.investment_assets FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Investment movements: members read, owners and editors write
+DROP POLICY "Users can view their own investment movements" ON public.investment_movements;
+DROP POLICY "Users can create their own investment movements" ON public.investment_movements;
+DROP POLICY "Users can update their own investment movements" ON public.investment_movements;
+DROP POLICY "Users can delete their own investment movements" ON public.investment_movements;
+
+CREATE POLICY "Members can view profile investment movements"
+ON public.investment_movements FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile investment movements"
+ON public.investment_movements FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile investment movements"
+ON public.investment_movements FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile investment movements"
+ON public.investment_movements FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Investment prices: members read, owners and editors write
+DROP POLICY "Users can view their own investment prices" ON public.investment_prices;
+DROP POLICY "Users can create their own investment prices" ON public.investment_prices;
+DROP POLICY "Users can update their own investment prices" ON public.investment_prices;
+DROP POLICY "Users can delete their own investment prices" ON public.investment_prices;
+
+CREATE POLICY "Members can view profile investment prices"
+ON public.investment_prices FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile investment prices"
+ON public.investment_prices FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile investment prices"
+ON public.investment_prices FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile investment prices"
+ON public.investment_prices FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Loans: members read, owners and editors write
+DROP POLICY "Users can view their own loans" ON public.loans;
+DROP POLICY "Users can create their own loans" ON public.loans;
+DROP POLICY "Users can update their own loans" ON public.loans;
+DROP POLICY "Users can delete their own loans" ON public.loans;
+
+CREATE POLICY "Members can view profile loans"
+ON public.loans FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile loans"
+ON public.loans FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile loans"
+ON public.loans FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile loans"
+ON public.loans FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Payees: members read, owners and editors write
+DROP POLICY "Users can view their own payees" ON public.payees;
+DROP POLICY "Users can create their own payees" ON public.payees;
+DROP POLICY "Users can update their own payees" ON public.payees;
+DROP POLICY "Users can delete their own payees" ON public.payees;
+
+CREATE POLICY "Members can view profile payees"
+ON public.payees FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile payees"
+ON public.payees FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile payees"
+ON public.payees FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile payees"
+ON public.payees FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Transaction tags follow the transaction they belong to
+DROP POLICY "Users can view their own transaction tags" ON public.transaction_tags;
+DROP POLICY "Users can create their own transaction tags" ON public.transaction_tags;
+DROP POLICY "Users can delete their own transaction tags" ON public.transaction_tags;
+
+CREATE POLICY "Members can view profile transaction tags"
+ON public.transaction_tags FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_tags.transaction_id AND public.is_profile_member(t.profile_id)
+));
+
+CREATE POLICY "Editors can create profile transaction tags"
+ON public.transaction_tags FOR INSERT
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_tags.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+CREATE POLICY "Editors can delete profile transaction tags"
+ON public.transaction_tags FOR DELETE
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_tags.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+-- Transaction splits follow the transaction they belong to
+DROP POLICY "Users can view their own transaction splits" ON public.transaction_splits;
+DROP POLICY "Users can create their own transaction splits" ON public.transaction_splits;
+DROP POLICY "Users can update their own transaction splits" ON public.transaction_splits;
+DROP POLICY "Users can delete their own transaction splits" ON public.transaction_splits;
+
+CREATE POLICY "Members can view profile transaction splits"
+ON public.transaction_splits FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_splits.transaction_id AND public.is_profile_member(t.profile_id)
+));
+
+CREATE POLICY "Editors can create profile transaction splits"
+ON public.transaction_splits FOR INSERT
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_splits.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+CREATE POLICY "Editors can update profile transaction splits"
+ON public.transaction_splits FOR UPDATE
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_splits.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+CREATE POLICY "Editors can delete profile transaction splits"
+ON public.transaction_splits FOR DELETE
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_splits.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+-- Transaction attachments follow the transaction they belong to
+DROP POLICY "Users can view their own transaction attachments" ON public.transaction_attachments;
+DROP POLICY "Users can create their own transaction attachments" ON public.transaction_attachments;
+DROP POLICY "Users can update their own transaction attachments" ON public.transaction_attachments;
+DROP POLICY "Users can delete their own transaction attachments" ON public.transaction_attachments;
+
+CREATE POLICY "Members can view profile transaction attachments"
+ON public.transaction_attachments FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_attachments.transaction_id AND public.is_profile_member(t.profile_id)
+));
+
+CREATE POLICY "Editors can create profile transaction attachments"
+ON public.transaction_attachments FOR INSERT
+WITH CHECK (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_attachments.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+CREATE POLICY "Editors can update profile transaction attachments"
+ON public.transaction_attachments FOR UPDATE
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_attachments.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+CREATE POLICY "Editors can delete profile transaction attachments"
+ON public.transaction_attachments FOR DELETE
+USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_attachments.transaction_id AND public.can_edit_profile(t.profile_id)
+));
+
+-- Members can download files attached to the profiles they can read, whoever uploaded them
+CREATE POLICY "Members can view profile files in uploads bucket"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'uploads' AND (
+    EXISTS (SELECT 1 FROM public.uploaded_files f WHERE f.storage_path = objects.name)
+    OR EXISTS (SELECT 1 FROM public.transaction_attachments a WHERE a.storage_path = objects.name)
+));
+
+-- Create indexes for better query performance
+CREATE INDEX idx_profile_members_user_id ON public.profile_members(user_id);
+CREATE INDEX idx_profile_invitations_profile_id ON public.profile_invitations(profile_id);
+CREATE INDEX idx_profile_invitations_email ON public.profile_invitations(lower(email)) WHERE status = 'pending';
+CREATE UNIQUE INDEX idx_profile_invitations_pending ON public.profile_invitations(profile_id, lower(email)) WHERE status = 'pending';
@@ -0,0 +1,44 @@
+-- Rows written to a profile must come from someone who can write to it (owner or editor) and
+-- be credited to one of its members. Policies already check the caller; this trigger also covers
+-- SECURITY DEFINER functions and service role requests, where auth.uid() is NULL and only the
+-- user_id can be checked.
+CREATE OR REPLACE FUNCTION public.enforce_profile_access()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.can_edit_profile(NEW.profile_id) THEN
+        RAISE EXCEPTION 'Sem permissão para alterar este perfil'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profile_members
+        WHERE profile_id = NEW.profile_id
+          AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'O usuário do registro não é membro do perfil'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_transactions_profile_access
+    BEFORE INSERT OR UPDATE OF profile_id, user_id ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_profile_access();
+
+CREATE TRIGGER enforce_uploaded_files_profile_access
+    BEFORE INSERT OR UPDATE OF profile_id, user_id ON public.uploaded_files
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_profile_access();
+
+-- Limits of the transaction form and the CSV import (src/lib/csv.ts), enforced for every writer.
+-- Rows written before the limits existed are left as they are: the constraints only check new
+-- and updated rows until validated (see transactions_outside_limits).
+ALTER TABLE public.transactions
+    ADD CONSTRAINT transactions_amount_check CHECK (amount > 0 AND amount <= 999999999.99) NOT VALID,
+    ADD CONSTRAINT transactions_description_check CHECK (char_length(description) BETWEEN 1 AND 500) NOT VALID,
+    ADD CONSTRAINT transactions_notes_check CHECK (char_length(notes) <= 1000) NOT VALID,
+    ADD CONSTRAINT transactions_payment_source_check CHECK (char_length(payment_source) <= 100) NOT VALID,
+    ADD CONSTRAINT transactions_transaction_date_check CHECK (transaction_date BETWEEN '1990-01-01' AND '2100-12-31') NOT VALID;
@@ -0,0 +1,210 @@
+-- Archived profiles keep their data but leave the profile list (e.g. the source of a merge)
+ALTER TABLE public.profiles ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- The category of the target profile with the same type, name and parent name
+CREATE OR REPLACE FUNCTION public.match_profile_category(_category_id UUID, _target_profile_id UUID)
+RETURNS UUID AS $$
+    SELECT t.id
+    FROM public.categories s
+    LEFT JOIN public.categories sp ON sp.id = s.parent_id
+    JOIN public.categories t ON t.profile_id = _target_profile_id
+        AND t.type = s.type
+        AND lower(t.name) = lower(s.name)
+    LEFT JOIN public.categories tp ON tp.id = t.parent_id
+    WHERE s.id = _category_id
+      AND lower(tp.name) IS NOT DISTINCT FROM lower(sp.name)
+    ORDER BY t.created_at
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The account of the target profile with the same name
+CREATE OR REPLACE FUNCTION public.match_profile_account(_account_id UUID, _target_profile_id UUID)
+RETURNS UUID AS $$
+    SELECT t.id
+    FROM public.accounts s
+    JOIN public.accounts t ON t.profile_id = _target_profile_id
+        AND lower(t.name) = lower(s.name)
+    WHERE s.id = _account_id
+    ORDER BY t.created_at
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Moves or copies transactions into another profile; returns how many were moved or copied.
+-- Both legs of a transfer always go together. Accounts, categories and tags are matched by name
+-- in the target profile: missing tags are created, unmatched accounts are kept as the payment
+-- source text and unmatched categories are cleared. The payee is matched again in the target,
+-- and links to goals, loans, recurring rules, statements and investment movements, which stay
+-- in the source profile, are cleared. Copies leave attachments behind. Runs with the caller's
+-- permissions, so they must be able to write to both profiles.
+CREATE OR REPLACE FUNCTION public.move_transactions(_ids UUID[], _target_profile_id UUID, _copy BOOLEAN DEFAULT false)
+RETURNS INTEGER AS $$
+DECLARE
+    ids UUID[];
+    -- New ids of copies are derived from the source ids, so installments, transfer legs and
+    -- tags of the copies can be linked up without a lookup table
+    salt TEXT := gen_random_uuid()::text;
+    affected INTEGER;
+BEGIN
+    SELECT array_agg(t.id) INTO ids
+    FROM public.transactions t
+    WHERE t.profile_id <> _target_profile_id
+      AND (
+          t.id = ANY(_ids)
+          OR t.transfer_id IN (
+              SELECT transfer_id FROM public.transactions
+              WHERE id = ANY(_ids) AND transfer_id IS NOT NULL
+          )
+      );
+
+    IF ids IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO public.tags (profile_id, user_id, name, color)
+    SELECT DISTINCT ON (tg.name) _target_profile_id, coalesce(auth.uid(), tg.user_id), tg.name, tg.color
+    FROM public.transaction_tags tt
+    JOIN public.tags tg ON tg.id = tt.tag_id
+    WHERE tt.transaction_id = ANY(ids)
+    ON CONFLICT (profile_id, name) DO NOTHING;
+
+    IF _copy THEN
+        INSERT INTO public.transactions (
+            id, profile_id, user_id, type, description, amount, currency, status, payment_method,
+            payment_source, account_id, category_id, transaction_date, notes,
+            installment_group_id, installment_number, installment_count, transfer_id, transfer_direction
+        )
+        SELECT
+            md5(t.id::text || salt)::uuid,
+            _target_profile_id,
+            coalesce(auth.uid(), t.user_id),
+            t.type,
+            t.description,
+            t.amount,
+            t.currency,
+            t.status,
+            t.payment_method,
+            CASE WHEN t.account_id IS NOT NULL AND target_account.id IS NULL
+                THEN coalesce(t.payment_source, left(a.name, 100))
+                ELSE t.payment_source
+            END,
+            target_account.id,
+            public.match_profile_category(t.category_id, _target_profile_id),
+            t.transaction_date,
+            t.notes,
+            md5(t.installment_group_id::text || salt)::uuid,
+            t.installment_number,
+            t.installment_count,
+            md5(t.transfer_id::text || salt)::uuid,
+            t.transfer_direction
+        FROM public.transactions t
+        LEFT JOIN public.accounts a ON a.id = t.account_id
+        LEFT JOIN LATERAL (
+            SELECT public.match_profile_account(t.account_id, _target_profile_id) AS id
+        ) target_account ON true
+        WHERE t.id = ANY(ids);
+
+        GET DIAGNOSTICS affected = ROW_COUNT;
+
+        INSERT INTO public.transaction_splits (transaction_id, user_id, position, label, amount, notes)
+        SELECT md5(s.transaction_id::text || salt)::uuid, coalesce(auth.uid(), s.user_id), s.position, s.label, s.amount, s.notes
+        FROM public.transaction_splits s
+        WHERE s.transaction_id = ANY(ids);
+
+        INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+        SELECT md5(tt.transaction_id::text || salt)::uuid, target_tag.id, coalesce(auth.uid(), tt.user_id)
+        FROM public.transaction_tags tt
+        JOIN public.tags tg ON tg.id = tt.tag_id
+        JOIN public.tags target_tag ON target_tag.profile_id = _target_profile_id AND target_tag.name = tg.name
+        WHERE tt.transaction_id = ANY(ids);
+
+        RETURN affected;
+    END IF;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+    SELECT tt.transaction_id, target_tag.id, tt.user_id
+    FROM public.transaction_tags tt
+    JOIN public.tags tg ON tg.id = tt.tag_id
+    JOIN public.tags target_tag ON target_tag.profile_id = _target_profile_id AND target_tag.name = tg.name
+    WHERE tt.transaction_id = ANY(ids)
+    ON CONFLICT (transaction_id, tag_id) DO NOTHING;
+
+    DELETE FROM public.transaction_tags tt
+    USING public.tags tg
+    WHERE tg.id = tt.tag_id
+      AND tt.transaction_id = ANY(ids)
+      AND tg.profile_id <> _target_profile_id;
+
+    UPDATE public.credit_card_statements SET payment_transaction_id = NULL WHERE payment_transaction_id = ANY(ids);
+    UPDATE public.investment_movements SET transaction_id = NULL WHERE transaction_id = ANY(ids);
+
+    UPDATE public.transactions t
+    SET profile_id = _target_profile_id,
+        user_id = coalesce(auth.uid(), t.user_id),
+        payment_source = CASE WHEN t.account_id IS NOT NULL AND target_account.id IS NULL
+            THEN coalesce(t.payment_source, left(a.name, 100))
+            ELSE t.payment_source
+        END,
+        account_id = target_account.id,
+        category_id = public.match_profile_category(t.category_id, _target_profile_id),
+        payee_id = NULL,
+        goal_id = NULL,
+        loan_id = NULL,
+        loan_installment = NULL,
+        recurring_rule_id = NULL,
+        recurrence_date = NULL,
+        uploaded_file_id = CASE WHEN f.profile_id = _target_profile_id THEN t.uploaded_file_id END
+    FROM public.transactions src
+    LEFT JOIN public.accounts a ON a.id = src.account_id
+    LEFT JOIN public.uploaded_files f ON f.id = src.uploaded_file_id
+    LEFT JOIN LATERAL (
+        SELECT public.match_profile_account(src.account_id, _target_profile_id) AS id
+    ) target_account ON true
+    WHERE t.id = src.id
+      AND t.id = ANY(ids);
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Moves every transaction and uploaded file of a profile into another one, including the ones
+-- in the trash, then archives the source. Only the owner of the source profile can merge it.
+CREATE OR REPLACE FUNCTION public.merge_profiles(_source_profile_id UUID, _target_profile_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    moved INTEGER;
+BEGIN
+    IF _source_profile_id = _target_profile_id THEN
+        RAISE EXCEPTION 'Escolha perfis diferentes';
+    END IF;
+
+    IF public.get_profile_role(_source_profile_id) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Apenas o proprietário pode mesclar este perfil'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.can_edit_profile(_target_profile_id) THEN
+        RAISE EXCEPTION 'Sem permissão para alterar este perfil'
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.uploaded_files
+    SET profile_id = _target_profile_id,
+        user_id = coalesce(auth.uid(), user_id)
+    WHERE profile_id = _source_profile_id;
+
+    moved := public.move_transactions(
+        ARRAY(SELECT id FROM public.transactions WHERE profile_id = _source_profile_id),
+        _target_profile_id
+    );
+
+    UPDATE public.profiles
+    SET archived_at = now()
+    WHERE id = _source_profile_id;
+
+    RETURN moved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create index for better query performance
+CREATE INDEX idx_profiles_archived_at ON public.profiles(archived_at) WHERE archived_at IS NOT NULL;
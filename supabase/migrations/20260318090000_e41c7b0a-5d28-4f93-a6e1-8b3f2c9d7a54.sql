@@ -0,0 +1,40 @@
+-- Create profile_settings table: preferences of a profile, shared by its members. Profiles
+-- without a row use the defaults.
+CREATE TABLE public.profile_settings (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    default_payment_method payment_method, -- preselected in new transactions
+    default_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL, -- payment source of new transactions
+    default_currency TEXT CHECK (default_currency ~ '^[A-Z]{3}$'), -- of new transactions; the base currency when null
+    locale TEXT NOT NULL DEFAULT 'pt-BR' CHECK (locale ~ '^[a-z]{2}-[A-Z]{2}$'), -- number formatting
+    month_start_day SMALLINT NOT NULL DEFAULT 1 CHECK (month_start_day BETWEEN 1 AND 28), -- first day of the financial month
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.profile_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for profile_settings: members read, owners and editors write
+CREATE POLICY "Members can view profile settings"
+ON public.profile_settings FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile settings"
+ON public.profile_settings FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile settings"
+ON public.profile_settings FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile settings"
+ON public.profile_settings FOR DELETE
+USING (public.can_edit_profile(profile_id));
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_profile_settings_updated_at
+    BEFORE UPDATE ON public.profile_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- The financial month can also start on the Nth business day (Monday to Friday, holidays not
+-- counted), e.g. a salary paid on the 5th business day. month_start_day is then N.
+ALTER TABLE public.profile_settings
+    ADD COLUMN month_start_rule TEXT NOT NULL DEFAULT 'day' CHECK (month_start_rule IN ('day', 'business_day'));
+
+-- Every month has at least 20 business days
+ALTER TABLE public.profile_settings
+    ADD CONSTRAINT profile_settings_month_start_business_day_check
+    CHECK (month_start_rule = 'day' OR month_start_day <= 20);
@@ -0,0 +1,29 @@
+-- Editors can replace or remove files attached to the profiles they can write to, whoever
+-- uploaded them; the policies of the uploads bucket only let the uploader do it
+CREATE POLICY "Editors can update profile files in uploads bucket"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'uploads' AND (
+    EXISTS (
+        SELECT 1 FROM public.uploaded_files f
+        WHERE f.storage_path = objects.name AND public.can_edit_profile(f.profile_id)
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.transaction_attachments a
+        JOIN public.transactions t ON t.id = a.transaction_id
+        WHERE a.storage_path = objects.name AND public.can_edit_profile(t.profile_id)
+    )
+));
+
+CREATE POLICY "Editors can delete profile files in uploads bucket"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'uploads' AND (
+    EXISTS (
+        SELECT 1 FROM public.uploaded_files f
+        WHERE f.storage_path = objects.name AND public.can_edit_profile(f.profile_id)
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.transaction_attachments a
+        JOIN public.transactions t ON t.id = a.transaction_id
+        WHERE a.storage_path = objects.name AND public.can_edit_profile(t.profile_id)
+    )
+));
@@ -0,0 +1,66 @@
+-- Purges what has been in the trash for longer than the retention period of the profile owner
+-- (user_settings.trash_retention_days, 30 days without settings): profiles first, with everything
+-- in them, then transactions. Returns the storage paths of the files that belonged to the purged
+-- rows, for the purge-trash function to remove from the uploads bucket.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS SETOF TEXT AS $$
+DECLARE
+    expired_profiles UUID[];
+    expired_transactions UUID[];
+    storage_paths TEXT[];
+BEGIN
+    SELECT coalesce(array_agg(p.id), '{}') INTO expired_profiles
+    FROM public.profiles p
+    LEFT JOIN public.user_settings s ON s.user_id = p.user_id
+    WHERE p.deleted_at < now() - make_interval(days => coalesce(s.trash_retention_days, 30));
+
+    -- Shared profiles follow their owner's setting
+    SELECT coalesce(array_agg(t.id), '{}') INTO expired_transactions
+    FROM public.transactions t
+    JOIN public.profiles p ON p.id = t.profile_id
+    LEFT JOIN public.user_settings s ON s.user_id = p.user_id
+    WHERE t.deleted_at < now() - make_interval(days => coalesce(s.trash_retention_days, 30))
+      AND NOT t.profile_id = ANY (expired_profiles);
+
+    storage_paths := ARRAY(
+        SELECT a.storage_path
+        FROM public.transaction_attachments a
+        JOIN public.transactions t ON t.id = a.transaction_id
+        WHERE t.id = ANY (expired_transactions) OR t.profile_id = ANY (expired_profiles)
+        UNION
+        SELECT f.storage_path
+        FROM public.uploaded_files f
+        WHERE f.profile_id = ANY (expired_profiles)
+    );
+
+    DELETE FROM public.profiles WHERE id = ANY (expired_profiles);
+    DELETE FROM public.transactions WHERE id = ANY (expired_transactions);
+
+    RETURN QUERY SELECT unnest(storage_paths);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job may purge, never a signed-in user
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_expired_trash() TO service_role;
+
+-- Calls the purge-trash edge function every day at 03:00 UTC. The project URL and the service
+-- role key are read from Vault (secrets project_url and service_role_key) so they stay out of
+-- the migrations.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+    'purge-expired-trash',
+    '0 3 * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,25 @@
+-- Owners change the role of a member, nothing else: the updated row must still belong to a
+-- profile they own, and it cannot be moved to another profile or handed to another user
+DROP POLICY "Owners can update profile members" ON public.profile_members;
+
+CREATE POLICY "Owners can update profile members"
+ON public.profile_members FOR UPDATE
+USING (public.get_profile_role(profile_id) = 'owner' AND role <> 'owner')
+WITH CHECK (public.get_profile_role(profile_id) = 'owner' AND role IN ('editor', 'viewer'));
+
+CREATE OR REPLACE FUNCTION public.prevent_profile_member_move()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.profile_id IS DISTINCT FROM OLD.profile_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Apenas o papel do membro pode ser alterado'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_profile_members_move
+    BEFORE UPDATE OF profile_id, user_id ON public.profile_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_profile_member_move();
@@ -0,0 +1,42 @@
+-- The policies of the uploads bucket let members reach a file when an attachment or uploaded file
+-- row they can see points at it, so these rows cannot point anywhere: a new row must point into
+-- the <user_id>/<profile_id>/ folder of its uploader and profile, where the bucket only lets that
+-- user upload, and the path of an existing row never changes.
+CREATE OR REPLACE FUNCTION public.check_storage_path()
+RETURNS TRIGGER AS $$
+DECLARE
+    _profile_id UUID;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.storage_path IS DISTINCT FROM OLD.storage_path THEN
+            RAISE EXCEPTION 'O caminho do arquivo não pode ser alterado'
+                USING ERRCODE = '42501';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'transaction_attachments' THEN
+        SELECT profile_id INTO _profile_id FROM public.transactions WHERE id = NEW.transaction_id;
+    ELSE
+        _profile_id := NEW.profile_id;
+    END IF;
+
+    IF NOT starts_with(NEW.storage_path, coalesce(auth.uid(), NEW.user_id)::text || '/' || _profile_id::text || '/') THEN
+        RAISE EXCEPTION 'O arquivo não pertence a este perfil'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_transaction_attachments_storage_path
+    BEFORE INSERT OR UPDATE OF storage_path ON public.transaction_attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_storage_path();
+
+CREATE TRIGGER check_uploaded_files_storage_path
+    BEFORE INSERT OR UPDATE OF storage_path ON public.uploaded_files
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_storage_path();
@@ -0,0 +1,43 @@
+-- Transactions written before the limits of the transaction form existed, one row per limit they
+-- break, for their owners to review and fix. Nothing is changed for them: until it is fixed, a
+-- row only fails its check when it is updated. Runs with the caller's permissions, so members
+-- only see their own profiles.
+CREATE VIEW public.transactions_outside_limits WITH (security_invoker = true) AS
+SELECT t.id AS transaction_id, t.profile_id, c.constraint_name
+FROM public.transactions t
+CROSS JOIN LATERAL (VALUES
+    ('transactions_amount_check', t.amount > 0 AND t.amount <= 999999999.99),
+    ('transactions_description_check', char_length(t.description) BETWEEN 1 AND 500),
+    ('transactions_notes_check', char_length(t.notes) <= 1000),
+    ('transactions_payment_source_check', char_length(t.payment_source) <= 100),
+    ('transactions_transaction_date_check', t.transaction_date BETWEEN '1990-01-01' AND '2100-12-31')
+) AS c(constraint_name, passes)
+WHERE NOT c.passes;
+
+-- Validates the limits that no transaction breaks any more and returns the ones still pending.
+-- Run again once the rows listed above have been fixed.
+CREATE OR REPLACE FUNCTION public.validate_transaction_limits()
+RETURNS SETOF TEXT AS $$
+DECLARE
+    pending TEXT;
+BEGIN
+    FOR pending IN
+        SELECT conname
+        FROM pg_constraint
+        WHERE conrelid = 'public.transactions'::regclass
+          AND contype = 'c'
+          AND NOT convalidated
+    LOOP
+        IF EXISTS (SELECT 1 FROM public.transactions_outside_limits WHERE constraint_name = pending) THEN
+            RETURN NEXT pending;
+        ELSE
+            EXECUTE format('ALTER TABLE public.transactions VALIDATE CONSTRAINT %I', pending);
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.validate_transaction_limits() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.validate_transaction_limits() TO service_role;
+
+SELECT public.validate_transaction_limits();
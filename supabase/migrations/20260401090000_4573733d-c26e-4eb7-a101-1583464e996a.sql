@@ -0,0 +1,24 @@
+-- A payee unlinked by hand stays unlinked: updates match again only when the description changes
+-- and the payee is left alone, or when the transaction moves to another profile
+CREATE OR REPLACE FUNCTION public.set_transaction_payee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.profile_id IS NOT DISTINCT FROM OLD.profile_id
+       AND (NEW.description IS NOT DISTINCT FROM OLD.description OR NEW.payee_id IS DISTINCT FROM OLD.payee_id) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.payee_id IS NULL AND NEW.type <> 'transfer' THEN
+        NEW.payee_id := public.match_payee(NEW.profile_id, NEW.description);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER set_transactions_payee ON public.transactions;
+
+CREATE TRIGGER set_transactions_payee
+    BEFORE INSERT OR UPDATE OF description, profile_id ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_transaction_payee();
@@ -0,0 +1,39 @@
+-- Creates a loan with its installment expenses and their interest and principal splits, all or
+-- nothing; returns the loan id. The schedule is worked out by the app (src/lib/loans.ts): each
+-- installment carries its transaction values and a "splits" array of { label, amount }. Runs with
+-- the caller's permissions, so they must be able to write to the profile.
+CREATE OR REPLACE FUNCTION public.create_loan(_loan JSONB, _installments JSONB)
+RETURNS UUID AS $$
+DECLARE
+    new_loan public.loans;
+BEGIN
+    INSERT INTO public.loans (
+        profile_id, user_id, name, principal, interest_rate, rate_period, term_months,
+        amortization_system, first_due_date, account_id, category_id, notes
+    )
+    SELECT
+        l.profile_id, l.user_id, l.name, l.principal, l.interest_rate, l.rate_period, l.term_months,
+        l.amortization_system, l.first_due_date, l.account_id, l.category_id, l.notes
+    FROM jsonb_populate_record(NULL::public.loans, _loan) l
+    RETURNING * INTO new_loan;
+
+    INSERT INTO public.transactions (
+        profile_id, user_id, type, description, amount, status, payment_method, account_id,
+        category_id, transaction_date, loan_id, loan_installment
+    )
+    SELECT
+        new_loan.profile_id, new_loan.user_id, 'expense', t.description, t.amount, t.status,
+        t.payment_method, new_loan.account_id, new_loan.category_id, t.transaction_date,
+        new_loan.id, t.loan_installment
+    FROM jsonb_populate_recordset(NULL::public.transactions, _installments) t;
+
+    INSERT INTO public.transaction_splits (transaction_id, user_id, position, label, amount)
+    SELECT t.id, new_loan.user_id, s.position - 1, s.split->>'label', (s.split->>'amount')::DECIMAL
+    FROM jsonb_array_elements(_installments) i
+    CROSS JOIN LATERAL jsonb_array_elements(i->'splits') WITH ORDINALITY AS s(split, position)
+    JOIN public.transactions t ON t.loan_id = new_loan.id
+        AND t.loan_installment = (i->>'loan_installment')::SMALLINT;
+
+    RETURN new_loan.id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
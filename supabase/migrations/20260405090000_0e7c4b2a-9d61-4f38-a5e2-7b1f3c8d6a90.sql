@@ -0,0 +1,69 @@
+-- The purge-trash function removes the files first and then purges only the rows whose files are
+-- all gone, so a failed storage request leaves the rows, and their files, for the next run
+DROP FUNCTION public.purge_expired_trash();
+
+-- What has been in the trash for longer than the retention period of the profile owner
+-- (user_settings.trash_retention_days, 30 days without settings): profiles, with everything in
+-- them, and transactions of the profiles that stay, each with the storage paths of its files.
+-- Shared profiles follow their owner's setting.
+CREATE OR REPLACE FUNCTION public.get_expired_trash()
+RETURNS TABLE (profile_id UUID, transaction_id UUID, storage_paths TEXT[]) AS $$
+    SELECT p.id, NULL::UUID, ARRAY(
+        SELECT a.storage_path
+        FROM public.transaction_attachments a
+        JOIN public.transactions t ON t.id = a.transaction_id
+        WHERE t.profile_id = p.id
+        UNION
+        SELECT f.storage_path
+        FROM public.uploaded_files f
+        WHERE f.profile_id = p.id
+    )
+    FROM public.profiles p
+    LEFT JOIN public.user_settings s ON s.user_id = p.user_id
+    WHERE p.deleted_at < now() - make_interval(days => coalesce(s.trash_retention_days, 30))
+    UNION ALL
+    SELECT NULL::UUID, t.id, ARRAY(
+        SELECT a.storage_path
+        FROM public.transaction_attachments a
+        WHERE a.transaction_id = t.id
+    )
+    FROM public.transactions t
+    JOIN public.profiles p ON p.id = t.profile_id
+    LEFT JOIN public.user_settings s ON s.user_id = p.user_id
+    CROSS JOIN LATERAL (
+        SELECT now() - make_interval(days => coalesce(s.trash_retention_days, 30)) AS cutoff
+    ) retention
+    WHERE t.deleted_at < retention.cutoff
+      AND (p.deleted_at IS NULL OR p.deleted_at >= retention.cutoff);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The files to remove from the uploads bucket before purging
+CREATE OR REPLACE FUNCTION public.get_expired_trash_files()
+RETURNS SETOF TEXT AS $$
+    SELECT DISTINCT unnest(storage_paths) FROM public.get_expired_trash();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Purges the expired rows whose files are all among the removed ones; returns how many were purged
+CREATE OR REPLACE FUNCTION public.purge_expired_trash(_removed_paths TEXT[])
+RETURNS INTEGER AS $$
+    WITH purgeable AS (
+        SELECT e.profile_id, e.transaction_id
+        FROM public.get_expired_trash() e
+        WHERE e.storage_paths <@ coalesce(_removed_paths, '{}')
+    ),
+    purged_profiles AS (
+        DELETE FROM public.profiles WHERE id IN (SELECT profile_id FROM purgeable) RETURNING id
+    ),
+    purged_transactions AS (
+        DELETE FROM public.transactions WHERE id IN (SELECT transaction_id FROM purgeable) RETURNING id
+    )
+    SELECT ((SELECT count(*) FROM purged_profiles) + (SELECT count(*) FROM purged_transactions))::INTEGER;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job may purge, never a signed-in user
+REVOKE EXECUTE ON FUNCTION public.get_expired_trash() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_expired_trash_files() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash(TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_expired_trash() TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_expired_trash_files() TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_expired_trash(TEXT[]) TO service_role;
@@ -0,0 +1,51 @@
+-- Exchange rates belong to a profile, so every member converts with the same rates. user_id now
+-- records who entered the rate.
+ALTER TABLE public.exchange_rates
+    ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE public.exchange_rates
+    DROP CONSTRAINT exchange_rates_user_id_from_currency_to_currency_rate_date_key;
+
+DROP INDEX public.idx_exchange_rates_user_pair;
+
+-- Each profile starts with the rates of its owner, which is what the owner has been seeing.
+-- Shared profiles follow their owner's rates, as members saw their own until now.
+INSERT INTO public.exchange_rates (user_id, profile_id, from_currency, to_currency, rate, rate_date, created_at, updated_at)
+SELECT r.user_id, p.id, r.from_currency, r.to_currency, r.rate, r.rate_date, r.created_at, r.updated_at
+FROM public.exchange_rates r
+JOIN public.profiles p ON p.user_id = r.user_id
+WHERE r.profile_id IS NULL;
+
+-- The per-user rows are now copied into the profiles of their user; those of users who own no
+-- profile had nothing of their own to convert
+DELETE FROM public.exchange_rates WHERE profile_id IS NULL;
+
+ALTER TABLE public.exchange_rates ALTER COLUMN profile_id SET NOT NULL;
+
+ALTER TABLE public.exchange_rates
+    ADD CONSTRAINT exchange_rates_profile_id_from_currency_to_currency_rate_date_key
+    UNIQUE (profile_id, from_currency, to_currency, rate_date);
+
+CREATE INDEX idx_exchange_rates_profile_pair ON public.exchange_rates(profile_id, from_currency, to_currency, rate_date);
+
+-- Exchange rates: members read, owners and editors write
+DROP POLICY "Users can view their own exchange rates" ON public.exchange_rates;
+DROP POLICY "Users can create their own exchange rates" ON public.exchange_rates;
+DROP POLICY "Users can update their own exchange rates" ON public.exchange_rates;
+DROP POLICY "Users can delete their own exchange rates" ON public.exchange_rates;
+
+CREATE POLICY "Members can view profile exchange rates"
+ON public.exchange_rates FOR SELECT
+USING (public.is_profile_member(profile_id));
+
+CREATE POLICY "Editors can create profile exchange rates"
+ON public.exchange_rates FOR INSERT
+WITH CHECK (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can update profile exchange rates"
+ON public.exchange_rates FOR UPDATE
+USING (public.can_edit_profile(profile_id));
+
+CREATE POLICY "Editors can delete profile exchange rates"
+ON public.exchange_rates FOR DELETE
+USING (public.can_edit_profile(profile_id));
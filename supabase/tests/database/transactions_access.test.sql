@@ -0,0 +1,267 @@
+-- Regression tests for profile access and transaction integrity.
+-- Run against the local database with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(30);
+
+-- Fixtures: Ana and Bruno own one profile each; Carla can only read Ana's and Davi can edit it.
+-- Ana can also read Bruno's.
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-1111-1111-111111111111', 'ana@example.com'),
+    ('22222222-2222-2222-2222-222222222222', 'bruno@example.com'),
+    ('33333333-3333-3333-3333-333333333333', 'carla@example.com'),
+    ('44444444-4444-4444-4444-444444444444', 'davi@example.com');
+
+INSERT INTO public.profiles (id, user_id, name) VALUES
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'Ana'),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222', 'Bruno');
+
+INSERT INTO public.transactions (id, profile_id, user_id, type, description, amount, transaction_date) VALUES
+    ('b0000000-0000-0000-0000-000000000001', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+     '22222222-2222-2222-2222-222222222222', 'expense', 'Farmácia', 40.00, '2026-03-01');
+
+INSERT INTO public.profile_members (profile_id, user_id, email, role) VALUES
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 'carla@example.com', 'viewer'),
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '44444444-4444-4444-4444-444444444444', 'davi@example.com', 'editor'),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '11111111-1111-1111-1111-111111111111', 'ana@example.com', 'viewer');
+
+-- Ana
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "email": "ana@example.com"}', true);
+
+SELECT lives_ok(
+    $$ INSERT INTO public.transactions (id, profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('a0000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+               '11111111-1111-1111-1111-111111111111', 'expense', 'Mercado', 150.00, '2026-03-01') $$,
+    'owners can add transactions to their profile'
+);
+
+-- A receipt Ana attaches to it
+RESET ROLE;
+INSERT INTO public.transaction_attachments (transaction_id, user_id, file_name, file_type, file_size, storage_path)
+VALUES ('a0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+        'nota.pdf', 'application/pdf', 1024, '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf');
+INSERT INTO storage.objects (bucket_id, name) VALUES ('uploads', '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf');
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Invasão', 10.00, '2026-03-01') $$,
+    '42501', NULL,
+    'transactions cannot be added to a profile of another user'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '22222222-2222-2222-2222-222222222222',
+               'expense', 'Em nome de outro', 10.00, '2026-03-01') $$,
+    '42501', NULL,
+    'transactions cannot be credited to a user outside the profile'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.transactions SET profile_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'
+       WHERE id = 'a0000000-0000-0000-0000-000000000001' $$,
+    '42501', NULL,
+    'transactions cannot be moved to a profile of another user'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.uploaded_files (profile_id, user_id, file_name, file_type, file_size, storage_path)
+       VALUES ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '11111111-1111-1111-1111-111111111111',
+               'extrato.pdf', 'application/pdf', 1024, '11111111-1111-1111-1111-111111111111/bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb/extrato.pdf') $$,
+    '42501', NULL,
+    'files cannot be added to a profile of another user'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.transaction_attachments
+       SET storage_path = '22222222-2222-2222-2222-222222222222/bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb/extrato.pdf'
+       WHERE transaction_id = 'a0000000-0000-0000-0000-000000000001' $$,
+    '42501', NULL,
+    'attachments cannot be pointed at another file'
+);
+
+-- Constraints mirroring the limits of src/lib/csv.ts
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Zerado', 0, '2026-03-01') $$,
+    '23514', NULL,
+    'amount must be greater than zero'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Negativo', -5.00, '2026-03-01') $$,
+    '23514', NULL,
+    'amount cannot be negative'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Enorme', 1000000000.00, '2026-03-01') $$,
+    '23514', NULL,
+    'amount must be at most 999999999.99'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', repeat('x', 501), 10.00, '2026-03-01') $$,
+    '23514', NULL,
+    'description must be at most 500 characters'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date, notes)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Nota longa', 10.00, '2026-03-01', repeat('x', 1001)) $$,
+    '23514', NULL,
+    'notes must be at most 1000 characters'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date, payment_source)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Fonte longa', 10.00, '2026-03-01', repeat('x', 101)) $$,
+    '23514', NULL,
+    'payment source must be at most 100 characters'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Antiga', 10.00, '1989-12-31') $$,
+    '23514', NULL,
+    'dates before 1990 are rejected'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'expense', 'Futura', 10.00, '2101-01-01') $$,
+    '23514', NULL,
+    'dates after 2100 are rejected'
+);
+
+SELECT lives_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date, notes, payment_source)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+               'income', repeat('x', 500), 999999999.99, '1990-01-01', repeat('x', 1000), repeat('x', 100)) $$,
+    'values at the limits are accepted'
+);
+
+-- Sharing
+SELECT isnt_empty(
+    $$ UPDATE public.profile_members SET role = 'viewer'
+       WHERE profile_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' AND user_id = '33333333-3333-3333-3333-333333333333'
+       RETURNING id $$,
+    'owners can change the role of a member'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.profile_members
+       SET profile_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', user_id = '44444444-4444-4444-4444-444444444444', role = 'editor'
+       WHERE profile_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' AND user_id = '33333333-3333-3333-3333-333333333333' $$,
+    '42501', NULL,
+    'owners cannot move a member row into a profile they do not own'
+);
+
+SELECT lives_ok(
+    $$ INSERT INTO public.exchange_rates (profile_id, user_id, from_currency, to_currency, rate, rate_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'USD', 'BRL', 5.00, '2026-03-01') $$,
+    'owners can add exchange rates to their profile'
+);
+
+-- Carla (viewer)
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "email": "carla@example.com"}', true);
+
+SELECT is(
+    (SELECT count(*) FROM public.transactions WHERE profile_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+    2::bigint,
+    'viewers can read the transactions of the profile'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transactions (profile_id, user_id, type, description, amount, transaction_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333',
+               'expense', 'Leitura apenas', 10.00, '2026-03-01') $$,
+    '42501', NULL,
+    'viewers cannot add transactions'
+);
+
+SELECT is(
+    (SELECT rate FROM public.exchange_rates WHERE profile_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+    5.00,
+    'members convert with the exchange rates of the profile'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.exchange_rates (profile_id, user_id, from_currency, to_currency, rate, rate_date)
+       VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 'USD', 'BRL', 6.00, '2026-03-01') $$,
+    '42501', NULL,
+    'viewers cannot add exchange rates'
+);
+
+SELECT lives_ok(
+    $$ UPDATE public.transactions SET amount = 1.00 WHERE id = 'a0000000-0000-0000-0000-000000000001' $$,
+    'updates by viewers run without error'
+);
+
+SELECT is_empty(
+    $$ DELETE FROM storage.objects WHERE name = '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf' RETURNING id $$,
+    'viewers cannot remove attached files'
+);
+
+-- Davi (editor)
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "email": "davi@example.com"}', true);
+
+SELECT isnt_empty(
+    $$ UPDATE storage.objects SET name = name WHERE name = '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf' RETURNING id $$,
+    'editors can replace files attached by other members'
+);
+
+SELECT isnt_empty(
+    $$ DELETE FROM storage.objects WHERE name = '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf' RETURNING id $$,
+    'editors can remove files attached by other members'
+);
+
+-- Bruno
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "email": "bruno@example.com"}', true);
+
+SELECT is_empty(
+    $$ SELECT id FROM public.transactions WHERE profile_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+    'users outside the profile cannot read its transactions'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.transaction_attachments (transaction_id, user_id, file_name, file_type, file_size, storage_path)
+       VALUES ('b0000000-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'nota.pdf',
+               'application/pdf', 1024, '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf') $$,
+    '42501', NULL,
+    'attachments cannot point at files of another profile'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.uploaded_files (profile_id, user_id, file_name, file_type, file_size, storage_path)
+       VALUES ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222', 'nota.pdf',
+               'application/pdf', 1024, '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/attachments/nota.pdf') $$,
+    '42501', NULL,
+    'uploaded files cannot point at files of another profile'
+);
+
+RESET ROLE;
+
+SELECT is(
+    (SELECT amount FROM public.transactions WHERE id = 'a0000000-0000-0000-0000-000000000001'),
+    150.00,
+    'updates by viewers change nothing'
+);
+
+SELECT * FROM finish();
+ROLLBACK;